@@ -3,6 +3,12 @@ import { motion } from 'framer-motion';
 import { VideoItem, ToastType } from '../types';
 import { IconCopy, IconDownload, IconBookmark, IconVideo } from '../constants/icons';
 import { Checkbox } from './ui/checkbox';
+import { formatNumber, getContentType, isLiveNow } from '../services/youtubeService';
+import { formatMultiplier } from '../services/outlierService';
+import { getMetricLabel, getViewMetric } from '../services/ageMetricsService';
+import { useMetricBasis } from '../hooks/useMetricBasis';
+import { ViewHistory } from '../hooks/useViewHistory';
+import ViewSparkline from './ViewSparkline';
 
 interface AnimatedVideoCardProps {
   video: VideoItem;
@@ -14,6 +20,10 @@ interface AnimatedVideoCardProps {
   showCheckbox?: boolean;
   isSelected?: boolean;
   onSelect?: (videoId: string) => void;
+  // Published since the user's last visit (watchlist)
+  isNew?: boolean;
+  // Loaded for the whole grid by the parent (useViewHistories)
+  history?: ViewHistory;
 }
 
 const stringToColor = (str: string) => {
@@ -25,6 +35,16 @@ const stringToColor = (str: string) => {
   return colors[Math.abs(hash) % colors.length];
 };
 
+// Thumbnail corner label: on-air streams and scheduled broadcasts have no meaningful duration yet
+const getBroadcastBadge = (video: VideoItem): { label: string; className: string } => {
+  const type = getContentType(video);
+  if (isLiveNow(video)) return { label: '● LIVE', className: 'bg-red-600' };
+  if (type === 'upcoming') return { label: 'UPCOMING', className: 'bg-blue-600' };
+  if (type === 'live') return { label: `STREAM · ${video.durationFormatted}`, className: 'bg-black/80' };
+  if (type === 'premiere') return { label: `PREMIERE · ${video.durationFormatted}`, className: 'bg-black/80' };
+  return { label: video.durationFormatted, className: 'bg-black/80' };
+};
+
 const AnimatedVideoCard: React.FC<AnimatedVideoCardProps> = ({ 
   video, 
   index, 
@@ -34,9 +54,14 @@ const AnimatedVideoCard: React.FC<AnimatedVideoCardProps> = ({
   onPreview,
   showCheckbox = false,
   isSelected = false,
-  onSelect
+  onSelect,
+  isNew = false,
+  history
 }) => {
   const [isHovered, setIsHovered] = useState(false);
+  const velocity = history?.velocity || [];
+  const viewsPerHour = history?.viewsPerHour ?? null;
+  const [basis] = useMetricBasis();
 
   const copyLink = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -76,6 +101,7 @@ const AnimatedVideoCard: React.FC<AnimatedVideoCardProps> = ({
   };
 
   const avatarColor = stringToColor(video.channelTitle || 'YouTube');
+  const badge = getBroadcastBadge(video);
 
   return (
     <motion.div 
@@ -139,8 +165,8 @@ const AnimatedVideoCard: React.FC<AnimatedVideoCardProps> = ({
         />
 
         {/* Duration Badge */}
-        <div className="absolute bottom-2 right-2 bg-black/80 backdrop-blur-sm text-white text-[10px] font-bold px-2 py-0.5 rounded-lg">
-          {video.durationFormatted}
+        <div className={`absolute bottom-2 right-2 ${badge.className} backdrop-blur-sm text-white text-[10px] font-bold px-2 py-0.5 rounded-lg`}>
+          {badge.label}
         </div>
 
         {/* Outlier Badge */}
@@ -149,11 +175,19 @@ const AnimatedVideoCard: React.FC<AnimatedVideoCardProps> = ({
             initial={{ scale: 0 }}
             animate={{ scale: 1 }}
             className="absolute top-2 left-2 bg-orange-500 text-white text-[10px] font-black px-2 py-0.5 rounded-full shadow-lg flex items-center gap-1"
+            title={video.outlierMultiplier ? `${formatMultiplier(video.outlierMultiplier)} median channel` : undefined}
           >
-            <span>🔥</span> OUTLIER
+            <span>🔥</span> {video.outlierMultiplier ? formatMultiplier(video.outlierMultiplier) : 'OUTLIER'}
           </motion.div>
         )}
 
+        {/* New Since Last Visit Badge */}
+        {isNew && !video.isOutlier && !showCheckbox && (
+          <div className="absolute top-2 left-2 bg-primary text-primary-foreground text-[10px] font-black px-2 py-0.5 rounded-full shadow-lg">
+            NEW
+          </div>
+        )}
+
         {/* ER Badge */}
         <div className={`absolute bottom-2 left-2 text-[10px] font-bold px-2 py-0.5 rounded-full border backdrop-blur-sm shadow-sm ${getERStyles(video.engagementRate)}`}>
           {video.engagementRate}% ER
@@ -191,11 +225,31 @@ const AnimatedVideoCard: React.FC<AnimatedVideoCardProps> = ({
           <div className="text-muted-foreground text-[10px] font-medium flex items-center gap-1.5 flex-wrap">
             <span className="truncate max-w-[80px]">{video.channelTitle}</span>
             <span className="opacity-30">•</span>
-            <span>{video.views}</span>
+            {basis === 'raw' ? (
+              <span>{video.views}</span>
+            ) : (
+              <span title={`${video.views} views total`}>
+                {formatNumber(Math.round(getViewMetric(video, basis)))} {getMetricLabel('views', basis)}
+              </span>
+            )}
             <span className="opacity-30">•</span>
-            <span>{video.publishedTimeAgo}</span>
+            {isLiveNow(video) && video.liveDetails.concurrentViewers !== undefined ? (
+              <span className="text-red-500 font-bold">{formatNumber(video.liveDetails.concurrentViewers)} watching</span>
+            ) : getContentType(video) === 'upcoming' && video.liveDetails?.scheduledStartTime ? (
+              <span>{new Date(video.liveDetails.scheduledStartTime).toLocaleString()}</span>
+            ) : (
+              <span>{video.publishedTimeAgo}</span>
+            )}
           </div>
 
+          {/* View Velocity - needs two fetches of the same video */}
+          {viewsPerHour !== null && (
+            <div className="flex items-center gap-1.5 mt-1.5 text-[10px] font-bold text-muted-foreground" title="Views per hour between fetches">
+              <ViewSparkline values={velocity.map(p => p.viewsPerHour)} />
+              <span>+{formatNumber(Math.round(viewsPerHour))}/jam</span>
+            </div>
+          )}
+
           {/* Action Buttons - 3 buttons: Video | Thumb | Copy */}
           <div className="flex items-center gap-1 mt-3">
             <motion.button 
@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { FetchProgress, ToastType, VideoItem } from '../types';
+import { IconChart, IconSparkles, IconX } from '../constants/icons';
+import {
+  fetchComments,
+  estimateCommentCost,
+  getTopComments,
+  getCommentTermFrequency,
+  extractViewerQuestions,
+  getCommentVolume,
+  CommentFetchResult,
+} from '../services/commentService';
+import { runWithQuotaFeature } from '../services/quotaService';
+import { getPoolRemainingQuota } from '../services/apiKeyService';
+import { getApiErrorMessage, getDataSource, isAbortError } from '../services/youtubeApiClient';
+import { formatNumber } from '../services/youtubeService';
+
+interface CommentInsightsModalProps {
+  videos: VideoItem[] | null;
+  apiKey: string;
+  onClose: () => void;
+  onToast: (msg: string, type: ToastType) => void;
+}
+
+const PAGE_CAPS = [1, 2, 5, 10];
+
+const CommentInsightsModal: React.FC<CommentInsightsModalProps> = ({ videos, apiKey, onClose, onToast }) => {
+  const [maxPages, setMaxPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<FetchProgress | null>(null);
+  const [result, setResult] = useState<CommentFetchResult | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // A new selection starts from scratch
+  useEffect(() => {
+    setResult(null);
+    setProgress(null);
+    return () => controllerRef.current?.abort();
+  }, [videos]);
+
+  const videoCount = videos?.length || 0;
+  const estimate = estimateCommentCost(videoCount, maxPages);
+  const chargesQuota = getDataSource().requiresKey;
+
+  const insights = useMemo(() => {
+    if (!result) return null;
+    return {
+      top: getTopComments(result.comments, 10),
+      terms: getCommentTermFrequency(result.comments, 40),
+      questions: extractViewerQuestions(result.comments, 20),
+      volume: getCommentVolume(result.comments),
+    };
+  }, [result]);
+
+  const titleById = useMemo(() => new Map((videos || []).map(v => [v.id, v.title])), [videos]);
+  const maxTermCount = insights?.terms[0]?.count || 1;
+
+  const handleFetch = async () => {
+    if (!videos?.length) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setLoading(true);
+    setResult(null);
+    try {
+      const fetched = await runWithQuotaFeature('comments', () => fetchComments(apiKey, videos.map(v => v.id), {
+        maxPagesPerVideo: maxPages,
+        signal: controller.signal,
+        onProgress: setProgress,
+      }));
+      setResult(fetched);
+      onToast(
+        `${fetched.comments.length} komentar dimuat${fetched.skippedVideos ? `, ${fetched.skippedVideos} video tanpa komentar` : ''}`,
+        'success'
+      );
+    } catch (err) {
+      if (!isAbortError(err)) onToast(getApiErrorMessage(err, 'Gagal memuat komentar'), 'error');
+    } finally {
+      controllerRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {videos && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[250] flex items-center justify-center p-4 md:p-6 bg-black/60 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.9, opacity: 0, y: 20 }}
+            transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+            className="bg-card w-full max-w-4xl max-h-[90vh] overflow-y-auto rounded-3xl p-6 md:p-8 shadow-premium-lg border border-border space-y-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <h2 className="text-2xl font-black text-foreground tracking-tight">Comment Insights</h2>
+                <p className="text-sm text-muted-foreground mt-1 truncate">
+                  {videoCount === 1 ? videos[0].title : `${videoCount} video dipilih`}
+                </p>
+              </div>
+              <button onClick={onClose} className="p-2 rounded-xl text-muted-foreground hover:bg-accent transition-colors">
+                <IconX className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Fetch Controls */}
+            <div className="flex flex-wrap items-end gap-4 p-4 bg-secondary/50 rounded-2xl">
+              <div>
+                <span className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest block mb-1.5">
+                  Pages per Video
+                </span>
+                <div className="flex gap-1 p-1 bg-secondary rounded-xl">
+                  {PAGE_CAPS.map(n => (
+                    <button
+                      key={n}
+                      onClick={() => setMaxPages(n)}
+                      disabled={loading}
+                      className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${
+                        maxPages === n ? 'bg-card text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+                      }`}
+                    >
+                      {n}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex-1 min-w-[12rem] text-xs text-muted-foreground">
+                Hingga {(maxPages * 100).toLocaleString()} komentar per video.
+                {chargesQuota && (
+                  <>
+                    {' '}Maks. <strong className="text-foreground">{estimate.toLocaleString()} units</strong>
+                    {estimate > getPoolRemainingQuota() && (
+                      <span className="text-destructive"> (melebihi sisa kuota hari ini)</span>
+                    )}
+                  </>
+                )}
+              </div>
+              {loading ? (
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => controllerRef.current?.abort()}
+                  className="px-4 py-2 rounded-xl text-xs font-bold border bg-destructive/10 border-destructive/20 text-destructive hover:bg-destructive/20 transition-all"
+                >
+                  Cancel ({progress?.videos || 0}/{videoCount})
+                </motion.button>
+              ) : (
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={handleFetch}
+                  className="px-5 py-2 bg-primary text-primary-foreground rounded-xl text-xs font-bold shadow-lg shadow-primary/20 hover:bg-primary/90 transition-all"
+                >
+                  {result ? 'Muat Ulang' : 'Muat Komentar'}
+                </motion.button>
+              )}
+            </div>
+
+            {insights && result && (
+              result.comments.length === 0 ? (
+                <p className="text-center py-10 text-muted-foreground font-medium italic">Tidak ada komentar untuk dianalisis.</p>
+              ) : (
+                <>
+                  {/* Volume Over Time */}
+                  <div className="bg-card border border-border rounded-2xl p-6">
+                    <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest mb-4 flex items-center gap-2">
+                      <IconChart className="w-4 h-4 text-primary" />
+                      Comment Volume ({result.comments.length.toLocaleString()})
+                    </h3>
+                    <div className="h-48">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={insights.volume}>
+                          <XAxis dataKey="day" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }} />
+                          <YAxis allowDecimals={false} tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }} />
+                          <Tooltip
+                            contentStyle={{
+                              backgroundColor: 'hsl(var(--card))',
+                              border: '1px solid hsl(var(--border))',
+                              borderRadius: '12px'
+                            }}
+                          />
+                          <Bar dataKey="count" name="Comments" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </div>
+
+                  {/* Word & Phrase Cloud */}
+                  <div className="bg-card border border-border rounded-2xl p-6">
+                    <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest mb-4">
+                      Words & Phrases
+                    </h3>
+                    <div className="flex flex-wrap gap-2 items-baseline">
+                      {insights.terms.map(({ term, count }) => (
+                        <span
+                          key={term}
+                          title={`${count}×`}
+                          className="px-2 py-1 bg-secondary rounded-lg font-bold text-foreground"
+                          style={{ fontSize: `${0.7 + (count / maxTermCount) * 0.8}rem`, opacity: 0.5 + (count / maxTermCount) * 0.5 }}
+                        >
+                          {term}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    {/* Top Comments */}
+                    <div className="bg-card border border-border rounded-2xl p-6">
+                      <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest mb-4">
+                        Top Comments
+                      </h3>
+                      <div className="space-y-3">
+                        {insights.top.map(c => (
+                          <div key={c.id} className="p-3 bg-secondary/50 rounded-xl">
+                            <div className="flex items-center justify-between gap-2 text-[10px] font-bold text-muted-foreground">
+                              <span className="truncate">{c.author}</span>
+                              <span className="whitespace-nowrap">👍 {formatNumber(c.likeCount)} · 💬 {c.replyCount}</span>
+                            </div>
+                            <p className="text-sm text-foreground mt-1 line-clamp-4 whitespace-pre-line">{c.text}</p>
+                            {videoCount > 1 && (
+                              <p className="text-[10px] text-muted-foreground mt-1 truncate">{titleById.get(c.videoId)}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Viewer Questions */}
+                    <div className="bg-card border border-border rounded-2xl p-6">
+                      <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest mb-1 flex items-center gap-2">
+                        <IconSparkles className="w-4 h-4 text-primary" />
+                        Viewer Questions
+                      </h3>
+                      <p className="text-xs text-muted-foreground mb-4">Pertanyaan penonton sebagai ide konten berikutnya.</p>
+                      {insights.questions.length ? (
+                        <ul className="space-y-2">
+                          {insights.questions.map(q => (
+                            <li key={q.text} className="flex items-start justify-between gap-3 text-sm text-foreground">
+                              <span>{q.text}</span>
+                              <span className="text-[10px] font-bold text-muted-foreground whitespace-nowrap">👍 {formatNumber(q.likeCount)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="text-sm text-muted-foreground italic">Belum ada pertanyaan dari penonton.</p>
+                      )}
+                    </div>
+                  </div>
+                </>
+              )
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CommentInsightsModal;
@@ -1,8 +1,29 @@
 import React, { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ChannelStats, VideoItem } from '../types';
-import { fetchChannelInfo } from '../services/youtubeService';
-import { IconChart, IconLoader, IconTrending } from '../constants/icons';
+import { fetchChannelInfo, fetchChannelSample, resolveChannel } from '../services/youtubeService';
+import { runWithQuotaFeature } from '../services/quotaService';
+import { getApiErrorMessage } from '../services/youtubeApiClient';
+import {
+  BenchmarkChannel,
+  BenchmarkSample,
+  BenchmarkSet,
+  DEFAULT_BENCHMARK_SAMPLE,
+  MIN_BENCHMARK_CHANNELS,
+  MAX_BENCHMARK_CHANNELS,
+  computeChannelMetrics,
+  getBenchmarkMetrics,
+  getCommonAgeWindow,
+  toSampleOptions,
+  rankChannels,
+  getRadarData,
+  getTagOverlapMatrix,
+  getSharedTags,
+  getUniqueTags,
+  getBenchmarkSets,
+  saveBenchmarkSet,
+  deleteBenchmarkSet,
+} from '../services/benchmarkService';
+import { IconBookmark, IconChart, IconLoader, IconTrending, IconX } from '../constants/icons';
 import { 
   RadarChart, 
   PolarGrid, 
@@ -13,6 +34,7 @@ import {
   ResponsiveContainer,
   BarChart,
   Bar,
+  Cell,
   XAxis,
   YAxis,
   Tooltip
@@ -20,295 +42,261 @@ import {
 
 interface BenchmarkProps {
   apiKey: string;
+  initialChannels?: string[];
 }
 
-interface ChannelData {
-  stats: ChannelStats;
-  videos: VideoItem[];
-  uploadFrequency: number;
-  avgEngagementRate: number;
-  topTags: string[];
-}
+// One series color per channel slot
+const CHANNEL_COLORS = ['hsl(var(--primary))', 'hsl(var(--destructive))', '#10b981', '#f59e0b', '#8b5cf6', '#0ea5e9', '#ec4899', '#64748b'];
+
+// Sample presets, encoded as "<mode>:<size>" for a single select
+const SAMPLE_PRESETS = [
+  { value: 'count:10', label: 'Last 10 uploads' },
+  { value: 'count:25', label: 'Last 25 uploads' },
+  { value: 'count:50', label: 'Last 50 uploads' },
+  { value: 'days:30', label: 'Last 30 days' },
+  { value: 'days:90', label: 'Last 90 days' },
+  { value: 'days:180', label: 'Last 180 days' },
+];
+
+const CONTENT_OPTIONS: Array<{ value: BenchmarkSample['content']; label: string }> = [
+  { value: 'all', label: 'All videos' },
+  { value: 'long', label: 'Long-form only' },
+  { value: 'shorts', label: 'Shorts only' },
+];
+
+const toPreset = (sample: BenchmarkSample) => `${sample.mode}:${sample.mode === 'days' ? sample.days : sample.count}`;
+
+const fromPreset = (preset: string, sample: BenchmarkSample): BenchmarkSample => {
+  const [mode, size] = preset.split(':');
+  return mode === 'days'
+    ? { ...sample, mode: 'days', days: Number(size) }
+    : { ...sample, mode: 'count', count: Number(size) };
+};
 
-interface ComparisonResult {
-  ch1: ChannelData;
-  ch2: ChannelData;
-  tagOverlap: string[];
-  uniqueTags1: string[];
-  uniqueTags2: string[];
-}
+const CompetitorBenchmark: React.FC<BenchmarkProps> = ({ apiKey, initialChannels }) => {
+  const [queries, setQueries] = useState<string[]>(() => {
+    const initial = initialChannels?.slice(0, MAX_BENCHMARK_CHANNELS) || [];
+    return [...initial, ...Array(Math.max(0, MIN_BENCHMARK_CHANNELS - initial.length)).fill('')];
+  });
+  const [loading, setLoading] = useState(false);
+  const [channels, setChannels] = useState<BenchmarkChannel[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sample, setSample] = useState<BenchmarkSample>(DEFAULT_BENCHMARK_SAMPLE);
+  // Ages are measured from the moment of the comparison, so re-renders don't shift them
+  const [comparedAt, setComparedAt] = useState(0);
+  const [sortMetric, setSortMetric] = useState('subscribers');
+  const [sets, setSets] = useState<BenchmarkSet[]>(() => getBenchmarkSets());
+  const [setName, setSetName] = useState('');
 
-const fetchChannelVideos = async (apiKey: string, channelId: string): Promise<VideoItem[]> => {
-  // Fetch channel's uploads playlist
-  const channelRes = await fetch(
-    `https://www.googleapis.com/youtube/v3/channels?part=contentDetails&id=${channelId}&key=${apiKey}`
-  );
-  const channelData = await channelRes.json();
-  const uploadsPlaylistId = channelData.items?.[0]?.contentDetails?.relatedPlaylists?.uploads;
-  
-  if (!uploadsPlaylistId) return [];
-
-  // Fetch recent videos from uploads playlist
-  const playlistRes = await fetch(
-    `https://www.googleapis.com/youtube/v3/playlistItems?part=contentDetails&playlistId=${uploadsPlaylistId}&maxResults=10&key=${apiKey}`
-  );
-  const playlistData = await playlistRes.json();
-  const videoIds = playlistData.items?.map((item: any) => item.contentDetails.videoId) || [];
-  
-  if (videoIds.length === 0) return [];
-
-  // Fetch video details
-  const videosRes = await fetch(
-    `https://www.googleapis.com/youtube/v3/videos?part=snippet,statistics,contentDetails&id=${videoIds.join(',')}&key=${apiKey}`
-  );
-  const videosData = await videosRes.json();
-
-  return videosData.items?.map((v: any) => {
-    const views = Number(v.statistics.viewCount || 0);
-    const likes = Number(v.statistics.likeCount || 0);
-    const comments = Number(v.statistics.commentCount || 0);
-    const er = views > 0 ? ((likes + comments) / views) * 100 : 0;
-
-    return {
-      id: v.id,
-      title: v.snippet.title,
-      tags: v.snippet.tags || [],
-      viewCountRaw: views,
-      likeCountRaw: likes,
-      commentCountRaw: comments,
-      engagementRate: parseFloat(er.toFixed(2)),
-      publishedAt: v.snippet.publishedAt,
-    } as VideoItem;
-  }) || [];
-};
+  const filledQueries = queries.map(q => q.trim()).filter(Boolean);
 
-const resolveChannelId = async (apiKey: string, input: string): Promise<string | null> => {
-  const cleaned = input.trim().replace(/.*youtube\.com\//g, '').replace(/^@/, '');
-  
-  // If already looks like a channel ID
-  if (cleaned.startsWith('UC') && cleaned.length === 24) {
-    return cleaned;
-  }
-
-  // Try to resolve handle
-  try {
-    const res = await fetch(
-      `https://www.googleapis.com/youtube/v3/channels?part=id&forHandle=${encodeURIComponent(cleaned)}&key=${apiKey}`
-    );
-    const data = await res.json();
-    if (data.items?.[0]?.id) return data.items[0].id;
-  } catch {}
-
-  // Fallback to search
-  try {
-    const res = await fetch(
-      `https://www.googleapis.com/youtube/v3/search?part=snippet&type=channel&q=${encodeURIComponent(cleaned)}&maxResults=1&key=${apiKey}`
-    );
-    const data = await res.json();
-    if (data.items?.[0]) {
-      return data.items[0].id.channelId || data.items[0].snippet.channelId;
-    }
-  } catch {}
+  const updateQuery = (index: number, value: string) =>
+    setQueries(prev => prev.map((q, i) => (i === index ? value : q)));
 
-  return null;
-};
+  const removeQuery = (index: number) =>
+    setQueries(prev => prev.filter((_, i) => i !== index));
 
-const CompetitorBenchmark: React.FC<BenchmarkProps> = ({ apiKey }) => {
-  const [ch1Query, setCh1Query] = useState('');
-  const [ch2Query, setCh2Query] = useState('');
-  const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<ComparisonResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const handleCompare = (inputs: string[] = filledQueries, withSample: BenchmarkSample = sample) =>
+    runWithQuotaFeature('benchmark', () => compareChannels(inputs, withSample));
 
-  const handleCompare = async () => {
+  const compareChannels = async (inputs: string[], withSample: BenchmarkSample) => {
     if (!apiKey) {
       setError('API Key diperlukan. Silakan masukkan di Settings.');
       return;
     }
-    if (!ch1Query.trim() || !ch2Query.trim()) {
-      setError('Masukkan kedua Channel ID atau Handle');
+    if (inputs.length < MIN_BENCHMARK_CHANNELS) {
+      setError(`Masukkan minimal ${MIN_BENCHMARK_CHANNELS} Channel ID atau Handle`);
       return;
     }
 
     setLoading(true);
     setError(null);
-    setResult(null);
+    setChannels(null);
 
     try {
       // Resolve channel IDs
-      const [id1, id2] = await Promise.all([
-        resolveChannelId(apiKey, ch1Query),
-        resolveChannelId(apiKey, ch2Query)
-      ]);
-
-      if (!id1 || !id2) {
-        throw new Error('Channel tidak ditemukan. Pastikan ID atau handle benar.');
+      const resolved = await Promise.all(inputs.map(input => resolveChannel(apiKey, input)));
+      const missing = inputs.filter((_, i) => !resolved[i]);
+      if (missing.length) {
+        throw new Error(`Channel tidak ditemukan: ${missing.join(', ')}. Pastikan ID atau handle benar.`);
       }
-
-      // Fetch channel stats and videos in parallel
-      const [stats1, stats2, videos1, videos2] = await Promise.all([
-        fetchChannelInfo(apiKey, id1),
-        fetchChannelInfo(apiKey, id2),
-        fetchChannelVideos(apiKey, id1),
-        fetchChannelVideos(apiKey, id2)
-      ]);
-
-      if (!stats1 || !stats2) {
-        throw new Error('Gagal mengambil statistik channel.');
+      const ids = resolved.map(r => r.channelId);
+      if (new Set(ids).size < ids.length) {
+        throw new Error('Channel yang sama dimasukkan lebih dari sekali.');
       }
 
-      // Calculate metrics
-      const calculateMetrics = (videos: VideoItem[]): { freq: number; avgER: number; tags: string[] } => {
-        if (videos.length < 2) return { freq: 0, avgER: 0, tags: [] };
-        
-        const dates = videos.map(v => new Date(v.publishedAt).getTime()).sort((a, b) => b - a);
-        const weeksDiff = (dates[0] - dates[dates.length - 1]) / (1000 * 60 * 60 * 24 * 7);
-        const freq = weeksDiff > 0 ? videos.length / weeksDiff : 0;
-        
-        const avgER = videos.reduce((sum, v) => sum + v.engagementRate, 0) / videos.length;
-        
-        const allTags = videos.flatMap(v => v.tags || []);
-        const tagCounts = new Map<string, number>();
-        allTags.forEach(tag => tagCounts.set(tag.toLowerCase(), (tagCounts.get(tag.toLowerCase()) || 0) + 1));
-        const topTags = Array.from(tagCounts.entries())
-          .sort((a, b) => b[1] - a[1])
-          .slice(0, 20)
-          .map(([tag]) => tag);
-        
-        return { freq, avgER, tags: topTags };
-      };
-
-      const metrics1 = calculateMetrics(videos1);
-      const metrics2 = calculateMetrics(videos2);
-
-      // Calculate tag overlap
-      const set1 = new Set(metrics1.tags);
-      const set2 = new Set(metrics2.tags);
-      const overlap = metrics1.tags.filter(t => set2.has(t));
-      const unique1 = metrics1.tags.filter(t => !set2.has(t));
-      const unique2 = metrics2.tags.filter(t => !set1.has(t));
-
-      setResult({
-        ch1: {
-          stats: stats1,
-          videos: videos1,
-          uploadFrequency: metrics1.freq,
-          avgEngagementRate: metrics1.avgER,
-          topTags: metrics1.tags
-        },
-        ch2: {
-          stats: stats2,
-          videos: videos2,
-          uploadFrequency: metrics2.freq,
-          avgEngagementRate: metrics2.avgER,
-          topTags: metrics2.tags
-        },
-        tagOverlap: overlap,
-        uniqueTags1: unique1,
-        uniqueTags2: unique2
-      });
-    } catch (err: any) {
-      setError(err.message || 'Gagal membandingkan channel');
+      // Fetch channel stats and sampled videos in parallel
+      const now = Date.now();
+      const sampleOptions = toSampleOptions(withSample, now);
+      const loaded = await Promise.all(resolved.map(async ({ channelId, channelTitle }) => {
+        const [stats, videos] = await Promise.all([
+          fetchChannelInfo(apiKey, channelId),
+          fetchChannelSample(apiKey, channelId, sampleOptions),
+        ]);
+        if (!stats) throw new Error('Gagal mengambil statistik channel.');
+        return {
+          channelId,
+          title: stats.title || channelTitle || channelId,
+          stats,
+          videos,
+          ...computeChannelMetrics(videos, now),
+        };
+      }));
+
+      setComparedAt(now);
+      setChannels(loaded);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Gagal membandingkan channel'));
     } finally {
       setLoading(false);
     }
   };
 
-  // Prepare radar chart data
-  const radarData = useMemo(() => {
-    if (!result) return [];
-    
-    const normalize = (v1: number, v2: number) => {
-      const max = Math.max(v1, v2, 1);
-      return { n1: (v1 / max) * 100, n2: (v2 / max) * 100 };
-    };
-
-    const subs = normalize(result.ch1.stats.subCountRaw, result.ch2.stats.subCountRaw);
-    const views = normalize(
-      parseInt(result.ch1.stats.viewCount.replace(/[^0-9]/g, '')),
-      parseInt(result.ch2.stats.viewCount.replace(/[^0-9]/g, ''))
-    );
-    const vids = normalize(
-      parseInt(result.ch1.stats.videoCount.replace(/[^0-9]/g, '')),
-      parseInt(result.ch2.stats.videoCount.replace(/[^0-9]/g, ''))
-    );
-    const freq = normalize(result.ch1.uploadFrequency, result.ch2.uploadFrequency);
-    const er = normalize(result.ch1.avgEngagementRate, result.ch2.avgEngagementRate);
-
-    return [
-      { metric: 'Subscribers', ch1: subs.n1, ch2: subs.n2 },
-      { metric: 'Total Views', ch1: views.n1, ch2: views.n2 },
-      { metric: 'Video Count', ch1: vids.n1, ch2: vids.n2 },
-      { metric: 'Upload Freq', ch1: freq.n1, ch2: freq.n2 },
-      { metric: 'Avg ER%', ch1: er.n1, ch2: er.n2 },
-    ];
-  }, [result]);
-
-  // Bar chart data for engagement comparison
-  const engagementBarData = useMemo(() => {
-    if (!result) return [];
-    return [
-      { name: 'Channel A', value: result.ch1.avgEngagementRate, fill: 'hsl(var(--primary))' },
-      { name: 'Channel B', value: result.ch2.avgEngagementRate, fill: 'hsl(var(--destructive))' },
-    ];
-  }, [result]);
-
-  const MetricRow = ({ label, v1, v2, unit = '', higherIsBetter = true }: { 
-    label: string; v1: number | string; v2: number | string; unit?: string; higherIsBetter?: boolean 
-  }) => {
-    const num1 = typeof v1 === 'number' ? v1 : parseFloat(String(v1).replace(/[^0-9.]/g, ''));
-    const num2 = typeof v2 === 'number' ? v2 : parseFloat(String(v2).replace(/[^0-9.]/g, ''));
-    const isV1Better = higherIsBetter ? num1 > num2 : num1 < num2;
-    const isTie = num1 === num2;
-    
-    return (
-      <div className="grid grid-cols-3 py-4 border-b border-border">
-        <div className={`text-center font-bold text-lg transition-colors duration-300 ${
-          isTie ? 'text-foreground' : isV1Better ? 'text-primary' : 'text-muted-foreground'
-        }`}>
-          {typeof v1 === 'number' ? v1.toLocaleString() : v1}{unit}
-          {!isTie && isV1Better && <span className="ml-1 text-xs">👑</span>}
-        </div>
-        <div className="text-center text-[10px] font-black text-muted-foreground uppercase tracking-widest">
-          {label}
-        </div>
-        <div className={`text-center font-bold text-lg transition-colors duration-300 ${
-          isTie ? 'text-foreground' : !isV1Better ? 'text-primary' : 'text-muted-foreground'
-        }`}>
-          {typeof v2 === 'number' ? v2.toLocaleString() : v2}{unit}
-          {!isTie && !isV1Better && <span className="ml-1 text-xs">👑</span>}
-        </div>
-      </div>
-    );
+  const handleSaveSet = () => {
+    if (!setName.trim() || filledQueries.length < MIN_BENCHMARK_CHANNELS) return;
+    saveBenchmarkSet(setName, filledQueries, sample);
+    setSets(getBenchmarkSets());
+    setSetName('');
+  };
+
+  const handleRunSet = (set: BenchmarkSet) => {
+    const runSample = set.sample || DEFAULT_BENCHMARK_SAMPLE;
+    setQueries(set.channels);
+    setSample(runSample);
+    handleCompare(set.channels, runSample);
+  };
+
+  const handleDeleteSet = (id: string) => {
+    deleteBenchmarkSet(id);
+    setSets(getBenchmarkSets());
   };
 
+  const colorOf = (index: number) => CHANNEL_COLORS[index % CHANNEL_COLORS.length];
+
+  const ageWindow = useMemo(() => (channels ? getCommonAgeWindow(channels, comparedAt) : null), [channels, comparedAt]);
+  const metrics = useMemo(() => getBenchmarkMetrics(ageWindow, comparedAt), [ageWindow, comparedAt]);
+
+  const radarData = useMemo(() => (channels ? getRadarData(channels, metrics) : []), [channels, metrics]);
+
+  // Every metric ranked; rows follow the selected metric, falling back when it isn't available this run
+  const rankings = useMemo(() => {
+    if (!channels) return null;
+    const sortKey = metrics.some(m => m.key === sortMetric) ? sortMetric : metrics[0].key;
+    const ranks = Object.fromEntries(metrics.map(m => [m.key, rankChannels(channels, m)]));
+    const order = channels.map((_, i) => i).sort((a, b) => ranks[sortKey][a] - ranks[sortKey][b]);
+    return { ranks, order, sortKey };
+  }, [channels, metrics, sortMetric]);
+
+  const engagementBarData = useMemo(
+    () => (channels || []).map((c, i) => ({ name: c.title, value: c.medianEngagementRate, fill: colorOf(i) })),
+    [channels]
+  );
+
+  const overlap = useMemo(() => (channels ? getTagOverlapMatrix(channels) : []), [channels]);
+  const sharedTags = useMemo(() => (channels ? getSharedTags(channels) : []), [channels]);
+
   return (
     <div className="space-y-8 animate-in">
       {/* Input Section */}
-      <div className="flex flex-col md:flex-row gap-4">
-        <input 
-          value={ch1Query} 
-          onChange={e => setCh1Query(e.target.value)} 
-          placeholder="Channel 1 (ID, @handle, or URL)" 
-          className="flex-1 bg-card border border-border rounded-2xl px-4 py-3 text-foreground placeholder:text-muted-foreground focus:ring-2 ring-primary/20 outline-none transition-all duration-300" 
-        />
-        <div className="flex items-center justify-center font-black text-muted-foreground">VS</div>
-        <input 
-          value={ch2Query} 
-          onChange={e => setCh2Query(e.target.value)} 
-          placeholder="Channel 2 (ID, @handle, or URL)" 
-          className="flex-1 bg-card border border-border rounded-2xl px-4 py-3 text-foreground placeholder:text-muted-foreground focus:ring-2 ring-primary/20 outline-none transition-all duration-300" 
-        />
-        <motion.button 
-          whileHover={{ scale: 1.02 }}
-          whileTap={{ scale: 0.98 }}
-          onClick={handleCompare} 
-          disabled={loading}
-          className="bg-primary text-primary-foreground px-8 py-3 rounded-2xl font-bold shadow-lg shadow-primary/20 flex items-center gap-2 hover:bg-primary/90 transition-all duration-300 active:scale-95 disabled:opacity-50"
-        >
-          {loading ? <IconLoader className="w-4 h-4" /> : <IconChart className="w-4 h-4" />}
-          {loading ? 'Analyzing...' : 'Compare'}
-        </motion.button>
+      <div className="space-y-3">
+        {queries.map((q, i) => (
+          <div key={i} className="flex items-center gap-3">
+            <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: colorOf(i) }} />
+            <input 
+              value={q} 
+              onChange={e => updateQuery(i, e.target.value)} 
+              placeholder={`Channel ${i + 1} (ID, @handle, or URL)`} 
+              className="flex-1 bg-card border border-border rounded-2xl px-4 py-3 text-foreground placeholder:text-muted-foreground focus:ring-2 ring-primary/20 outline-none transition-all duration-300" 
+            />
+            {queries.length > MIN_BENCHMARK_CHANNELS && (
+              <button
+                onClick={() => removeQuery(i)}
+                className="p-2 rounded-xl text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                title="Remove channel"
+              >
+                <IconX className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => setQueries(prev => [...prev, ''])}
+            disabled={queries.length >= MAX_BENCHMARK_CHANNELS}
+            className="px-4 py-2 rounded-xl text-xs font-bold border border-dashed border-border text-muted-foreground hover:text-foreground hover:border-foreground/30 disabled:opacity-50 transition-all"
+          >
+            + Add Channel ({queries.length}/{MAX_BENCHMARK_CHANNELS})
+          </button>
+          <div className="flex-1" />
+          <select
+            value={toPreset(sample)}
+            onChange={e => setSample(fromPreset(e.target.value, sample))}
+            className="bg-card border border-border rounded-xl px-3 py-2 text-xs font-bold text-foreground outline-none"
+            title="Sample per channel"
+          >
+            {SAMPLE_PRESETS.map(p => (
+              <option key={p.value} value={p.value}>{p.label}</option>
+            ))}
+          </select>
+          <select
+            value={sample.content}
+            onChange={e => setSample({ ...sample, content: e.target.value as BenchmarkSample['content'] })}
+            className="bg-card border border-border rounded-xl px-3 py-2 text-xs font-bold text-foreground outline-none"
+          >
+            {CONTENT_OPTIONS.map(o => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+          <motion.button 
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={() => handleCompare()} 
+            disabled={loading}
+            className="bg-primary text-primary-foreground px-8 py-3 rounded-2xl font-bold shadow-lg shadow-primary/20 flex items-center gap-2 hover:bg-primary/90 transition-all duration-300 active:scale-95 disabled:opacity-50"
+          >
+            {loading ? <IconLoader className="w-4 h-4" /> : <IconChart className="w-4 h-4" />}
+            {loading ? 'Analyzing...' : 'Compare'}
+          </motion.button>
+        </div>
+      </div>
+
+      {/* Saved Benchmark Sets */}
+      <div className="p-4 bg-secondary/50 rounded-2xl space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest mr-2">Saved Sets</span>
+          {sets.map(set => (
+            <div key={set.id} className="flex items-center gap-1 pl-3 pr-1 py-1 bg-card border border-border rounded-xl text-xs font-bold text-foreground">
+              <button onClick={() => handleRunSet(set)} disabled={loading} className="hover:text-primary transition-colors" title={set.channels.join(', ')}>
+                {set.name} <span className="text-muted-foreground">({set.channels.length})</span>
+              </button>
+              <button
+                onClick={() => handleDeleteSet(set.id)}
+                className="p-1 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                title="Delete set"
+              >
+                <IconX className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          {!sets.length && <span className="text-xs text-muted-foreground italic">Belum ada set tersimpan</span>}
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={setName}
+            onChange={e => setSetName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleSaveSet()}
+            placeholder="Nama set, mis. Niche Kuliner"
+            className="flex-1 bg-card border border-border rounded-xl px-3 py-1.5 text-xs text-foreground placeholder:text-muted-foreground outline-none focus:ring-2 ring-primary/20"
+          />
+          <button
+            onClick={handleSaveSet}
+            disabled={!setName.trim() || filledQueries.length < MIN_BENCHMARK_CHANNELS}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-card border border-border rounded-xl text-xs font-bold text-foreground hover:bg-accent disabled:opacity-50 transition-all"
+          >
+            <IconBookmark className="w-3.5 h-3.5" />
+            Save Set
+          </button>
+        </div>
       </div>
 
       {/* Error Message */}
@@ -324,56 +312,72 @@ const CompetitorBenchmark: React.FC<BenchmarkProps> = ({ apiKey }) => {
 
       {/* Results */}
       <AnimatePresence>
-        {result && (
+        {channels && rankings && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: -20 }}
             className="space-y-6"
           >
-            {/* Channel Headers */}
-            <div className="bg-card rounded-3xl p-8 border border-border shadow-premium">
-              <div className="grid grid-cols-3 mb-10">
-                <div className="flex flex-col items-center gap-3">
-                  <img src={result.ch1.stats.avatar} className="w-20 h-20 rounded-full border-4 border-primary/20 object-cover" alt="Channel A" />
-                  <span className="font-black text-foreground text-center">Channel A</span>
-                  {result.ch1.avgEngagementRate > result.ch2.avgEngagementRate && (
-                    <span className="px-2 py-0.5 bg-primary/10 text-primary text-[10px] font-bold rounded-full">
-                      Higher ER 🔥
-                    </span>
-                  )}
-                </div>
-                <div className="flex items-center justify-center">
-                  <div className="px-4 py-1 bg-secondary rounded-full text-[10px] font-black text-muted-foreground">
-                    BENCHMARK
-                  </div>
-                </div>
-                <div className="flex flex-col items-center gap-3">
-                  <img src={result.ch2.stats.avatar} className="w-20 h-20 rounded-full border-4 border-destructive/20 object-cover" alt="Channel B" />
-                  <span className="font-black text-foreground text-center">Channel B</span>
-                  {result.ch2.avgEngagementRate > result.ch1.avgEngagementRate && (
-                    <span className="px-2 py-0.5 bg-destructive/10 text-destructive text-[10px] font-bold rounded-full">
-                      Higher ER 🔥
-                    </span>
-                  )}
-                </div>
-              </div>
-
-              {/* Metrics Comparison */}
-              <MetricRow label="Subscribers" v1={result.ch1.stats.subCountRaw} v2={result.ch2.stats.subCountRaw} />
-              <MetricRow label="Total Views" v1={result.ch1.stats.viewCount} v2={result.ch2.stats.viewCount} />
-              <MetricRow label="Video Count" v1={result.ch1.stats.videoCount} v2={result.ch2.stats.videoCount} />
-              <MetricRow 
-                label="Upload/Week" 
-                v1={result.ch1.uploadFrequency.toFixed(1)} 
-                v2={result.ch2.uploadFrequency.toFixed(1)} 
-              />
-              <MetricRow 
-                label="Avg ER%" 
-                v1={result.ch1.avgEngagementRate.toFixed(2)} 
-                v2={result.ch2.avgEngagementRate.toFixed(2)} 
-                unit="%" 
-              />
+            {/* Ranked Metrics Table */}
+            <div className="bg-card rounded-3xl p-8 border border-border shadow-premium overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left pb-4 text-[10px] font-black text-muted-foreground uppercase tracking-widest">Channel</th>
+                    {metrics.map(m => (
+                      <th key={m.key} className="pb-4 text-right">
+                        <button
+                          onClick={() => setSortMetric(m.key)}
+                          className={`text-[10px] font-black uppercase tracking-widest transition-colors ${
+                            rankings.sortKey === m.key ? 'text-primary' : 'text-muted-foreground hover:text-foreground'
+                          }`}
+                        >
+                          {m.label}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rankings.order.map(i => (
+                    <tr key={channels[i].channelId} className="border-b border-border last:border-0">
+                      <td className="py-4 pr-4">
+                        <div className="flex items-center gap-3 min-w-[10rem]">
+                          <img
+                            src={channels[i].stats.avatar}
+                            className="w-10 h-10 rounded-full border-2 object-cover"
+                            style={{ borderColor: colorOf(i) }}
+                            alt={channels[i].title}
+                          />
+                          <div>
+                            <span className="font-bold text-foreground block">{channels[i].title}</span>
+                            <span className="text-[10px] text-muted-foreground">{channels[i].videos.length} video sampel</span>
+                          </div>
+                        </div>
+                      </td>
+                      {metrics.map(m => {
+                        const rank = rankings.ranks[m.key][i];
+                        return (
+                          <td key={m.key} className="py-4 pl-4 text-right whitespace-nowrap">
+                            <span className={`font-bold ${rank === 1 ? 'text-primary' : 'text-foreground'}`}>
+                              {m.format(m.value(channels[i]))}
+                            </span>
+                            <span className="ml-1.5 text-[10px] font-bold text-muted-foreground">
+                              {rank === 1 ? '👑' : `#${rank}`}
+                            </span>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-4 text-xs text-muted-foreground">
+                {ageWindow
+                  ? `Views, ER dan views/hari memakai median sampel; "Views @" membandingkan video berumur ${Math.round(ageWindow.minDays)}–${Math.round(ageWindow.maxDays)} hari di semua channel.`
+                  : 'Views, ER dan views/hari memakai median sampel. Sampel tidak punya rentang umur video yang sama, jadi perbandingan umur setara tidak tersedia.'}
+              </p>
             </div>
 
             {/* Radar Chart */}
@@ -382,26 +386,22 @@ const CompetitorBenchmark: React.FC<BenchmarkProps> = ({ apiKey }) => {
                 <IconChart className="w-5 h-5 text-primary" />
                 Performance Comparison
               </h3>
-              <div className="h-80">
+              <div className="h-96">
                 <ResponsiveContainer width="100%" height="100%">
                   <RadarChart data={radarData}>
                     <PolarGrid stroke="hsl(var(--border))" />
                     <PolarAngleAxis dataKey="metric" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} />
                     <PolarRadiusAxis tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }} />
-                    <Radar 
-                      name="Channel A" 
-                      dataKey="ch1" 
-                      stroke="hsl(var(--primary))" 
-                      fill="hsl(var(--primary))" 
-                      fillOpacity={0.3} 
-                    />
-                    <Radar 
-                      name="Channel B" 
-                      dataKey="ch2" 
-                      stroke="hsl(var(--destructive))" 
-                      fill="hsl(var(--destructive))" 
-                      fillOpacity={0.3} 
-                    />
+                    {channels.map((c, i) => (
+                      <Radar 
+                        key={c.channelId}
+                        name={c.title} 
+                        dataKey={c.channelId} 
+                        stroke={colorOf(i)} 
+                        fill={colorOf(i)} 
+                        fillOpacity={channels.length > 3 ? 0.1 : 0.3} 
+                      />
+                    ))}
                     <Legend />
                   </RadarChart>
                 </ResponsiveContainer>
@@ -414,73 +414,115 @@ const CompetitorBenchmark: React.FC<BenchmarkProps> = ({ apiKey }) => {
                 <IconTrending className="w-5 h-5 text-primary" />
                 Engagement Rate Comparison
               </h3>
-              <div className="h-48">
+              <div style={{ height: Math.max(192, channels.length * 40) }}>
                 <ResponsiveContainer width="100%" height="100%">
                   <BarChart data={engagementBarData} layout="vertical">
                     <XAxis type="number" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} />
-                    <YAxis type="category" dataKey="name" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} width={100} />
+                    <YAxis type="category" dataKey="name" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} width={140} />
                     <Tooltip 
-                      formatter={(value: number) => [`${value.toFixed(2)}%`, 'Engagement Rate']}
+                      formatter={(value: number) => [`${value.toFixed(2)}%`, 'Median Engagement Rate']}
                       contentStyle={{ 
                         backgroundColor: 'hsl(var(--card))', 
                         border: '1px solid hsl(var(--border))',
                         borderRadius: '12px'
                       }}
                     />
-                    <Bar dataKey="value" radius={[0, 8, 8, 0]} />
+                    <Bar dataKey="value" radius={[0, 8, 8, 0]}>
+                      {engagementBarData.map(entry => <Cell key={entry.name} fill={entry.fill} />)}
+                    </Bar>
                   </BarChart>
                 </ResponsiveContainer>
               </div>
             </div>
 
             {/* Tag Analysis */}
-            <div className="bg-card rounded-3xl p-8 border border-border shadow-premium">
-              <h3 className="text-lg font-black text-foreground mb-6">Tag Overlap Analysis</h3>
-              
-              <div className="grid md:grid-cols-3 gap-6">
-                {/* Overlap Tags */}
+            <div className="bg-card rounded-3xl p-8 border border-border shadow-premium space-y-8">
+              <h3 className="text-lg font-black text-foreground">Tag Overlap Analysis</h3>
+
+              {/* Overlap Matrix: shared top tags per pair, shaded by similarity */}
+              <div className="overflow-x-auto">
+                <table className="text-xs">
+                  <thead>
+                    <tr>
+                      <th />
+                      {channels.map((c, i) => (
+                        <th key={c.channelId} className="px-2 pb-2 font-bold max-w-[6rem] truncate" style={{ color: colorOf(i) }} title={c.title}>
+                          {c.title}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {channels.map((row, r) => (
+                      <tr key={row.channelId}>
+                        <th className="pr-3 py-1 text-right font-bold max-w-[8rem] truncate" style={{ color: colorOf(r) }} title={row.title}>
+                          {row.title}
+                        </th>
+                        {overlap[r].map((cell, c) => (
+                          <td key={channels[c].channelId} className="p-1">
+                            <div
+                              className={`w-14 h-10 rounded-lg flex items-center justify-center font-bold ${
+                                r === c ? 'bg-secondary text-muted-foreground' : 'text-foreground'
+                              }`}
+                              style={r === c ? undefined : { backgroundColor: `hsl(var(--primary) / ${0.08 + cell.similarity * 0.8})` }}
+                              title={r === c ? `${cell.shared} tags` : `${cell.shared} shared tags (${Math.round(cell.similarity * 100)}% similar)`}
+                            >
+                              {cell.shared}
+                            </div>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-6">
+                {/* Shared Tags */}
                 <div>
                   <h4 className="text-sm font-bold text-primary mb-3">
-                    Shared Tags ({result.tagOverlap.length})
+                    Shared Tags ({sharedTags.length})
                   </h4>
                   <div className="flex flex-wrap gap-2">
-                    {result.tagOverlap.slice(0, 10).map(tag => (
-                      <span key={tag} className="px-2 py-1 bg-primary/10 text-primary text-xs font-medium rounded-lg">
+                    {sharedTags.slice(0, 20).map(({ tag, channelIds }) => (
+                      <span key={tag} className="flex items-center gap-1.5 px-2 py-1 bg-primary/10 text-primary text-xs font-medium rounded-lg">
                         {tag}
+                        <span className="flex gap-0.5">
+                          {channelIds.map(id => (
+                            <span
+                              key={id}
+                              className="w-1.5 h-1.5 rounded-full"
+                              style={{ backgroundColor: colorOf(channels.findIndex(c => c.channelId === id)) }}
+                            />
+                          ))}
+                        </span>
                       </span>
                     ))}
-                    {result.tagOverlap.length === 0 && (
+                    {sharedTags.length === 0 && (
                       <span className="text-muted-foreground text-sm italic">No overlap</span>
                     )}
                   </div>
                 </div>
 
-                {/* Channel A Unique */}
-                <div>
-                  <h4 className="text-sm font-bold text-foreground mb-3">
-                    Channel A Only ({result.uniqueTags1.length})
-                  </h4>
-                  <div className="flex flex-wrap gap-2">
-                    {result.uniqueTags1.slice(0, 8).map(tag => (
-                      <span key={tag} className="px-2 py-1 bg-secondary text-foreground text-xs font-medium rounded-lg">
-                        {tag}
-                      </span>
-                    ))}
-                  </div>
-                </div>
-
-                {/* Channel B Unique */}
-                <div>
-                  <h4 className="text-sm font-bold text-destructive mb-3">
-                    Channel B Only ({result.uniqueTags2.length})
-                  </h4>
-                  <div className="flex flex-wrap gap-2">
-                    {result.uniqueTags2.slice(0, 8).map(tag => (
-                      <span key={tag} className="px-2 py-1 bg-destructive/10 text-destructive text-xs font-medium rounded-lg">
-                        {tag}
-                      </span>
-                    ))}
-                  </div>
+                {/* Unique Tags per Channel */}
+                <div className="space-y-4">
+                  {channels.map((c, i) => {
+                    const unique = getUniqueTags(channels, c);
+                    return (
+                      <div key={c.channelId}>
+                        <h4 className="text-sm font-bold mb-2" style={{ color: colorOf(i) }}>
+                          {c.title} Only ({unique.length})
+                        </h4>
+                        <div className="flex flex-wrap gap-2">
+                          {unique.slice(0, 8).map(tag => (
+                            <span key={tag} className="px-2 py-1 bg-secondary text-foreground text-xs font-medium rounded-lg">
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
             </div>
@@ -489,7 +531,7 @@ const CompetitorBenchmark: React.FC<BenchmarkProps> = ({ apiKey }) => {
       </AnimatePresence>
 
       {/* Empty State */}
-      {!result && !loading && !error && (
+      {!channels && !loading && !error && (
         <div className="text-center py-20 text-muted-foreground font-medium italic">
           Masukkan Channel ID atau @handle untuk membandingkan performa
         </div>
@@ -498,4 +540,4 @@ const CompetitorBenchmark: React.FC<BenchmarkProps> = ({ apiKey }) => {
   );
 };
 
-export default CompetitorBenchmark;
\ No newline at end of file
+export default CompetitorBenchmark;
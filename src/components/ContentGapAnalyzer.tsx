@@ -3,6 +3,8 @@ import { motion } from 'framer-motion';
 import { VideoItem } from '../types';
 import { analyzeContentGap, ContentGapResult, categorizeTopics } from '../services/contentGapService';
 import { fetchTrendingVideos } from '../services/youtubeService';
+import { getApiErrorMessage } from '../services/youtubeApiClient';
+import { runWithQuotaFeature } from '../services/quotaService';
 import { IconSparkles, IconTrending, IconChart, IconLoader } from '../constants/icons';
 
 interface ContentGapAnalyzerProps {
@@ -18,6 +20,7 @@ const ContentGapAnalyzer: React.FC<ContentGapAnalyzerProps> = ({
 }) => {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<ContentGapResult | null>(null);
+  const [topicGroups, setTopicGroups] = useState<Array<[string, string[]]>>([]);
   const [selectedRegion, setSelectedRegion] = useState('ID');
 
   const regions = [
@@ -42,12 +45,13 @@ const ContentGapAnalyzer: React.FC<ContentGapAnalyzerProps> = ({
     onToast('Analyzing content gaps...', 'loading');
 
     try {
-      const trendingData = await fetchTrendingVideos(apiKey, 50, selectedRegion);
+      const trendingData = await runWithQuotaFeature('content_gap', () => fetchTrendingVideos(apiKey, 50, selectedRegion));
       const analysis = analyzeContentGap(channelVideos, trendingData.videos);
       setResult(analysis);
+      setTopicGroups(Array.from(categorizeTopics(analysis.missingTopics.slice(0, 20).map(t => t.topic), trendingData.videos).entries()));
       onToast('Analysis complete!', 'success');
-    } catch (err: any) {
-      onToast(err.message || 'Failed to analyze', 'error');
+    } catch (err) {
+      onToast(getApiErrorMessage(err, 'Failed to analyze'), 'error');
     } finally {
       setLoading(false);
     }
@@ -222,20 +226,27 @@ const ContentGapAnalyzer: React.FC<ContentGapAnalyzerProps> = ({
             <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest mb-4">
               Trending Topics You're Missing
             </h3>
-            <div className="flex flex-wrap gap-2">
-              {result.missingTopics.slice(0, 20).map((topic, i) => (
-                <motion.span
-                  key={topic.topic}
-                  initial={{ opacity: 0, scale: 0.8 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  transition={{ delay: 0.5 + i * 0.03 }}
-                  className="px-3 py-1.5 bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400 rounded-full text-sm font-medium capitalize"
-                  style={{
-                    fontSize: `${Math.max(12, Math.min(16, 10 + topic.trendScore / 10))}px`
-                  }}
-                >
-                  {topic.topic}
-                </motion.span>
+            <div className="space-y-4">
+              {topicGroups.map(([category, topics]) => (
+                <div key={category}>
+                  <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest mb-2">{category}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {topics.map((topic, i) => (
+                      <motion.span
+                        key={topic}
+                        initial={{ opacity: 0, scale: 0.8 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        transition={{ delay: 0.5 + i * 0.03 }}
+                        className="px-3 py-1.5 bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400 rounded-full text-sm font-medium capitalize"
+                        style={{
+                          fontSize: `${Math.max(12, Math.min(16, 10 + (result.missingTopics.find(t => t.topic === topic)?.trendScore || 0) / 10))}px`
+                        }}
+                      >
+                        {topic}
+                      </motion.span>
+                    ))}
+                  </div>
+                </div>
               ))}
             </div>
           </motion.div>
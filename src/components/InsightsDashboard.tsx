@@ -1,5 +1,6 @@
 import React, { useMemo } from 'react';
-import { VideoItem, ChannelStats } from '../types';
+import { VideoItem, ChannelStats, VideoContentType } from '../types';
+import { formatDuration, formatNumber, getContentType, isLiveNow, isOnDemandVideo } from '../services/youtubeService';
 
 interface InsightsProps {
   videos: VideoItem[];
@@ -20,12 +21,68 @@ const InsightsDashboard: React.FC<InsightsProps> = ({ videos, stats }) => {
   }, [videos]);
 
   const statsData = useMemo(() => {
-    const totalER = videos.reduce((acc, v) => acc + v.engagementRate, 0);
-    const shortsCount = videos.filter(v => v.isShort).length;
-    const avgER = totalER / (videos.length || 1);
+    // Streams and unreleased videos would skew the averages of regular uploads
+    const onDemand = videos.filter(isOnDemandVideo);
+    const totalER = onDemand.reduce((acc, v) => acc + v.engagementRate, 0);
+    const countOf = (type: VideoContentType) => videos.filter(v => getContentType(v) === type).length;
+    const avgER = totalER / (onDemand.length || 1);
     const outliers = videos.filter(v => v.isOutlier).length;
 
-    return { avgER, shortsCount, longCount: videos.length - shortsCount, outliers };
+    return {
+      avgER,
+      shortsCount: countOf('short'),
+      longCount: countOf('upload'),
+      liveCount: countOf('live'),
+      premiereCount: countOf('premiere'),
+      upcomingCount: countOf('upcoming'),
+      outliers,
+    };
+  }, [videos]);
+
+  // Share and average performance per YouTube category, largest first
+  const categoryData = useMemo(() => {
+    const groups = new Map<string, VideoItem[]>();
+    videos.filter(isOnDemandVideo).forEach(v => {
+      if (!v.categoryName) return;
+      groups.set(v.categoryName, [...(groups.get(v.categoryName) || []), v]);
+    });
+    const total = Array.from(groups.values()).reduce((acc, list) => acc + list.length, 0);
+
+    return Array.from(groups.entries())
+      .map(([name, list]) => ({
+        name,
+        count: list.length,
+        share: (list.length / (total || 1)) * 100,
+        avgViews: list.reduce((acc, v) => acc + v.viewCountRaw, 0) / list.length,
+        avgER: list.reduce((acc, v) => acc + v.engagementRate, 0) / list.length,
+      }))
+      .sort((a, b) => b.count - a.count);
+  }, [videos]);
+
+  const liveData = useMemo(() => {
+    const streams = videos.filter(v => getContentType(v) === 'live');
+    const upcoming = videos.filter(v => getContentType(v) === 'upcoming');
+    if (!streams.length && !upcoming.length) return null;
+
+    const ended = streams.filter(v => v.liveDetails?.actualStartTime && v.liveDetails.actualEndTime);
+    const streamSeconds = ended.map(v => (Date.parse(v.liveDetails.actualEndTime) - Date.parse(v.liveDetails.actualStartTime)) / 1000);
+    const onDemand = videos.filter(isOnDemandVideo);
+    const avgViews = (list: VideoItem[]) => list.reduce((acc, v) => acc + v.viewCountRaw, 0) / (list.length || 1);
+    const nextScheduled = upcoming
+      .map(v => v.liveDetails?.scheduledStartTime)
+      .filter(Boolean)
+      .sort()[0];
+
+    return {
+      streamCount: streams.length,
+      avgStreamSec: streamSeconds.length ? streamSeconds.reduce((a, b) => a + b, 0) / streamSeconds.length : 0,
+      avgStreamViews: avgViews(ended),
+      avgUploadViews: avgViews(onDemand),
+      onAirViewers: streams.filter(isLiveNow).reduce((acc, v) => acc + (v.liveDetails?.concurrentViewers || 0), 0),
+      onAirCount: streams.filter(isLiveNow).length,
+      upcomingCount: upcoming.length,
+      nextScheduled,
+    };
   }, [videos]);
 
   return (
@@ -53,6 +110,11 @@ const InsightsDashboard: React.FC<InsightsProps> = ({ videos, stats }) => {
             <span className="text-muted-foreground">/</span>
             <span className="text-lg font-bold text-foreground">{statsData.shortsCount} Shorts</span>
           </div>
+          {(statsData.liveCount + statsData.premiereCount + statsData.upcomingCount) > 0 && (
+            <p className="text-xs font-bold text-muted-foreground mt-1">
+              {statsData.liveCount} Live · {statsData.premiereCount} Premiere · {statsData.upcomingCount} Upcoming
+            </p>
+          )}
         </div>
         <div className="bg-card p-6 rounded-3xl border border-border shadow-premium hover-lift">
           <span className="text-[10px] font-black text-muted-foreground uppercase tracking-widest block mb-1">
@@ -62,6 +124,68 @@ const InsightsDashboard: React.FC<InsightsProps> = ({ videos, stats }) => {
         </div>
       </div>
 
+      {/* Live & Scheduled */}
+      {liveData && (
+        <div className="bg-card p-8 rounded-3xl border border-border">
+          <h3 className="text-lg font-black text-foreground mb-6 uppercase tracking-tight">
+            Live Streams
+          </h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+            <div>
+              <span className="text-[10px] font-black text-muted-foreground uppercase tracking-widest block mb-1">Streams</span>
+              <span className="text-2xl font-black text-foreground">{liveData.streamCount}</span>
+              {liveData.onAirCount > 0 && (
+                <span className="block text-xs font-bold text-red-500 mt-1">
+                  ● {liveData.onAirCount} on air · {formatNumber(liveData.onAirViewers)} watching
+                </span>
+              )}
+            </div>
+            <div>
+              <span className="text-[10px] font-black text-muted-foreground uppercase tracking-widest block mb-1">Avg. Stream Length</span>
+              <span className="text-2xl font-black text-foreground">
+                {liveData.avgStreamSec ? formatDuration(Math.round(liveData.avgStreamSec)) : '-'}
+              </span>
+            </div>
+            <div>
+              <span className="text-[10px] font-black text-muted-foreground uppercase tracking-widest block mb-1">Avg. Views / Stream</span>
+              <span className="text-2xl font-black text-foreground">{formatNumber(Math.round(liveData.avgStreamViews))}</span>
+              <span className="block text-xs text-muted-foreground mt-1">vs {formatNumber(Math.round(liveData.avgUploadViews))} per upload</span>
+            </div>
+            <div>
+              <span className="text-[10px] font-black text-muted-foreground uppercase tracking-widest block mb-1">Upcoming</span>
+              <span className="text-2xl font-black text-foreground">{liveData.upcomingCount}</span>
+              {liveData.nextScheduled && (
+                <span className="block text-xs text-muted-foreground mt-1">
+                  Next: {new Date(liveData.nextScheduled).toLocaleString()}
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Category Breakdown */}
+      {categoryData.length > 0 && (
+        <div className="bg-card p-8 rounded-3xl border border-border">
+          <h3 className="text-lg font-black text-foreground mb-6 uppercase tracking-tight">
+            Category Breakdown
+          </h3>
+          <div className="space-y-3">
+            {categoryData.map(c => (
+              <div key={c.name} className="grid grid-cols-[minmax(0,10rem)_1fr_auto] items-center gap-4">
+                <span className="text-sm font-bold text-foreground truncate" title={c.name}>{c.name}</span>
+                <div className="h-3 bg-secondary rounded-full overflow-hidden">
+                  <div className="h-full bg-primary rounded-full transition-all duration-500" style={{ width: `${c.share}%` }} />
+                </div>
+                <span className="text-[11px] font-bold text-muted-foreground whitespace-nowrap">
+                  {c.count} video · {c.share.toFixed(0)}% · {formatNumber(Math.round(c.avgViews))} avg views · {c.avgER.toFixed(2)}% ER
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Keyword Intelligence */}
         <div className="bg-card p-8 rounded-3xl border border-border">
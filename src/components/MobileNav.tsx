@@ -1,6 +1,6 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { IconHome, IconTrending, IconChart, IconSubs, IconSparkles, IconUser, IconHistory, IconMenu, IconX } from '../constants/icons';
+import { IconHome, IconTrending, IconChart, IconSubs, IconSparkles, IconUser, IconHistory, IconMenu, IconX, IconBell } from '../constants/icons';
 import { AnalysisMode } from '../types';
 
 interface MobileNavProps {
@@ -124,6 +124,13 @@ const MobileNav: React.FC<MobileNavProps> = ({
                 onClick={() => handleNavClick('insights')}
                 delay={0.15}
               />
+              <NavItem
+                icon={<IconBell />}
+                label="Watchlist"
+                active={currentMode === 'watchlist'}
+                onClick={() => handleNavClick('watchlist')}
+                delay={0.175}
+              />
               <NavItem
                 icon={<IconSubs />}
                 label="Benchmark"
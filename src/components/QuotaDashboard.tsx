@@ -0,0 +1,206 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { IconChart, IconHistory } from '../constants/icons';
+import {
+  getQuotaSeries,
+  getNextQuotaReset,
+  sumQuotaDay,
+  QUOTA_LIMIT,
+  QUOTA_TIMEZONE,
+  QUOTA_FEATURES,
+  QuotaFeature,
+} from '../services/quotaService';
+
+const FEATURE_LABELS: Record<QuotaFeature, string> = {
+  analyze: 'Analyze',
+  trending: 'Trending',
+  benchmark: 'Benchmark',
+  content_gap: 'Content Gap',
+  comments: 'Comments',
+  watchlist: 'Watchlist',
+  outliers: 'Outlier Baselines',
+  other: 'Other',
+};
+
+const FEATURE_COLORS: Record<QuotaFeature, string> = {
+  analyze: 'hsl(var(--primary))',
+  trending: '#f59e0b',
+  benchmark: '#8b5cf6',
+  content_gap: '#10b981',
+  comments: '#ec4899',
+  watchlist: '#0ea5e9',
+  outliers: '#ef4444',
+  other: 'hsl(var(--muted-foreground))',
+};
+
+const formatCountdown = (ms: number) => {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60000));
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return `${h}j ${m}m`;
+};
+
+const QuotaDashboard: React.FC = () => {
+  const [series, setSeries] = useState(() => getQuotaSeries(30));
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const refresh = () => setSeries(getQuotaSeries(30));
+    window.addEventListener('quotaUpdated', refresh);
+    const timer = setInterval(() => {
+      setNow(new Date());
+      refresh();
+    }, 60000);
+    return () => {
+      window.removeEventListener('quotaUpdated', refresh);
+      clearInterval(timer);
+    };
+  }, []);
+
+  const nextReset = useMemo(() => getNextQuotaReset(now), [now]);
+
+  const { today, todayTotal, avgDaily, peakDay } = useMemo(() => {
+    const today = series[series.length - 1];
+    const totals = series.map(d => sumQuotaDay(d));
+    const activeDays = totals.filter(t => t > 0);
+    const peakIndex = totals.indexOf(Math.max(...totals));
+    return {
+      today,
+      todayTotal: totals[totals.length - 1] || 0,
+      avgDaily: activeDays.length ? Math.round(activeDays.reduce((a, b) => a + b, 0) / activeDays.length) : 0,
+      peakDay: totals[peakIndex] > 0 ? { day: series[peakIndex].day, units: totals[peakIndex] } : null,
+    };
+  }, [series]);
+
+  const chartData = useMemo(() => series.map(d => ({ ...d, label: d.day.slice(5) })), [series]);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-black text-foreground tracking-tight flex items-center gap-3">
+          <IconChart className="w-6 h-6 text-primary" />
+          Quota Usage
+        </h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Riwayat pemakaian kuota YouTube API per hari (zona waktu Pasifik)
+        </p>
+      </div>
+
+      {/* Stats Row */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-card border border-border rounded-2xl p-4"
+        >
+          <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest">Today</p>
+          <p className="text-2xl font-black text-foreground mt-1">
+            {todayTotal.toLocaleString()} <span className="text-sm text-muted-foreground">/ {QUOTA_LIMIT.toLocaleString()}</span>
+          </p>
+          <div className="w-full h-1.5 bg-secondary rounded-full mt-2 overflow-hidden">
+            <div className="h-full bg-primary" style={{ width: `${Math.min((todayTotal / QUOTA_LIMIT) * 100, 100)}%` }} />
+          </div>
+        </motion.div>
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="bg-card border border-border rounded-2xl p-4"
+        >
+          <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest">Reset In</p>
+          <p className="text-2xl font-black text-foreground mt-1">{formatCountdown(nextReset.getTime() - now.getTime())}</p>
+          <p className="text-[10px] text-muted-foreground mt-1">
+            {nextReset.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })} lokal
+            {' · '}
+            {nextReset.toLocaleString('en-US', { timeZone: QUOTA_TIMEZONE, hour: '2-digit', minute: '2-digit' })} PT
+          </p>
+        </motion.div>
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="bg-card border border-border rounded-2xl p-4"
+        >
+          <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest">Avg / Active Day</p>
+          <p className="text-2xl font-black text-foreground mt-1">{avgDaily.toLocaleString()}</p>
+        </motion.div>
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.3 }}
+          className="bg-card border border-border rounded-2xl p-4"
+        >
+          <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest">Peak Day</p>
+          <p className="text-2xl font-black text-foreground mt-1">{peakDay ? peakDay.units.toLocaleString() : '-'}</p>
+          {peakDay && <p className="text-[10px] text-muted-foreground mt-1">{peakDay.day}</p>}
+        </motion.div>
+      </div>
+
+      {/* 30-day Chart */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.4 }}
+        className="bg-card border border-border rounded-2xl p-6"
+      >
+        <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest mb-4">
+          Last 30 Days
+        </h3>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <XAxis dataKey="label" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }} />
+              <YAxis tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '12px'
+                }}
+              />
+              <Legend />
+              <ReferenceLine y={QUOTA_LIMIT} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+              {QUOTA_FEATURES.map(f => (
+                <Bar key={f} dataKey={f} name={FEATURE_LABELS[f]} stackId="quota" fill={FEATURE_COLORS[f]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </motion.div>
+
+      {/* Today's Breakdown */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.5 }}
+        className="bg-card border border-border rounded-2xl p-6"
+      >
+        <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest mb-4 flex items-center gap-2">
+          <IconHistory className="w-4 h-4 text-primary" />
+          Today by Feature
+        </h3>
+        <div className="space-y-3">
+          {QUOTA_FEATURES.map(f => {
+            const units = today?.[f] || 0;
+            return (
+              <div key={f} className="flex items-center gap-4">
+                <span className="w-28 text-sm font-bold text-foreground">{FEATURE_LABELS[f]}</span>
+                <div className="flex-1 h-2 bg-secondary rounded-full overflow-hidden">
+                  <div
+                    className="h-full rounded-full"
+                    style={{ width: `${todayTotal ? (units / todayTotal) * 100 : 0}%`, backgroundColor: FEATURE_COLORS[f] }}
+                  />
+                </div>
+                <span className="w-20 text-right text-sm font-bold text-muted-foreground">{units.toLocaleString()}</span>
+              </div>
+            );
+          })}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default QuotaDashboard;
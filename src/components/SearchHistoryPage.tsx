@@ -1,16 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { IconHistory, IconSearch, IconX } from '../constants/icons';
+import { FetchLimit, SearchOptions } from '../types';
+import { describeSearchOptions, toSearchParams } from '../services/youtubeService';
 
 export interface SearchHistoryItem {
   query: string;
   timestamp: number;
   type: 'channel' | 'keyword' | 'playlist';
   resultCount?: number;
+  options?: SearchOptions; // Search filters in effect, so a replay reproduces the same search
+  fetchLimit?: FetchLimit; // Videos requested, so a replay loads as many
 }
 
 interface SearchHistoryPageProps {
-  onSearch: (query: string) => void;
+  onSearch: (query: string, options?: SearchOptions, fetchLimit?: FetchLimit) => void;
   onToast: (msg: string, type: 'success' | 'error') => void;
 }
 
@@ -46,8 +50,8 @@ const SearchHistoryPage: React.FC<SearchHistoryPageProps> = ({ onSearch, onToast
     onToast('History cleared', 'success');
   };
 
-  const handleReplay = (query: string) => {
-    onSearch(query);
+  const handleReplay = (item: SearchHistoryItem) => {
+    onSearch(item.query, item.options || {}, item.fetchLimit);
   };
 
   const filteredHistory = history.filter(h => 
@@ -172,13 +176,22 @@ const SearchHistoryPage: React.FC<SearchHistoryPageProps> = ({ onSearch, onToast
                       </>
                     )}
                   </div>
+                  {describeSearchOptions(item.options).length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {describeSearchOptions(item.options).map(label => (
+                        <span key={label} className="px-2 py-0.5 bg-secondary rounded-lg text-[10px] font-bold text-muted-foreground">
+                          {label}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
                   <motion.button
                     whileHover={{ scale: 1.05 }}
                     whileTap={{ scale: 0.95 }}
-                    onClick={() => handleReplay(item.query)}
+                    onClick={() => handleReplay(item)}
                     className="p-2 bg-primary text-primary-foreground rounded-xl hover:bg-primary/90 transition-colors"
                     title="Search again"
                   >
@@ -209,7 +222,9 @@ export default SearchHistoryPage;
 export const addToSearchHistory = (
   query: string, 
   type: 'channel' | 'keyword' | 'playlist',
-  resultCount?: number
+  resultCount?: number,
+  options?: SearchOptions,
+  fetchLimit?: FetchLimit
 ): void => {
   const saved = localStorage.getItem('yt_search_history_v2');
   let history: SearchHistoryItem[] = [];
@@ -222,15 +237,18 @@ export const addToSearchHistory = (
     }
   }
 
-  // Remove duplicate if exists
-  history = history.filter(h => h.query !== query);
+  // Remove duplicate if exists; the same query with other filters is a different search
+  const optionsKey = JSON.stringify(toSearchParams(options));
+  history = history.filter(h => h.query !== query || JSON.stringify(toSearchParams(h.options)) !== optionsKey);
 
   // Add new item at the beginning
   history.unshift({
     query,
     timestamp: Date.now(),
     type,
-    resultCount
+    resultCount,
+    options: Object.keys(toSearchParams(options)).length ? options : undefined,
+    fetchLimit
   });
 
   // Keep only last 50 items
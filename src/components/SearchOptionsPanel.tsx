@@ -0,0 +1,197 @@
+import React from 'react';
+import { SearchOptions, TrendingRegion } from '../types';
+import { IconFilter } from '../constants/icons';
+import { describeSearchOptions } from '../services/youtubeService';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+interface SearchOptionsPanelProps {
+  options: SearchOptions;
+  onChange: (options: SearchOptions) => void;
+  regions: TrendingRegion[];
+}
+
+const LANGUAGES = [
+  { code: 'id', name: 'Bahasa Indonesia' },
+  { code: 'en', name: 'English' },
+  { code: 'ms', name: 'Bahasa Melayu' },
+  { code: 'jv', name: 'Basa Jawa' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'pt', name: 'Portuguese' },
+];
+
+// Categories assignable to videos in most regions
+const CATEGORIES = [
+  { id: '1', name: 'Film & Animation' },
+  { id: '2', name: 'Autos & Vehicles' },
+  { id: '10', name: 'Music' },
+  { id: '15', name: 'Pets & Animals' },
+  { id: '17', name: 'Sports' },
+  { id: '19', name: 'Travel & Events' },
+  { id: '20', name: 'Gaming' },
+  { id: '22', name: 'People & Blogs' },
+  { id: '23', name: 'Comedy' },
+  { id: '24', name: 'Entertainment' },
+  { id: '25', name: 'News & Politics' },
+  { id: '26', name: 'Howto & Style' },
+  { id: '27', name: 'Education' },
+  { id: '28', name: 'Science & Technology' },
+];
+
+const DURATIONS: Array<{ value: SearchOptions['videoDuration']; label: string }> = [
+  { value: 'any', label: 'Any' },
+  { value: 'short', label: '< 4m' },
+  { value: 'medium', label: '4-20m' },
+  { value: 'long', label: '> 20m' },
+];
+
+const ORDERS: Array<{ value: SearchOptions['order']; label: string }> = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'date', label: 'Date' },
+  { value: 'viewCount', label: 'Views' },
+  { value: 'rating', label: 'Rating' },
+];
+
+const fieldClass = 'w-full bg-secondary border border-border rounded-xl px-3 py-2 text-xs font-medium text-foreground focus:ring-2 ring-primary/20 outline-none';
+const labelClass = 'text-[10px] font-bold text-muted-foreground uppercase tracking-widest block mb-1.5';
+
+const SearchOptionsPanel: React.FC<SearchOptionsPanelProps> = ({ options, onChange, regions }) => {
+  const activeCount = describeSearchOptions(options).length;
+
+  const update = (patch: Partial<SearchOptions>) => onChange({ ...options, ...patch });
+
+  const segmentClass = (active: boolean) =>
+    `flex-1 px-2 py-1 rounded-lg text-[11px] font-bold whitespace-nowrap transition-all ${
+      active ? 'bg-card text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+    }`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={`relative h-10 px-3 flex items-center gap-2 rounded-2xl border text-xs font-bold transition-all ${
+            activeCount
+              ? 'bg-primary/10 border-primary/30 text-primary'
+              : 'bg-secondary border-border text-muted-foreground hover:text-foreground'
+          }`}
+          title="Search options (keyword mode)"
+        >
+          <IconFilter className="w-4 h-4" />
+          <span className="hidden lg:inline">Options</span>
+          {activeCount > 0 && (
+            <span className="min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] leading-4">{activeCount}</span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 z-[200] rounded-2xl bg-card border-border space-y-4">
+        <div>
+          <p className="text-sm font-bold text-foreground">Search Options</p>
+          <p className="text-[11px] text-muted-foreground">Hanya berlaku untuk pencarian kata kunci.</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Published After</label>
+            <input
+              type="date"
+              value={options.publishedAfter || ''}
+              max={options.publishedBefore || undefined}
+              onChange={(e) => update({ publishedAfter: e.target.value || undefined })}
+              className={fieldClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Published Before</label>
+            <input
+              type="date"
+              value={options.publishedBefore || ''}
+              min={options.publishedAfter || undefined}
+              onChange={(e) => update({ publishedBefore: e.target.value || undefined })}
+              className={fieldClass}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Language</label>
+            <select
+              value={options.relevanceLanguage || ''}
+              onChange={(e) => update({ relevanceLanguage: e.target.value || undefined })}
+              className={fieldClass}
+            >
+              <option value="">Any</option>
+              {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Region</label>
+            <select
+              value={options.regionCode || ''}
+              onChange={(e) => update({ regionCode: e.target.value || undefined })}
+              className={fieldClass}
+            >
+              <option value="">Any</option>
+              {regions.map(r => <option key={r.code} value={r.code}>{r.name}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Category</label>
+          <select
+            value={options.videoCategoryId || ''}
+            onChange={(e) => update({ videoCategoryId: e.target.value || undefined })}
+            className={fieldClass}
+          >
+            <option value="">Any</option>
+            {CATEGORIES.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <label className={labelClass}>Duration</label>
+          <div className="flex gap-1 p-1 bg-secondary rounded-xl">
+            {DURATIONS.map(d => (
+              <button
+                key={d.value}
+                onClick={() => update({ videoDuration: d.value })}
+                className={segmentClass((options.videoDuration || 'any') === d.value)}
+              >
+                {d.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Order</label>
+          <div className="flex gap-1 p-1 bg-secondary rounded-xl">
+            {ORDERS.map(o => (
+              <button
+                key={o.value}
+                onClick={() => update({ order: o.value })}
+                className={segmentClass((options.order || 'relevance') === o.value)}
+              >
+                {o.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {activeCount > 0 && (
+          <button
+            onClick={() => onChange({})}
+            className="w-full py-2 rounded-xl text-xs font-bold text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+          >
+            Reset Options
+          </button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SearchOptionsPanel;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { IconHome, IconSubs, IconUser, IconHistory, IconTrending, IconChart, IconSparkles, IconDownload } from '../constants/icons';
+import { IconHome, IconSubs, IconUser, IconHistory, IconTrending, IconChart, IconSparkles, IconDownload, IconBell } from '../constants/icons';
 import { AnalysisMode } from '../types';
 
 interface RowProps {
@@ -65,6 +65,12 @@ const Sidebar: React.FC<SidebarProps> = ({ currentMode, onModeChange, onFetchTre
           active={currentMode === 'insights'} 
           onClick={() => onModeChange('insights')} 
         />
+        <Row 
+          icon={<IconBell />} 
+          label="Watchlist" 
+          active={currentMode === 'watchlist'} 
+          onClick={() => onModeChange('watchlist')} 
+        />
         <Row 
           icon={<IconSubs />} 
           label="Benchmark" 
@@ -103,6 +109,12 @@ const Sidebar: React.FC<SidebarProps> = ({ currentMode, onModeChange, onFetchTre
           active={currentMode === 'downloader'} 
           onClick={() => onModeChange('downloader')} 
         />
+        <Row 
+          icon={<IconChart />} 
+          label="Quota Usage" 
+          active={currentMode === 'quota'} 
+          onClick={() => onModeChange('quota')} 
+        />
       </div>
 
       <div className="my-6 border-t border-border/50" />
@@ -10,6 +10,8 @@ import {
   PerformanceScore
 } from '../services/performanceScoreService';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { useMetricBasis } from '../hooks/useMetricBasis';
+import { METRIC_BASES } from '../services/ageMetricsService';
 
 interface TitleScoreAnalyzerProps {
   videos: VideoItem[];
@@ -18,11 +20,12 @@ interface TitleScoreAnalyzerProps {
 const TitleScoreAnalyzer: React.FC<TitleScoreAnalyzerProps> = ({ videos }) => {
   const [selectedVideo, setSelectedVideo] = useState<VideoWithScores | null>(null);
   const [activeTab, setActiveTab] = useState<'title' | 'thumbnail'>('title');
+  const [basis] = useMetricBasis();
 
   // Calculate all scores
   const scoredVideos = useMemo(() => {
-    return calculateAllVideoScores(videos);
-  }, [videos]);
+    return calculateAllVideoScores(videos, basis);
+  }, [videos, basis]);
 
   // Sort by current tab's score
   const sortedVideos = useMemo(() => {
@@ -36,8 +39,8 @@ const TitleScoreAnalyzer: React.FC<TitleScoreAnalyzerProps> = ({ videos }) => {
 
   // Overall stats
   const { avgTitleScore, avgThumbnailScore } = useMemo(() => {
-    return getAverageScores(videos);
-  }, [videos]);
+    return getAverageScores(videos, basis);
+  }, [videos, basis]);
 
   const titleDistribution = useMemo(() => {
     return getGradeDistribution(scoredVideos.map(v => v.titleScore));
@@ -92,6 +95,7 @@ const TitleScoreAnalyzer: React.FC<TitleScoreAnalyzerProps> = ({ videos }) => {
         </h2>
         <p className="text-sm text-muted-foreground mt-1">
           Scores based on actual video performance (views, likes, engagement)
+          {basis !== 'raw' && ` · views & likes: ${METRIC_BASES.find(b => b.value === basis)?.label}`}
         </p>
       </div>
 
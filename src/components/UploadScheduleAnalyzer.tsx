@@ -1,10 +1,28 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { VideoItem } from '../types';
-import { IconHistory, IconChart } from '../constants/icons';
+import { IconHistory, IconChart, IconDownload } from '../constants/icons';
+import { isOnDemandVideo } from '../services/youtubeService';
+import { getMetricLabel, getViewMetric } from '../services/ageMetricsService';
+import { useMetricBasis } from '../hooks/useMetricBasis';
+import {
+  SCHEDULE_TIME_ZONES,
+  convertSlot,
+  formatSlot,
+  getBrowserTimeZone,
+  getDefaultTimeZone,
+  getTimeZoneLabel,
+  getZonedSlot,
+} from '../services/timeZoneService';
+import { buildSlotCalendar, getSlotRecommendations, MIN_SLOT_UPLOADS, SlotFormat, SlotStats } from '../services/scheduleService';
+import { exportSlotCalendar } from '../services/exportService';
 
 interface UploadScheduleAnalyzerProps {
   videos: VideoItem[];
+  // Channel country, which picks the default audience time zone
+  country?: string;
+  channelId?: string;
+  channelTitle?: string;
 }
 
 interface HeatmapCell {
@@ -17,9 +35,38 @@ interface HeatmapCell {
 
 const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 const HOURS = Array.from({ length: 24 }, (_, i) => i);
+const MIN_UPLOAD_CHOICES = [1, 2, 3, 5];
 
-const UploadScheduleAnalyzer: React.FC<UploadScheduleAnalyzerProps> = ({ videos }) => {
-  const { heatmapData, maxCount, bestSlots, worstSlots, stats } = useMemo(() => {
+const UploadScheduleAnalyzer: React.FC<UploadScheduleAnalyzerProps> = ({ videos: allVideos, country, channelId, channelTitle }) => {
+  // Stream start times and scheduled releases are not upload decisions, so they stay out of the heatmap
+  const videos = useMemo(() => allVideos.filter(isOnDemandVideo), [allVideos]);
+  const excludedCount = allVideos.length - videos.length;
+  // Slot averages follow the app-wide basis, so older uploads don't make their slot look best by default
+  const [basis] = useMetricBasis();
+  const viewsLabel = getMetricLabel('views', basis);
+
+  // Slots are read in the audience's zone, not the browser's
+  const browserZone = useMemo(() => getBrowserTimeZone(), []);
+  const [timeZone, setTimeZone] = useState(() => getDefaultTimeZone(country));
+  useEffect(() => setTimeZone(getDefaultTimeZone(country)), [country]);
+  const zoneOptions = SCHEDULE_TIME_ZONES.some(z => z.id === browserZone)
+    ? SCHEDULE_TIME_ZONES
+    : [...SCHEDULE_TIME_ZONES, { id: browserZone, label: browserZone }];
+
+  const [minCount, setMinCount] = useState(MIN_SLOT_UPLOADS);
+  const [slotFormat, setSlotFormat] = useState<SlotFormat>('long');
+
+  // Ranked by means shrunk toward the channel average, per format, so one lucky upload can't top the list
+  const recommendations = useMemo(
+    () => getSlotRecommendations(videos, { timeZone, basis, minCount }),
+    [videos, timeZone, basis, minCount]
+  );
+  useEffect(() => {
+    if (!recommendations.long.sampleSize && recommendations.shorts.sampleSize) setSlotFormat('shorts');
+  }, [recommendations]);
+  const { best: bestSlots, worst: worstSlots } = recommendations[slotFormat];
+
+  const { heatmapData, maxCount, stats } = useMemo(() => {
     const grid: HeatmapCell[][] = Array(7).fill(null).map((_, day) =>
       Array(24).fill(null).map((_, hour) => ({
         day,
@@ -30,12 +77,11 @@ const UploadScheduleAnalyzer: React.FC<UploadScheduleAnalyzerProps> = ({ videos
       }))
     );
 
+    const now = Date.now();
     videos.forEach(v => {
-      const date = new Date(v.publishedAt);
-      const day = date.getDay();
-      const hour = date.getHours();
+      const { day, hour } = getZonedSlot(new Date(v.publishedAt), timeZone);
       grid[day][hour].count++;
-      grid[day][hour].totalViews += v.viewCountRaw;
+      grid[day][hour].totalViews += getViewMetric(v, basis, now);
     });
 
     // Calculate averages
@@ -50,12 +96,6 @@ const UploadScheduleAnalyzer: React.FC<UploadScheduleAnalyzerProps> = ({ videos
     });
 
     const maxCount = Math.max(...allCells.map(c => c.count), 1);
-    
-    // Find best and worst slots
-    const cellsWithUploads = allCells.filter(c => c.count > 0);
-    const sortedByViews = [...cellsWithUploads].sort((a, b) => b.avgViews - a.avgViews);
-    const bestSlots = sortedByViews.slice(0, 3);
-    const worstSlots = sortedByViews.slice(-3).reverse();
 
     // Stats
     const totalUploads = videos.length;
@@ -66,14 +106,12 @@ const UploadScheduleAnalyzer: React.FC<UploadScheduleAnalyzerProps> = ({ videos
     return {
       heatmapData: grid,
       maxCount,
-      bestSlots,
-      worstSlots,
       stats: {
         totalUploads,
         uploadsPerWeek: uploadsPerWeek.toFixed(1)
       }
     };
-  }, [videos]);
+  }, [videos, basis, timeZone]);
 
   const getHeatColor = (count: number, avgViews: number) => {
     if (count === 0) return 'bg-secondary';
@@ -90,6 +128,19 @@ const UploadScheduleAnalyzer: React.FC<UploadScheduleAnalyzerProps> = ({ videos
     return hour > 12 ? `${hour - 12}pm` : `${hour}am`;
   };
 
+  // The slot in the browser's zone, when that differs from the analysed one
+  const localTime = (slot: { day: number; hour: number }) =>
+    timeZone === browserZone ? null : formatSlot(convertSlot({ day: slot.day, hour: slot.hour, minute: 0 }, timeZone, browserZone));
+
+  const handleExportCalendar = () => {
+    const withSlots = [recommendations.long, recommendations.shorts].filter(r => r.best.length);
+    const title = channelTitle || 'Channel';
+    exportSlotCalendar(buildSlotCalendar(withSlots, timeZone, { id: channelId, title }), title.replace(/[^\w-]+/g, '_'));
+  };
+
+  const describeSlot = (slot: SlotStats) =>
+    `${slot.count} uploads · 90%: ${formatViews(Math.round(slot.low))}–${formatViews(Math.round(slot.high))}`;
+
   const formatViews = (views: number) => {
     if (views >= 1000000) return `${(views / 1000000).toFixed(1)}M`;
     if (views >= 1000) return `${(views / 1000).toFixed(1)}K`;
@@ -108,14 +159,29 @@ const UploadScheduleAnalyzer: React.FC<UploadScheduleAnalyzerProps> = ({ videos
   return (
     <div className="space-y-6 animate-fade-in">
       {/* Header */}
-      <div>
-        <h2 className="text-2xl font-black text-foreground tracking-tight flex items-center gap-3">
-          <IconHistory className="w-6 h-6 text-primary" />
-          Upload Schedule Analysis
-        </h2>
-        <p className="text-sm text-muted-foreground mt-1">
-          Discover optimal posting times based on performance
-        </p>
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-black text-foreground tracking-tight flex items-center gap-3">
+            <IconHistory className="w-6 h-6 text-primary" />
+            Upload Schedule Analysis
+          </h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Discover optimal posting times based on performance
+            {excludedCount > 0 && ` · ${excludedCount} live streams/upcoming not counted`}
+          </p>
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <label className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest">Audience Time Zone</label>
+          <select
+            value={timeZone}
+            onChange={e => setTimeZone(e.target.value)}
+            className="bg-card border border-border rounded-xl px-3 py-2 text-xs font-bold text-foreground outline-none"
+          >
+            {zoneOptions.map(z => (
+              <option key={z.id} value={z.id}>{z.label}{z.id === browserZone ? ' · your zone' : ''}</option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {/* Stats Row */}
@@ -169,7 +235,7 @@ const UploadScheduleAnalyzer: React.FC<UploadScheduleAnalyzerProps> = ({ videos
         className="bg-card border border-border rounded-2xl p-6 overflow-x-auto"
       >
         <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest mb-4">
-          Upload Heatmap
+          Upload Heatmap · {getTimeZoneLabel(timeZone)}
         </h3>
         
         <div className="min-w-[700px]">
@@ -196,7 +262,7 @@ const UploadScheduleAnalyzer: React.FC<UploadScheduleAnalyzerProps> = ({ videos
                       animate={{ opacity: 1, scale: 1 }}
                       transition={{ delay: 0.5 + (dayIndex * 24 + hour) * 0.002 }}
                       className={`w-[12px] h-[20px] rounded-sm cursor-pointer transition-all hover:scale-125 hover:z-10 ${getHeatColor(cell.count, cell.avgViews)}`}
-                      title={`${day} ${formatHour(hour)}: ${cell.count} videos, ${formatViews(cell.avgViews)} avg views`}
+                      title={`${day} ${formatHour(hour)}${localTime(cell) ? ` (${localTime(cell)} your time)` : ''}: ${cell.count} videos, ${formatViews(cell.avgViews)} avg ${viewsLabel}`}
                     />
                   );
                 })}
@@ -219,6 +285,57 @@ const UploadScheduleAnalyzer: React.FC<UploadScheduleAnalyzerProps> = ({ videos
         </div>
       </motion.div>
 
+      {/* Recommendation Controls */}
+      <div className="flex flex-wrap items-end gap-4 p-4 bg-secondary/50 rounded-2xl">
+        <div>
+          <span className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest block mb-1.5">Format</span>
+          <div className="flex p-0.5 bg-card border border-border rounded-xl">
+            {(['long', 'shorts'] as SlotFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => setSlotFormat(format)}
+                className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${
+                  slotFormat === format ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {format === 'long' ? 'Long-form' : 'Shorts'} ({recommendations[format].sampleSize})
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <span className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest block mb-1.5">Min Uploads / Slot</span>
+          <select
+            value={minCount}
+            onChange={e => setMinCount(Number(e.target.value))}
+            className="bg-card border border-border rounded-xl px-3 py-1.5 text-xs font-bold text-foreground outline-none"
+          >
+            {MIN_UPLOAD_CHOICES.map(n => (
+              <option key={n} value={n}>{n}+ uploads</option>
+            ))}
+          </select>
+        </div>
+        <p className="flex-1 min-w-[12rem] text-xs text-muted-foreground">
+          Slots are ranked by averages pulled toward the channel average, so a slot with only a few videos doesn't win outright.
+        </p>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={handleExportCalendar}
+          disabled={!recommendations.long.best.length && !recommendations.shorts.best.length}
+          className="px-4 py-1.5 bg-card border border-border rounded-xl text-xs font-bold text-foreground hover:bg-accent disabled:opacity-50 transition-all flex items-center gap-1.5"
+        >
+          <IconDownload className="w-3.5 h-3.5" />
+          Export .ics
+        </motion.button>
+      </div>
+
+      {!bestSlots.length && (
+        <p className="text-sm text-muted-foreground italic">
+          Not enough {slotFormat === 'shorts' ? 'Shorts' : 'long-form'} data: each slot needs at least {minCount} uploads.
+        </p>
+      )}
+
       {/* Best & Worst Times */}
       <div className="grid md:grid-cols-2 gap-6">
         {/* Best Times */}
@@ -240,12 +357,14 @@ const UploadScheduleAnalyzer: React.FC<UploadScheduleAnalyzerProps> = ({ videos
                   </span>
                   <div>
                     <p className="font-bold text-foreground">{DAYS[slot.day]} at {formatHour(slot.hour)}</p>
-                    <p className="text-xs text-muted-foreground">{slot.count} uploads</p>
+                    <p className="text-xs text-muted-foreground">
+                      {describeSlot(slot)}{localTime(slot) && ` · ${localTime(slot)} your time`}
+                    </p>
                   </div>
                 </div>
                 <div className="text-right">
-                  <p className="font-bold text-emerald-600 dark:text-emerald-400">{formatViews(slot.avgViews)}</p>
-                  <p className="text-[10px] text-muted-foreground">avg views</p>
+                  <p className="font-bold text-emerald-600 dark:text-emerald-400">{formatViews(Math.round(slot.shrunkViews))}</p>
+                  <p className="text-[10px] text-muted-foreground">est. {viewsLabel} · {Math.round(slot.lift * 100)}%</p>
                 </div>
               </div>
             ))}
@@ -271,12 +390,14 @@ const UploadScheduleAnalyzer: React.FC<UploadScheduleAnalyzerProps> = ({ videos
                   </span>
                   <div>
                     <p className="font-bold text-foreground">{DAYS[slot.day]} at {formatHour(slot.hour)}</p>
-                    <p className="text-xs text-muted-foreground">{slot.count} uploads</p>
+                    <p className="text-xs text-muted-foreground">
+                      {describeSlot(slot)}{localTime(slot) && ` · ${localTime(slot)} your time`}
+                    </p>
                   </div>
                 </div>
                 <div className="text-right">
-                  <p className="font-bold text-orange-600 dark:text-orange-400">{formatViews(slot.avgViews)}</p>
-                  <p className="text-[10px] text-muted-foreground">avg views</p>
+                  <p className="font-bold text-orange-600 dark:text-orange-400">{formatViews(Math.round(slot.shrunkViews))}</p>
+                  <p className="text-[10px] text-muted-foreground">est. {viewsLabel} · {Math.round(slot.lift * 100)}%</p>
                 </div>
               </div>
             ))}
@@ -296,9 +417,11 @@ const UploadScheduleAnalyzer: React.FC<UploadScheduleAnalyzerProps> = ({ videos
         </h3>
         <p className="text-foreground">
           Based on your channel's performance data, the optimal upload time is{' '}
-          <strong>{bestSlots[0] ? `${DAYS[bestSlots[0].day]} at ${formatHour(bestSlots[0].hour)}` : 'not enough data'}</strong>.
+          <strong>{bestSlots[0] ? `${DAYS[bestSlots[0].day]} at ${formatHour(bestSlots[0].hour)} ${getTimeZoneLabel(timeZone)}` : 'not enough data'}</strong>
+          {bestSlots[0] && localTime(bestSlots[0]) && ` (${localTime(bestSlots[0])} your time)`}.
           Videos uploaded during this time window receive{' '}
-          <strong>{bestSlots[0] ? formatViews(bestSlots[0].avgViews) : '0'}</strong> average views.
+          <strong>{bestSlots[0] ? formatViews(Math.round(bestSlots[0].shrunkViews)) : '0'}</strong> {viewsLabel} on average
+          {bestSlots[0] && `, ${Math.round(bestSlots[0].lift * 100)}% of the channel average across ${bestSlots[0].count} uploads`}.
         </p>
       </motion.div>
     </div>
@@ -0,0 +1,298 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
+import { VideoAnalysis, VideoContentType, VideoItem } from '../types';
+import { IconChart, IconPlay, IconSparkles, IconDescription } from '../constants/icons';
+import { analyzeTitleScore } from '../services/titleScoreService';
+import { formatDuration, formatNumber, getContentType, isLiveNow } from '../services/youtubeService';
+import { formatMultiplier } from '../services/outlierService';
+
+interface VideoAnalysisViewProps {
+  analysis: VideoAnalysis;
+  compareCount: number;
+  onCompareCountChange: (count: number) => void;
+  onPreview: (video: VideoItem) => void;
+  onAnalyzeComments: (video: VideoItem) => void;
+}
+
+const COMPARE_COUNTS = [10, 20, 50];
+
+const GRADE_COLORS: Record<string, string> = {
+  A: 'text-emerald-500 bg-emerald-100 dark:bg-emerald-900/30',
+  B: 'text-blue-500 bg-blue-100 dark:bg-blue-900/30',
+  C: 'text-yellow-500 bg-yellow-100 dark:bg-yellow-900/30',
+  D: 'text-orange-500 bg-orange-100 dark:bg-orange-900/30',
+  F: 'text-red-500 bg-red-100 dark:bg-red-900/30',
+};
+
+const CONTENT_TYPE_LABELS: Record<VideoContentType, string> = {
+  upload: 'Long',
+  short: 'Shorts',
+  live: 'Live Stream',
+  premiere: 'Premiere',
+  upcoming: 'Upcoming',
+};
+
+const formatRatio = (ratio: number) => (ratio > 0 ? `${ratio.toFixed(1)}×` : '-');
+
+const ratioColor = (ratio: number) =>
+  ratio >= 1.5 ? 'text-emerald-500' : ratio >= 0.75 ? 'text-foreground' : 'text-orange-500';
+
+const VideoAnalysisView: React.FC<VideoAnalysisViewProps> = ({ analysis, compareCount, onCompareCountChange, onPreview, onAnalyzeComments }) => {
+  const { video, channelStats, recentUploads, comparison } = analysis;
+
+  const titleScore = useMemo(() => analyzeTitleScore(video.title), [video.title]);
+
+  // Oldest first, with the analyzed video placed by its own publish date
+  const chartData = useMemo(() =>
+    [video, ...recentUploads]
+      .sort((a, b) => a.publishedAtDate.getTime() - b.publishedAtDate.getTime())
+      .map(v => ({
+        id: v.id,
+        label: v.publishedAtDate.toLocaleDateString([], { day: '2-digit', month: 'short' }),
+        title: v.title,
+        views: v.viewCountRaw,
+      })),
+  [video, recentUploads]);
+
+  const statCards = [
+    { label: 'Views', value: video.views },
+    { label: 'Likes', value: video.likes },
+    { label: 'Comments', value: video.comments },
+    { label: 'Engagement', value: `${video.engagementRate}%` },
+    { label: 'Duration', value: video.durationFormatted },
+    { label: 'Published', value: video.publishedTimeAgo },
+  ];
+
+  // Broadcast details the API exposes: viewers while on air, and the broadcast window
+  const live = video.liveDetails;
+  if (live && isLiveNow(video) && live.concurrentViewers !== undefined) {
+    statCards.push({ label: 'Watching Now', value: formatNumber(live.concurrentViewers) });
+  }
+  if (live?.actualStartTime && live.actualEndTime) {
+    const seconds = Math.round((Date.parse(live.actualEndTime) - Date.parse(live.actualStartTime)) / 1000);
+    statCards.push({ label: 'Broadcast Length', value: formatDuration(seconds) });
+  }
+  if (live?.scheduledStartTime && getContentType(video) === 'upcoming') {
+    statCards.push({ label: 'Scheduled', value: new Date(live.scheduledStartTime).toLocaleString() });
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row gap-6">
+        <button
+          onClick={() => onPreview(video)}
+          className="relative w-full md:w-80 shrink-0 aspect-video rounded-2xl overflow-hidden bg-secondary group"
+        >
+          <img src={video.thumbnail} alt={video.title} className="w-full h-full object-cover" />
+          <div className="absolute inset-0 flex items-center justify-center bg-black/30 opacity-0 group-hover:opacity-100 transition-opacity">
+            <IconPlay className="w-12 h-12 text-white" />
+          </div>
+        </button>
+        <div className="min-w-0">
+          <h2 className="text-2xl font-black text-foreground tracking-tight">{video.title}</h2>
+          <div className="flex items-center gap-3 mt-3">
+            {channelStats?.avatar && (
+              <img src={channelStats.avatar} alt={video.channelTitle} className="w-8 h-8 rounded-full" />
+            )}
+            <div>
+              <p className="text-sm font-bold text-foreground">{video.channelTitle}</p>
+              {channelStats && (
+                <p className="text-xs text-muted-foreground">{channelStats.subscriberCount} subscribers</p>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2 mt-3">
+            <span
+              className="px-2 py-0.5 bg-secondary rounded-lg text-[10px] font-bold text-muted-foreground"
+              title={video.shortsConfidence !== undefined ? `Shorts confidence ${Math.round(video.shortsConfidence * 100)}%` : undefined}
+            >
+              {CONTENT_TYPE_LABELS[getContentType(video)]}
+            </span>
+            {video.isOutlier && (
+              <span className="px-2 py-0.5 bg-orange-500/10 rounded-lg text-[10px] font-bold text-orange-500">
+                Outlier{video.outlierMultiplier ? ` · ${formatMultiplier(video.outlierMultiplier)} median` : ''}
+              </span>
+            )}
+          </div>
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={() => onAnalyzeComments(video)}
+            className="flex items-center gap-2 mt-4 px-4 py-2 bg-secondary text-foreground rounded-xl text-xs font-bold border border-border hover:bg-accent transition-colors"
+          >
+            <IconSparkles className="w-4 h-4 text-primary" />
+            Analyze Comments
+          </motion.button>
+        </div>
+      </div>
+
+      {/* Stats Row */}
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        {statCards.map((card, i) => (
+          <motion.div
+            key={card.label}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: i * 0.05 }}
+            className="bg-card border border-border rounded-2xl p-4"
+          >
+            <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest">{card.label}</p>
+            <p className="text-xl font-black text-foreground mt-1">{card.value}</p>
+          </motion.div>
+        ))}
+      </div>
+
+      {/* Channel Comparison */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3 }}
+        className="bg-card border border-border rounded-2xl p-6"
+      >
+        <div className="flex items-center justify-between flex-wrap gap-3 mb-4">
+          <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest flex items-center gap-2">
+            <IconChart className="w-4 h-4 text-primary" />
+            vs. {comparison.sampleSize} Upload Terakhir
+          </h3>
+          <select
+            value={compareCount}
+            onChange={(e) => onCompareCountChange(Number(e.target.value))}
+            className="bg-card border border-border rounded-xl px-3 py-1.5 text-xs font-bold text-foreground focus:ring-2 ring-primary/20 outline-none cursor-pointer hover:bg-accent transition-colors"
+          >
+            {COMPARE_COUNTS.map(n => (
+              <option key={n} value={n}>Last {n} uploads</option>
+            ))}
+          </select>
+        </div>
+
+        {comparison.sampleSize === 0 ? (
+          <p className="text-sm text-muted-foreground italic">Channel ini belum punya upload lain untuk dibandingkan.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <div>
+                <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest">Views vs Median</p>
+                <p className={`text-2xl font-black mt-1 ${ratioColor(comparison.viewsRatio)}`}>{formatRatio(comparison.viewsRatio)}</p>
+                <p className="text-[10px] text-muted-foreground">median {formatNumber(comparison.medianViews)}</p>
+              </div>
+              <div>
+                <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest">Likes vs Median</p>
+                <p className={`text-2xl font-black mt-1 ${ratioColor(comparison.likesRatio)}`}>{formatRatio(comparison.likesRatio)}</p>
+                <p className="text-[10px] text-muted-foreground">median {formatNumber(comparison.medianLikes)}</p>
+              </div>
+              <div>
+                <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest">ER vs Median</p>
+                <p className={`text-2xl font-black mt-1 ${comparison.erDelta >= 0 ? 'text-emerald-500' : 'text-orange-500'}`}>
+                  {comparison.erDelta >= 0 ? '+' : ''}{comparison.erDelta.toFixed(2)} pt
+                </p>
+                <p className="text-[10px] text-muted-foreground">median {comparison.medianER}%</p>
+              </div>
+              <div>
+                <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest">Rank by Views</p>
+                <p className="text-2xl font-black text-foreground mt-1">
+                  #{comparison.viewsRank} <span className="text-sm text-muted-foreground">/ {comparison.sampleSize + 1}</span>
+                </p>
+              </div>
+            </div>
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <XAxis dataKey="label" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }} />
+                  <YAxis tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }} tickFormatter={(v) => formatNumber(v)} />
+                  <Tooltip
+                    formatter={(value: number) => [formatNumber(value), 'Views']}
+                    labelFormatter={(_, payload) => payload?.[0]?.payload?.title || ''}
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '12px'
+                    }}
+                  />
+                  <ReferenceLine y={comparison.medianViews} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+                  <Bar dataKey="views" radius={[4, 4, 0, 0]}>
+                    {chartData.map(d => (
+                      <Cell key={d.id} fill={d.id === video.id ? 'hsl(var(--primary))' : 'hsl(var(--muted))'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </motion.div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Title Score */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.4 }}
+          className="bg-card border border-border rounded-2xl p-6"
+        >
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest flex items-center gap-2">
+              <IconSparkles className="w-4 h-4 text-primary" />
+              Title Score
+            </h3>
+            <div className="flex items-center gap-2">
+              <span className="text-2xl font-black text-foreground">{titleScore.totalScore}</span>
+              <span className={`px-2 py-0.5 rounded text-xs font-bold ${GRADE_COLORS[titleScore.grade]}`}>{titleScore.grade}</span>
+            </div>
+          </div>
+          <div className="space-y-2">
+            {Object.entries(titleScore.breakdown).map(([key, item]) => (
+              <div key={key}>
+                <div className="flex justify-between text-xs">
+                  <span className="font-bold text-foreground capitalize">{key.replace(/([A-Z])/g, ' $1')}</span>
+                  <span className="text-muted-foreground">{item.score}/{item.max}</span>
+                </div>
+                <div className="w-full h-1.5 bg-secondary rounded-full mt-1 overflow-hidden">
+                  <div className="h-full bg-primary" style={{ width: `${item.max ? (item.score / item.max) * 100 : 0}%` }} />
+                </div>
+                <p className="text-[10px] text-muted-foreground mt-0.5">{item.feedback}</p>
+              </div>
+            ))}
+          </div>
+          {titleScore.suggestions.length > 0 && (
+            <ul className="mt-4 space-y-1 text-xs text-muted-foreground list-disc list-inside">
+              {titleScore.suggestions.map(s => <li key={s}>{s}</li>)}
+            </ul>
+          )}
+        </motion.div>
+
+        {/* Tags & Description */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.5 }}
+          className="bg-card border border-border rounded-2xl p-6"
+        >
+          <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest mb-3">
+            Tags ({video.tags.length})
+          </h3>
+          {video.tags.length ? (
+            <div className="flex flex-wrap gap-2 mb-6">
+              {video.tags.map(tag => (
+                <span key={tag} className="px-2 py-1 bg-secondary rounded-lg text-xs font-medium text-foreground">{tag}</span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground italic mb-6">Video ini tidak memakai tag.</p>
+          )}
+          <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-widest mb-3 flex items-center gap-2">
+            <IconDescription className="w-4 h-4 text-primary" />
+            Description
+          </h3>
+          <p className="text-sm text-foreground whitespace-pre-line break-words max-h-80 overflow-y-auto">
+            {video.description || <span className="text-muted-foreground italic">Tanpa deskripsi.</span>}
+          </p>
+        </motion.div>
+      </div>
+    </div>
+  );
+};
+
+export default VideoAnalysisView;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { VideoItem, ToastType } from '../types';
 import { IconCopy, IconDownload, IconBookmark, IconSparkles, IconDescription } from '../constants/icons';
+import { formatMultiplier } from '../services/outlierService';
 
 interface VideoCardProps {
   video: VideoItem;
@@ -96,7 +97,7 @@ const VideoCard: React.FC<VideoCardProps> = ({ video, index, onToast, onSaveTogg
         {/* Outlier Badge */}
         {video.isOutlier && (
           <div className="absolute top-2 left-2 bg-orange-500 text-white text-[10px] font-black px-2 py-0.5 rounded-full shadow-lg animate-pulse-soft flex items-center gap-1">
-            <span>🔥</span> OUTLIER
+            <span>🔥</span> {video.outlierMultiplier ? formatMultiplier(video.outlierMultiplier) : 'OUTLIER'}
           </div>
         )}
 
@@ -3,6 +3,10 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { VideoItem, ToastType } from '../types';
 import { IconX, IconBookmark, IconCopy, IconDownload, IconPlay } from '../constants/icons';
 import VideoDownloader from './VideoDownloader';
+import ViewSparkline from './ViewSparkline';
+import { useViewHistory } from '../hooks/useViewHistory';
+import { formatNumber } from '../services/youtubeService';
+import { formatMultiplier } from '../services/outlierService';
 
 interface VideoPreviewModalProps {
   video: VideoItem | null;
@@ -30,6 +34,7 @@ const VideoPreviewModal: React.FC<VideoPreviewModalProps> = ({
   hasPrev,
 }) => {
   const [showDownloader, setShowDownloader] = useState(false);
+  const { snapshots, velocity, viewsPerHour } = useViewHistory(video?.id, video?.viewCountRaw);
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (!isOpen || showDownloader) return;
@@ -192,9 +197,32 @@ const VideoPreviewModal: React.FC<VideoPreviewModalProps> = ({
                         {video.engagementRate}%
                       </p>
                     </div>
+                    {video.outlierMultiplier !== undefined && (
+                      <div className={`text-center px-4 py-2 rounded-xl ${video.isOutlier ? 'bg-orange-500/10' : 'bg-secondary'}`}>
+                        <p className="text-xs text-muted-foreground font-medium">vs Channel</p>
+                        <p className={`text-lg font-bold ${video.isOutlier ? 'text-orange-500' : 'text-foreground'}`}>
+                          {formatMultiplier(video.outlierMultiplier)}
+                        </p>
+                      </div>
+                    )}
                   </div>
                 </div>
 
+                {/* View Velocity */}
+                {viewsPerHour !== null && (
+                  <div className="flex items-center gap-4 mt-4 px-4 py-3 bg-secondary/50 rounded-xl">
+                    <div>
+                      <p className="text-xs text-muted-foreground font-medium">Views / Jam</p>
+                      <p className="text-lg font-bold text-foreground">+{formatNumber(Math.round(viewsPerHour))}</p>
+                    </div>
+                    <ViewSparkline values={velocity.map(p => p.viewsPerHour)} width={160} height={32} className="flex-1" />
+                    <p className="text-[10px] text-muted-foreground text-right">
+                      {snapshots.length} snapshot<br />
+                      sejak {new Date(snapshots[0].at).toLocaleDateString()}
+                    </p>
+                  </div>
+                )}
+
                 {/* Action Buttons */}
                 <div className="flex items-center gap-3 mt-6 pt-6 border-t border-border flex-wrap">
                   <motion.button
@@ -0,0 +1,32 @@
+import React from 'react';
+
+interface ViewSparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+// Axis-free trend line, scaled to its own min and max
+const ViewSparkline: React.FC<ViewSparklineProps> = ({ values, width = 64, height = 16, className = '' }) => {
+  if (!values.length) return null;
+  // A single interval still reads as a (flat) line
+  const series = values.length === 1 ? [values[0], values[0]] : values;
+  const min = Math.min(...series);
+  const range = Math.max(...series) - min || 1;
+  const points = series
+    .map((value, i) => {
+      const x = (i / (series.length - 1)) * width;
+      const y = height - 1 - ((value - min) / range) * (height - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className={`text-primary ${className}`} aria-hidden="true">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" strokeLinecap="round" />
+    </svg>
+  );
+};
+
+export default ViewSparkline;
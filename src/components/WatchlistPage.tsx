@@ -0,0 +1,234 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ToastType, VideoItem } from '../types';
+import { IconBell, IconLoader, IconX } from '../constants/icons';
+import AnimatedVideoCard from './AnimatedVideoCard';
+import { useViewHistories } from '../hooks/useViewHistory';
+import { resolveChannel } from '../services/youtubeService';
+import { getApiErrorMessage } from '../services/youtubeApiClient';
+import {
+  addWatchedChannel,
+  removeWatchedChannel,
+  updateWatchlistSettings,
+  requestNotificationPermission,
+  notificationsSupported,
+  isNewSinceVisit,
+  Watchlist,
+  POLL_INTERVALS,
+} from '../services/watchlistService';
+
+interface WatchlistPageProps {
+  apiKey: string;
+  watchlist: Watchlist;
+  uploads: VideoItem[];
+  // Previous visit; uploads published after it are marked new
+  since: number;
+  polling: boolean;
+  lastPolledAt: number | null;
+  failedChannels: string[];
+  error: string | null;
+  onPollNow: () => void;
+  onOpenChannel: (channelId: string) => void;
+  onPreview: (video: VideoItem) => void;
+  onSaveToggle: (video: VideoItem) => void;
+  savedIds: Set<string>;
+  onToast: (msg: string, type: ToastType) => void;
+}
+
+const VIEW_THRESHOLDS = [1000, 5000, 10000, 50000, 100000, 500000, 1000000];
+
+const WatchlistPage: React.FC<WatchlistPageProps> = ({
+  apiKey,
+  watchlist,
+  uploads,
+  since,
+  polling,
+  lastPolledAt,
+  failedChannels,
+  error,
+  onPollNow,
+  onOpenChannel,
+  onPreview,
+  onSaveToggle,
+  savedIds,
+  onToast,
+}) => {
+  const [channelInput, setChannelInput] = useState('');
+  const [adding, setAdding] = useState(false);
+  const { channels, settings } = watchlist;
+
+  // Uploads of channels removed since the last poll drop out right away
+  const visibleUploads = useMemo(() => {
+    const watched = new Set(channels.map(c => c.channelId));
+    return uploads
+      .filter(v => watched.has(v.channelId))
+      .sort((a, b) => Date.parse(b.publishedAt) - Date.parse(a.publishedAt));
+  }, [uploads, channels]);
+
+  const viewHistories = useViewHistories(visibleUploads);
+
+  const newCount = visibleUploads.filter(v => isNewSinceVisit(v, since)).length;
+  const failedTitles = channels.filter(c => failedChannels.includes(c.channelId)).map(c => c.title);
+
+  const handleAdd = async () => {
+    const input = channelInput.trim();
+    if (!input) return;
+    if (!apiKey) return onToast('Masukkan API Key terlebih dahulu', 'error');
+    setAdding(true);
+    try {
+      const resolved = await resolveChannel(apiKey, input);
+      if (!resolved) throw new Error(`Channel "${input}" tidak ditemukan.`);
+      if (!addWatchedChannel(resolved.channelId, resolved.channelTitle || resolved.channelId)) {
+        return onToast('Channel sudah ada di watchlist', 'error');
+      }
+      setChannelInput('');
+      onToast(`${resolved.channelTitle || input} ditambahkan ke watchlist`, 'success');
+    } catch (err) {
+      onToast(getApiErrorMessage(err, 'Gagal menambahkan channel'), 'error');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleToggleNotifications = async () => {
+    if (settings.notifications) return updateWatchlistSettings({ notifications: false });
+    if (!await requestNotificationPermission()) {
+      return onToast('Izin notifikasi browser ditolak', 'error');
+    }
+    updateWatchlistSettings({ notifications: true });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Add Channel */}
+      <div className="flex flex-col md:flex-row gap-3">
+        <input
+          value={channelInput}
+          onChange={e => setChannelInput(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleAdd()}
+          placeholder="Pin channel (ID, @handle, or URL)"
+          className="flex-1 bg-card border border-border rounded-2xl px-4 py-3 text-foreground placeholder:text-muted-foreground focus:ring-2 ring-primary/20 outline-none transition-all duration-300"
+        />
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={handleAdd}
+          disabled={adding}
+          className="px-6 py-3 bg-primary text-primary-foreground rounded-2xl text-sm font-bold shadow-lg shadow-primary/20 hover:bg-primary/90 disabled:opacity-50 transition-all duration-300 flex items-center justify-center gap-2"
+        >
+          {adding && <IconLoader className="w-4 h-4" />}
+          Pin Channel
+        </motion.button>
+      </div>
+
+      {/* Pinned Channels */}
+      {channels.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {channels.map(c => (
+            <div key={c.channelId} className="flex items-center gap-1 pl-3 pr-1 py-1 bg-secondary rounded-xl text-xs font-bold text-foreground">
+              <button onClick={() => onOpenChannel(c.channelId)} className="hover:text-primary transition-colors" title="Analyze channel">
+                {c.title}
+              </button>
+              <button
+                onClick={() => removeWatchedChannel(c.channelId)}
+                className="p-1 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                title="Unpin"
+              >
+                <IconX className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Polling & Alerts */}
+      <div className="flex flex-wrap items-end gap-4 p-4 bg-secondary/50 rounded-2xl">
+        <div>
+          <span className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest block mb-1.5">Check Every</span>
+          <select
+            value={settings.pollMinutes}
+            onChange={e => updateWatchlistSettings({ pollMinutes: Number(e.target.value) })}
+            className="bg-card border border-border rounded-xl px-3 py-1.5 text-xs font-bold text-foreground outline-none"
+          >
+            {POLL_INTERVALS.map(m => (
+              <option key={m} value={m}>{m ? `${m} menit` : 'Manual'}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <span className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest block mb-1.5">Alert at Views (24h)</span>
+          <select
+            value={settings.viewsThreshold}
+            onChange={e => updateWatchlistSettings({ viewsThreshold: Number(e.target.value) })}
+            className="bg-card border border-border rounded-xl px-3 py-1.5 text-xs font-bold text-foreground outline-none"
+          >
+            {VIEW_THRESHOLDS.map(v => (
+              <option key={v} value={v}>{v.toLocaleString()}</option>
+            ))}
+          </select>
+        </div>
+        {notificationsSupported() && (
+          <button
+            onClick={handleToggleNotifications}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold border transition-all ${
+              settings.notifications
+                ? 'bg-primary/10 border-primary/20 text-primary'
+                : 'bg-card border-border text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            <IconBell className="w-3.5 h-3.5" />
+            {settings.notifications ? 'Notifikasi Aktif' : 'Aktifkan Notifikasi'}
+          </button>
+        )}
+        <div className="flex-1 min-w-[12rem] text-xs text-muted-foreground text-right">
+          {lastPolledAt ? `Diperiksa ${new Date(lastPolledAt).toLocaleTimeString()}` : 'Belum diperiksa'}
+          {newCount > 0 && <span className="text-primary font-bold"> · {newCount} baru sejak kunjungan terakhir</span>}
+        </div>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={onPollNow}
+          disabled={polling || !channels.length}
+          className="px-4 py-1.5 bg-card border border-border rounded-xl text-xs font-bold text-foreground hover:bg-accent disabled:opacity-50 transition-all flex items-center gap-1.5"
+        >
+          {polling && <IconLoader className="w-3.5 h-3.5" />}
+          Periksa Sekarang
+        </motion.button>
+      </div>
+
+      {error && <p className="text-sm text-destructive font-medium">{error}</p>}
+      {failedTitles.length > 0 && (
+        <p className="text-xs text-muted-foreground">Upload tidak dapat dimuat: {failedTitles.join(', ')}</p>
+      )}
+
+      {/* Latest Uploads */}
+      {!channels.length ? (
+        <div className="text-center py-20 text-muted-foreground font-medium italic">
+          Pin channel kompetitor untuk memantau upload baru mereka.
+        </div>
+      ) : !visibleUploads.length ? (
+        <div className="text-center py-20 text-muted-foreground font-medium italic">
+          {polling ? 'Memeriksa upload terbaru...' : 'Belum ada upload yang dimuat.'}
+        </div>
+      ) : (
+        <div className="grid gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+          {visibleUploads.map((v, i) => (
+            <AnimatedVideoCard
+              key={v.id}
+              video={v}
+              index={i}
+              onToast={onToast}
+              isSaved={savedIds.has(v.id)}
+              onSaveToggle={onSaveToggle}
+              onPreview={onPreview}
+              isNew={isNewSinceVisit(v, since)}
+              history={viewHistories.get(v.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WatchlistPage;
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { getMetricBasis, setMetricBasis, MetricBasis } from '../services/ageMetricsService';
+
+// The app-wide metric basis; every view using it follows a change made anywhere
+export const useMetricBasis = (): [MetricBasis, (basis: MetricBasis) => void] => {
+  const [basis, setBasis] = useState<MetricBasis>(() => getMetricBasis());
+
+  useEffect(() => {
+    const update = () => setBasis(getMetricBasis());
+    window.addEventListener('metricBasisUpdated', update);
+    return () => window.removeEventListener('metricBasisUpdated', update);
+  }, []);
+
+  return [basis, setMetricBasis];
+};
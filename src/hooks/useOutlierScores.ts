@@ -0,0 +1,112 @@
+import { Dispatch, SetStateAction, useCallback, useEffect, useRef, useState } from 'react';
+import { AnalyzedData } from '../types';
+import { runWithQuotaFeature } from '../services/quotaService';
+import { isAbortError, isRetryableError, NotFoundError } from '../services/youtubeApiClient';
+import {
+  buildChannelBaseline,
+  cacheBaseline,
+  estimateBaselineCost,
+  getCachedBaseline,
+  loadChannelBaseline,
+  scoreVideos,
+  ChannelBaseline,
+} from '../services/outlierService';
+
+// Channels whose baseline is fetched per click; the rest stay pending for the next one
+const MAX_LAZY_BASELINES = 30;
+// Baselines applied to the grid in batches, so it re-sorts a few times rather than on every channel
+const APPLY_EVERY = 5;
+
+interface OutlierScoresOptions {
+  apiKey: string;
+  data: AnalyzedData | null;
+  setData: Dispatch<SetStateAction<AnalyzedData | null>>;
+  // Set while a fetch streams pages in; scoring waits for the complete result
+  paused?: boolean;
+}
+
+// Baselines already known for the given channels, the listing's own included
+const collectKnownBaselines = (channelIds: string[]): Record<string, ChannelBaseline> => {
+  const baselines: Record<string, ChannelBaseline> = {};
+  channelIds.forEach(channelId => {
+    const cached = getCachedBaseline(channelId);
+    if (cached) baselines[channelId] = cached;
+  });
+  return baselines;
+};
+
+/**
+ * Score the current results against per-channel baselines. A channel listing is its own baseline and
+ * cached baselines apply for free; loading the rest costs quota, so it only runs through `loadBaselines`.
+ */
+export const useOutlierScores = ({ apiKey, data, setData, paused = false }: OutlierScoresOptions) => {
+  const [loadingBaselines, setLoadingBaselines] = useState(false);
+  const [missingChannels, setMissingChannels] = useState<string[]>([]);
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const channelKey = data ? [...new Set(data.videos.map(v => v.channelId))].sort().join(',') : '';
+  const listingChannelId = data?.channelId;
+
+  // New results cancel a running load and are scored with whatever is known already
+  useEffect(() => {
+    controllerRef.current?.abort();
+    setLoadingBaselines(false);
+    if (paused || !channelKey) {
+      setMissingChannels([]);
+      return;
+    }
+
+    if (listingChannelId) cacheBaseline(buildChannelBaseline(listingChannelId, dataRef.current?.videos || []));
+    const channelIds = channelKey.split(',');
+    const baselines = collectKnownBaselines(channelIds);
+    if (Object.keys(baselines).length) setData(prev => prev && { ...prev, videos: scoreVideos(prev.videos, baselines) });
+    setMissingChannels(channelIds.filter(channelId => !baselines[channelId]));
+  }, [channelKey, listingChannelId, paused, setData]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const loadBaselines = useCallback(async () => {
+    const queue = missingChannels.slice(0, MAX_LAZY_BASELINES);
+    if (!queue.length || !apiKey || loadingBaselines) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const baselines = collectKnownBaselines(channelKey.split(','));
+    const apply = () => setData(prev => prev && { ...prev, videos: scoreVideos(prev.videos, { ...baselines }) });
+
+    setLoadingBaselines(true);
+    try {
+      await runWithQuotaFeature('outliers', async () => {
+        for (let i = 0; i < queue.length; i++) {
+          try {
+            baselines[queue[i]] = await loadChannelBaseline(apiKey, queue[i], { signal: controller.signal });
+          } catch (err) {
+            if (isAbortError(err)) return;
+            // A missing or flaky channel keeps its videos unscored; quota and key errors end the run
+            if (!(err instanceof NotFoundError) && !isRetryableError(err)) {
+              console.warn('Outlier baselines stopped:', err);
+              return apply();
+            }
+            console.warn(`Baseline of channel ${queue[i]} unavailable:`, err);
+          }
+          if ((i + 1) % APPLY_EVERY === 0 || i === queue.length - 1) apply();
+        }
+      });
+    } finally {
+      if (!controller.signal.aborted) {
+        // Channels that failed stay pending, so another click retries them
+        setMissingChannels(prev => prev.filter(channelId => !baselines[channelId]));
+        setLoadingBaselines(false);
+      }
+    }
+  }, [apiKey, channelKey, loadingBaselines, missingChannels, setData]);
+
+  const pendingCount = Math.min(missingChannels.length, MAX_LAZY_BASELINES);
+  return {
+    loadingBaselines,
+    missingBaselines: missingChannels.length,
+    baselineEstimate: estimateBaselineCost(pendingCount),
+    loadBaselines,
+  };
+};
@@ -0,0 +1,65 @@
+import { useEffect, useMemo, useState } from 'react';
+import { VideoItem, VideoSnapshot } from '../types';
+import { getVideoHistories, getVideoSnapshots, getViewVelocity } from '../services/snapshotService';
+
+export interface ViewHistory {
+  snapshots: VideoSnapshot[];
+  velocity: Array<{ at: number; viewsPerHour: number }>;
+  viewsPerHour: number | null;
+}
+
+const summarizeViewHistory = (snapshots: VideoSnapshot[]): ViewHistory => {
+  const velocity = getViewVelocity(snapshots);
+  return {
+    snapshots,
+    velocity,
+    viewsPerHour: velocity.length ? velocity[velocity.length - 1].viewsPerHour : null,
+  };
+};
+
+/**
+ * Stat history of one video and its views-per-hour between snapshots.
+ * Reloads when the view count changes, i.e. after a fetch has recorded a new snapshot.
+ */
+export const useViewHistory = (videoId: string | undefined, viewCount?: number) => {
+  const [snapshots, setSnapshots] = useState<VideoSnapshot[]>([]);
+
+  useEffect(() => {
+    if (!videoId) return;
+    let cancelled = false;
+    getVideoSnapshots(videoId).then(result => {
+      if (!cancelled) setSnapshots(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId, viewCount]);
+
+  return useMemo(() => summarizeViewHistory(snapshots), [snapshots]);
+};
+
+/**
+ * Histories of a whole grid, read in one batch rather than one read per card.
+ * Reloads when the set of videos or any of their view counts changes, not when they are re-sorted.
+ */
+export const useViewHistories = (videos: VideoItem[]): Map<string, ViewHistory> => {
+  const [histories, setHistories] = useState<Map<string, ViewHistory>>(new Map());
+  const videoKey = videos.map(v => `${v.id}:${v.viewCountRaw}`).sort().join(',');
+
+  useEffect(() => {
+    if (!videoKey) return setHistories(new Map());
+    let cancelled = false;
+    const ids = videoKey.split(',').map(entry => entry.slice(0, entry.lastIndexOf(':')));
+    getVideoHistories(ids).then(result => {
+      if (cancelled) return;
+      const next = new Map<string, ViewHistory>();
+      result.forEach((snapshots, id) => next.set(id, summarizeViewHistory(snapshots)));
+      setHistories(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [videoKey]);
+
+  return histories;
+};
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { VideoItem } from '../types';
+import { fetchWatchlistUploads } from '../services/youtubeService';
+import { runWithQuotaFeature } from '../services/quotaService';
+import { apiDataSource, getApiErrorMessage, getDataSource } from '../services/youtubeApiClient';
+import {
+  getWatchlist,
+  collectWatchlistAlerts,
+  sendWatchlistNotifications,
+  Watchlist,
+  WatchlistAlerts,
+} from '../services/watchlistService';
+
+interface WatchlistPollerOptions {
+  apiKey: string;
+  // Set while a foreground fetch runs, so background polls never compete with it
+  paused?: boolean;
+  onAlerts?: (alerts: WatchlistAlerts) => void;
+}
+
+/**
+ * Keep the watched channels' latest uploads fresh while the app is open: once a key is available,
+ * whenever the channel list changes, and on the configured interval. Key rotation does not poll again.
+ */
+export const useWatchlistPoller = ({ apiKey, paused = false, onAlerts }: WatchlistPollerOptions) => {
+  const [watchlist, setWatchlist] = useState<Watchlist>(() => getWatchlist());
+  const [uploads, setUploads] = useState<VideoItem[]>([]);
+  const [polling, setPolling] = useState(false);
+  const [lastPolledAt, setLastPolledAt] = useState<number | null>(null);
+  const [failedChannels, setFailedChannels] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const pollingRef = useRef(false);
+  const apiKeyRef = useRef(apiKey);
+  apiKeyRef.current = apiKey;
+  const hasKey = !!apiKey;
+  const onAlertsRef = useRef(onAlerts);
+  onAlertsRef.current = onAlerts;
+
+  useEffect(() => {
+    const update = () => setWatchlist(getWatchlist());
+    window.addEventListener('watchlistUpdated', update);
+    return () => window.removeEventListener('watchlistUpdated', update);
+  }, []);
+
+  const channelKey = watchlist.channels.map(c => c.channelId).join(',');
+
+  const poll = useCallback(async () => {
+    const channelIds = channelKey ? channelKey.split(',') : [];
+    // Only the live API knows the watched channels; fixtures and the demo would only raise false alerts
+    if (!apiKeyRef.current || !channelIds.length || pollingRef.current || getDataSource() !== apiDataSource) return;
+    pollingRef.current = true;
+    setPolling(true);
+    try {
+      const result = await runWithQuotaFeature('watchlist', () => fetchWatchlistUploads(apiKeyRef.current, channelIds));
+      const alerts = collectWatchlistAlerts(result.videos);
+      sendWatchlistNotifications(alerts, getWatchlist().settings);
+      if (alerts.newUploads.length || alerts.thresholdHits.length) onAlertsRef.current?.(alerts);
+      setUploads(result.videos);
+      setFailedChannels(result.failedChannels);
+      setLastPolledAt(Date.now());
+      setError(null);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Gagal memeriksa watchlist'));
+    } finally {
+      pollingRef.current = false;
+      setPolling(false);
+    }
+  }, [channelKey]);
+
+  // First load, the first key, and every change to the channel list
+  useEffect(() => {
+    poll();
+  }, [poll, hasKey]);
+
+  const { pollMinutes } = watchlist.settings;
+  useEffect(() => {
+    if (!pollMinutes || paused) return;
+    const timer = window.setInterval(poll, pollMinutes * 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, [poll, pollMinutes, paused]);
+
+  return { watchlist, uploads, polling, lastPolledAt, failedChannels, error, poll };
+};
@@ -11,7 +11,11 @@ import {
   DurationRange, 
   MinViewsOption, 
   MinLikesOption,
-  TrendingRegion 
+  TrendingRegion,
+  FetchProgress,
+  VideoAnalysis,
+  SearchOptions,
+  VideoContentType
 } from '../types';
 import { 
   IconCopy, 
@@ -25,7 +29,9 @@ import {
   IconSettings,
   IconMenu,
   IconBookmark,
-  IconClose
+  IconClose,
+  IconSparkles,
+  IconLoader
 } from '../constants/icons';
 import Toast from '../components/Toast';
 import AnimatedVideoCard from '../components/AnimatedVideoCard';
@@ -40,13 +46,68 @@ import CompetitorBenchmark from '../components/CompetitorBenchmark';
 import ContentGapAnalyzer from '../components/ContentGapAnalyzer';
 import UploadScheduleAnalyzer from '../components/UploadScheduleAnalyzer';
 import TitleScoreAnalyzer from '../components/TitleScoreAnalyzer';
-import SearchHistoryPage from '../components/SearchHistoryPage';
+import SearchHistoryPage, { addToSearchHistory } from '../components/SearchHistoryPage';
+import SearchOptionsPanel from '../components/SearchOptionsPanel';
 import DownloaderPage from '../components/DownloaderPage';
+import QuotaDashboard from '../components/QuotaDashboard';
+import VideoAnalysisView from '../components/VideoAnalysisView';
+import CommentInsightsModal from '../components/CommentInsightsModal';
+import WatchlistPage from '../components/WatchlistPage';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
-import { fetchYouTubeData, fetchTrendingVideos, getQuotaUsage } from '../services/youtubeService';
+import { useWatchlistPoller } from '../hooks/useWatchlistPoller';
+import { useOutlierScores } from '../hooks/useOutlierScores';
+import { useMetricBasis } from '../hooks/useMetricBasis';
+import { useViewHistories } from '../hooks/useViewHistory';
+import {
+  fetchYouTubeData,
+  fetchTrendingVideos,
+  fetchVideoAnalysis,
+  estimateAnalysisCost,
+  estimateVideoAnalysisCost,
+  extractVideoId,
+  getQueryType,
+  getContentType,
+} from '../services/youtubeService';
+import { getQuotaUsage, getKeyQuotaUsage, estimatePagedCost, QUOTA_LIMIT, QUOTA_HISTORY_KEY, runWithQuotaFeature } from '../services/quotaService';
+import {
+  ApiKeyEntry,
+  getApiKeys,
+  getActiveApiKey,
+  addApiKey,
+  removeApiKey,
+  promoteApiKey,
+  isKeyExhausted,
+  getPoolRemainingQuota,
+  resetServedKeys,
+  getServedKeyNames,
+  maskApiKey,
+} from '../services/apiKeyService';
+import { getApiErrorMessage, getDataSource, isAbortError, KeyInvalidError, YouTubeDataSource } from '../services/youtubeApiClient';
+import {
+  activateFixtureDataSource,
+  activateLiveDataSource,
+  downloadFixture,
+  isRecording,
+  parseFixture,
+  startRecording,
+  stopRecording,
+} from '../services/fixtureDataSource';
+import {
+  DEMO_QUERY,
+  DEMO_BENCHMARK_CHANNELS,
+  SAVED_VIDEOS_KEY,
+  startDemo,
+  isDemoActive,
+  getDemoSavedVideos,
+  persistSavedVideos,
+} from '../services/demoService';
+import { clearCache, getCacheStats } from '../services/cacheService';
 import { generateCSV, exportToExcel, generateFullAnalysisCSV } from '../services/exportService';
 import { generateZip } from '../services/zipService';
 import { generatePDFReport } from '../services/pdfService';
+import { markWatchlistVisited } from '../services/watchlistService';
+import { buildChannelBaseline, scoreVideos } from '../services/outlierService';
+import { getLikeMetric, getViewMetric, METRIC_BASES, MetricBasis } from '../services/ageMetricsService';
 import { Input } from '../components/ui/input';
 import { Slider } from '../components/ui/slider';
 import { Checkbox } from '../components/ui/checkbox';
@@ -67,7 +128,43 @@ const TRENDING_REGIONS: TrendingRegion[] = [
   { code: 'FR', name: 'France 🇫🇷' },
 ];
 
-const QUOTA_LIMIT = 10000;
+const OFFLINE_API_KEY = 'offline';
+
+// Content type filters with the label used in the empty state
+const CONTENT_TYPE_FILTERS: Array<{ value: ContentTypeFilter; label: string; name: string; type?: VideoContentType }> = [
+  { value: 'all', label: 'All', name: 'Semua Konten' },
+  { value: 'long', label: 'Long', name: 'Video Panjang', type: 'upload' },
+  { value: 'shorts', label: 'Shorts', name: 'Shorts', type: 'short' },
+  { value: 'live', label: 'Live', name: 'Live Stream', type: 'live' },
+  { value: 'premiere', label: 'Premiere', name: 'Premiere', type: 'premiere' },
+  { value: 'upcoming', label: 'Upcoming', name: 'Akan Tayang', type: 'upcoming' },
+];
+
+// Min views choices per metric basis; lifetime thresholds would filter out every per-day value
+const MIN_VIEWS_OPTIONS: Record<MetricBasis, Array<{ value: number; label: string }>> = {
+  raw: [
+    { value: 1000000, label: '1M+ Views' },
+    { value: 5000000, label: '5M+ Views' },
+    { value: 10000000, label: '10M+ Views' },
+  ],
+  per_day: [
+    { value: 1000, label: '1K+ Views/Hari' },
+    { value: 10000, label: '10K+ Views/Hari' },
+    { value: 100000, label: '100K+ Views/Hari' },
+  ],
+  first_30d: [
+    { value: 100000, label: '100K+ Views (30 Hari)' },
+    { value: 1000000, label: '1M+ Views (30 Hari)' },
+    { value: 5000000, label: '5M+ Views (30 Hari)' },
+  ],
+};
+
+// Thresholds of the outlier filter, as multiples of the channel median
+const OUTLIER_FILTERS = [1.5, 2, 3, 5, 10];
+
+// Suffix for the summary toast when some detail chunks could not be loaded
+const describeFailedChunks = (result: AnalyzedData): string =>
+  result.failedChunks ? `, ${result.failedChunks} chunk (±${result.failedChunks * 50} video) gagal dimuat` : '';
 
 // Date range filter type
 type DateRangeFilter = 'all' | '7d' | '30d' | '90d' | '1y';
@@ -78,10 +175,20 @@ const YouTubeAnalyzer: React.FC = () => {
   const [showFilters, setShowFilters] = useState(false);
   const [mobileNavOpen, setMobileNavOpen] = useState(false);
 
-  const [apiKey, setApiKey] = useState(() => localStorage.getItem('yt_api_key_v5') || '');
+  const [apiKeys, setApiKeys] = useState<ApiKeyEntry[]>(() => getApiKeys());
+  const [apiKey, setApiKey] = useState(() => getActiveApiKey());
+  const [dataSource, setDataSourceState] = useState<YouTubeDataSource>(() => getDataSource());
+  const [recording, setRecording] = useState(false);
+  const [demoActive, setDemoActive] = useState(false);
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+  const [newKeyName, setNewKeyName] = useState('');
+  const [newKeyValue, setNewKeyValue] = useState('');
   const [query, setQuery] = useState('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({});
   const [loading, setLoading] = useState(false);
   const [data, setData] = useState<AnalyzedData | null>(null);
+  const [videoAnalysis, setVideoAnalysis] = useState<VideoAnalysis | null>(null);
+  const [compareCount, setCompareCount] = useState(20);
   const [savedVideos, setSavedVideos] = useState<VideoItem[]>([]);
   const [zipProgress, setZipProgress] = useState(0);
 
@@ -93,11 +200,18 @@ const YouTubeAnalyzer: React.FC = () => {
   const [minLikes, setMinLikes] = useState<MinLikesOption>(0);
   const [durationRange, setDurationRange] = useState<DurationRange>('all');
   const [sortOption, setSortOption] = useState<SortOption>('popular');
+  // Raw or age-normalized views and likes, for sorting, filters, scores and the schedule heatmap
+  const [metricBasis, setMetricBasis] = useMetricBasis();
 
   const [trendingRegion, setTrendingRegion] = useState('ID');
 
   const [toast, setToast] = useState<ToastState | null>(null);
   const [quotaUsed, setQuotaUsed] = useState(getQuotaUsage());
+  const [cacheBytes, setCacheBytes] = useState(0);
+  const [pendingAnalysis, setPendingAnalysis] = useState<{ query: string; options: SearchOptions; limit: FetchLimit; estimate: number } | null>(null);
+  const [fetchProgress, setFetchProgress] = useState<FetchProgress | null>(null);
+  const [fetchEstimate, setFetchEstimate] = useState(0);
+  const fetchControllerRef = useRef<AbortController | null>(null);
 
   // Video Preview Modal State
   const [previewVideo, setPreviewVideo] = useState<VideoItem | null>(null);
@@ -107,10 +221,19 @@ const YouTubeAnalyzer: React.FC = () => {
   const [selectedVideos, setSelectedVideos] = useState<Set<string>>(new Set());
   const [isSelectMode, setIsSelectMode] = useState(false);
 
+  // Comment Insights Modal State
+  const [commentVideos, setCommentVideos] = useState<VideoItem[] | null>(null);
+
+  // Previous visit to the Watchlist, which marks uploads as new
+  const [watchlistSince, setWatchlistSince] = useState(0);
+
   // Advanced Filtering State
   const [dateRange, setDateRange] = useState<DateRangeFilter>('all');
   const [minER, setMinER] = useState(0);
+  // Minimum multiple of the channel median; 0 keeps unscored videos too
+  const [minOutlier, setMinOutlier] = useState(0);
   const [titleKeyword, setTitleKeyword] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState('all');
 
   const searchInputRef = useRef<HTMLInputElement>(null);
 
@@ -122,6 +245,7 @@ const YouTubeAnalyzer: React.FC = () => {
     },
     onEscape: () => {
       setShowSettings(false);
+      setPendingAnalysis(null);
       setShowFilters(false);
       setMobileNavOpen(false);
       setPreviewVideo(null);
@@ -130,6 +254,14 @@ const YouTubeAnalyzer: React.FC = () => {
     enabled: !previewVideo,
   });
 
+  const loadSavedVideos = () => {
+    try {
+      setSavedVideos(JSON.parse(localStorage.getItem(SAVED_VIDEOS_KEY) || '[]'));
+    } catch {
+      setSavedVideos([]);
+    }
+  };
+
   useEffect(() => {
     if (darkMode) document.documentElement.classList.add('dark');
     else document.documentElement.classList.remove('dark');
@@ -137,66 +269,213 @@ const YouTubeAnalyzer: React.FC = () => {
   }, [darkMode]);
 
   useEffect(() => {
-    const saved = localStorage.getItem('yt_saved_videos');
-    if (saved) try { setSavedVideos(JSON.parse(saved)); } catch (e) {}
+    loadSavedVideos();
 
     const updateQuota = () => setQuotaUsed(getQuotaUsage());
     window.addEventListener('quotaUpdated', updateQuota);
     window.addEventListener('storage', (e) => {
-      if (e.key === 'yt_quota_usage_v1') updateQuota();
+      if (e.key === QUOTA_HISTORY_KEY) updateQuota();
     });
 
+    // Pool edits and mid-fetch rotations both change the active key
+    const updateKeys = () => {
+      setApiKeys(getApiKeys());
+      setApiKey(getActiveApiKey());
+    };
+    window.addEventListener('apiKeysUpdated', updateKeys);
+
+    const updateDataSource = () => {
+      setDataSourceState(getDataSource());
+      setRecording(isRecording());
+      setDemoActive(isDemoActive());
+    };
+    window.addEventListener('dataSourceChanged', updateDataSource);
+
     return () => {
       window.removeEventListener('quotaUpdated', updateQuota);
+      window.removeEventListener('apiKeysUpdated', updateKeys);
+      window.removeEventListener('dataSourceChanged', updateDataSource);
     };
   }, []);
 
+  // Refresh cache size whenever Settings is opened
+  useEffect(() => {
+    if (!showSettings) return;
+    getCacheStats().then(s => setCacheBytes(s.bytes)).catch(() => setCacheBytes(0));
+  }, [showSettings]);
+
+  // Offline sources answer without a key, so any placeholder satisfies the fetch helpers
+  const requestKey = dataSource.requiresKey ? apiKey : OFFLINE_API_KEY;
+
   const showToast = (message: string, type: ToastState['type'] = 'success') => {
     setToast({ message, type });
     if (type !== 'loading') setTimeout(() => setToast(null), 3000);
   };
 
+  // Watched channels are polled in the background whatever view is open
+  const watchlistPoller = useWatchlistPoller({
+    apiKey: requestKey,
+    paused: loading,
+    onAlerts: ({ newUploads, thresholdHits }) => showToast(
+      [
+        newUploads.length && `${newUploads.length} upload baru`,
+        thresholdHits.length && `${thresholdHits.length} video melewati batas views`,
+      ].filter(Boolean).join(', ') + ' di watchlist',
+      'success'
+    ),
+  });
+
+  useEffect(() => {
+    if (mode === 'watchlist') setWatchlistSince(markWatchlistVisited());
+  }, [mode]);
+
+  // Channel-relative outlier multipliers, filled in once a listing has finished loading
+  const { loadingBaselines, missingBaselines, baselineEstimate, loadBaselines } = useOutlierScores({
+    apiKey: requestKey,
+    data,
+    setData,
+    paused: loading,
+  });
+
+  // Start a streamed fetch: results from the previous run are replaced as pages arrive
+  const beginFetch = (estimate: number): AbortController => {
+    const controller = new AbortController();
+    fetchControllerRef.current = controller;
+    setLoading(true);
+    setData(null);
+    setFetchEstimate(estimate);
+    setFetchProgress({ pages: 0, units: 0, videos: 0 });
+    resetServedKeys();
+    return controller;
+  };
+
+  const endFetch = () => {
+    fetchControllerRef.current = null;
+    setLoading(false);
+    setFetchProgress(null);
+  };
+
+  // Stop paging; whatever was already loaded stays in the grid
+  const handleCancelFetch = () => fetchControllerRef.current?.abort();
+
   const handleTrending = async (regionOverride?: string) => {
-    if (!apiKey) {
+    if (!requestKey) {
       setShowSettings(true);
       return showToast("Masukkan API Key terlebih dahulu", "error");
     }
 
     const regionToUse = typeof regionOverride === 'string' ? regionOverride : trendingRegion;
 
-    setLoading(true);
+    const controller = beginFetch(estimatePagedCost('videos', fetchLimit) * 2);
+    setMode('trending');
+    setContentType('all');
+    let loaded = 0;
     try {
-      const result = await fetchTrendingVideos(apiKey, fetchLimit, regionToUse);
-      setData(result);
-      setMode('trending');
-      setContentType('all');
-      showToast(`Trending Topics (${regionToUse}) Dimuat`, "success");
-    } catch (err: any) {
-      showToast(err.message || "Gagal memuat trending", "error");
+      const result = await runWithQuotaFeature('trending', () => fetchTrendingVideos(requestKey, fetchLimit, regionToUse, {
+        signal: controller.signal,
+        onProgress: setFetchProgress,
+        onPartial: (partial) => {
+          loaded = partial.videos.length;
+          setData(partial);
+        },
+      }));
+      setData({ ...result, servedBy: getServedKeyNames() });
+      showToast(`Trending Topics (${regionToUse}) Dimuat${describeFailedChunks(result)}`, result.failedChunks ? "error" : "success");
+    } catch (err) {
+      if (isAbortError(err)) {
+        setData(prev => prev && { ...prev, servedBy: getServedKeyNames() });
+        return showToast(`Dibatalkan, ${loaded} video tetap ditampilkan`, "success");
+      }
+      if (err instanceof KeyInvalidError) setShowSettings(true);
+      showToast(getApiErrorMessage(err, "Gagal memuat trending"), "error");
     } finally {
-      setLoading(false);
+      endFetch();
     }
   };
 
-  const handleAnalyze = async (searchQuery: string) => {
-    if (!apiKey) {
+  // Video links open the single-video view instead of a listing
+  const estimateQueryCost = (searchQuery: string, limit: FetchLimit) =>
+    extractVideoId(searchQuery) ? estimateVideoAnalysisCost(compareCount) : estimateAnalysisCost(searchQuery, limit);
+
+  // Ask for confirmation when the estimated cost exceeds what is left of today's quota
+  const handleAnalyze = (searchQuery: string, options: SearchOptions = searchOptions, limit: FetchLimit = fetchLimit) => {
+    if (!requestKey) {
       setShowSettings(true);
-      return showToast("Masukkan API Key terlebih dahulu", "error");
+      return showToast("Masukkan API Key terlebih dahulu, atau coba mode demo", "error");
     }
-    setLoading(true);
+    const estimate = estimateQueryCost(searchQuery, limit);
+    if (dataSource.requiresKey && estimate > getPoolRemainingQuota()) {
+      setPendingAnalysis({ query: searchQuery, options, limit, estimate });
+      return;
+    }
+    runAnalyze(searchQuery, options, limit);
+  };
+
+  const runAnalyze = async (searchQuery: string, options: SearchOptions, limit: FetchLimit = fetchLimit) => {
+    setPendingAnalysis(null);
+    const videoId = extractVideoId(searchQuery);
+    if (videoId) return runVideoAnalysis(videoId, compareCount);
+
+    const controller = beginFetch(estimateAnalysisCost(searchQuery, limit));
+    setMode('dashboard');
+    setContentType('all');
+    let loaded = 0;
+    try {
+      const result = await runWithQuotaFeature('analyze', () => fetchYouTubeData(requestKey, searchQuery, limit, {
+        signal: controller.signal,
+        onProgress: setFetchProgress,
+        onPartial: (partial) => {
+          loaded = partial.videos.length;
+          setData(partial);
+        },
+        search: options,
+      }));
+      setData({ ...result, servedBy: getServedKeyNames() });
+      // Demo runs stay out of the user's real history, like the saved list
+      const queryType = getQueryType(searchQuery);
+      if (queryType !== 'video' && !isDemoActive()) {
+        addToSearchHistory(searchQuery, queryType, result.videos.length, queryType === 'keyword' ? options : undefined, limit);
+      }
+      showToast(`Berhasil menganalisis ${result.videos.length} video${describeFailedChunks(result)}`, result.failedChunks ? "error" : "success");
+    } catch (err) {
+      if (isAbortError(err)) {
+        setData(prev => prev && { ...prev, servedBy: getServedKeyNames() });
+        return showToast(`Dibatalkan, ${loaded} video tetap ditampilkan`, "success");
+      }
+      if (err instanceof KeyInvalidError) setShowSettings(true);
+      showToast(getApiErrorMessage(err, "Gagal mengambil data"), "error");
+    } finally {
+      endFetch();
+    }
+  };
+
+  const runVideoAnalysis = async (videoId: string, count: number) => {
+    const controller = beginFetch(estimateVideoAnalysisCost(count));
+    setMode('video');
+    setVideoAnalysis(null);
     try {
-      const result = await fetchYouTubeData(apiKey, searchQuery, fetchLimit);
-      setData(result);
-      setMode('dashboard');
-      setContentType('all');
-      showToast(`Berhasil menganalisis ${result.videos.length} video`, "success");
-    } catch (err: any) {
-      showToast(err.message || "Gagal mengambil data", "error");
+      const result = await runWithQuotaFeature('analyze', () => fetchVideoAnalysis(requestKey, videoId, count, {
+        signal: controller.signal,
+        onProgress: setFetchProgress,
+      }));
+      // The uploads it is compared with double as the channel's baseline
+      const [video] = scoreVideos([result.video], { [result.video.channelId]: buildChannelBaseline(result.video.channelId, result.recentUploads) });
+      setVideoAnalysis({ ...result, video });
+      showToast(`Video dibandingkan dengan ${result.recentUploads.length} upload terakhir`, "success");
+    } catch (err) {
+      if (isAbortError(err)) return showToast("Analisis video dibatalkan", "success");
+      if (err instanceof KeyInvalidError) setShowSettings(true);
+      showToast(getApiErrorMessage(err, "Gagal menganalisis video"), "error");
     } finally {
-      setLoading(false);
+      endFetch();
     }
   };
 
+  const handleCompareCountChange = (count: number) => {
+    setCompareCount(count);
+    if (videoAnalysis) runVideoAnalysis(videoAnalysis.video.id, count);
+  };
+
   const handleBulkCopy = () => {
     if (filteredVideos.length === 0) return;
     const links = filteredVideos.map(v => `https://www.youtube.com/watch?v=${v.id}`).join('\n');
@@ -220,19 +499,97 @@ const YouTubeAnalyzer: React.FC = () => {
     }
   };
 
-  const saveApiKey = (key: string) => {
-    setApiKey(key);
-    localStorage.setItem('yt_api_key_v5', key);
-    setShowSettings(false);
+  const handleClearCache = async () => {
+    try {
+      await clearCache();
+      setCacheBytes(0);
+      showToast("Cache berhasil dihapus", "success");
+    } catch (e) {
+      showToast("Gagal menghapus cache", "error");
+    }
+  };
+
+  // Run every analyzer against the bundled sample set, no API key needed
+  const handleStartDemo = async () => {
+    try {
+      await startDemo();
+      setShowSettings(false);
+      setSavedVideos(await getDemoSavedVideos(OFFLINE_API_KEY));
+      setQuery(DEMO_QUERY);
+      runAnalyze(DEMO_QUERY, {});
+    } catch (err) {
+      showToast(getApiErrorMessage(err, "Gagal memuat data demo"), "error");
+    }
+  };
+
+  const handleExitDemo = () => {
+    activateLiveDataSource();
+    loadSavedVideos();
+    setData(null);
+    setQuery('');
+    setMode('dashboard');
+  };
+
+  const handleLoadFixture = async (file: File) => {
+    try {
+      const fixture = parseFixture(await file.text());
+      activateFixtureDataSource(fixture);
+      setData(null);
+      showToast(`Fixture "${fixture.name}" dimuat, aplikasi berjalan offline`, "success");
+    } catch (err) {
+      showToast(getApiErrorMessage(err, "Gagal membaca file fixture"), "error");
+    }
+  };
+
+  const handleToggleRecording = () => {
+    if (!isRecording()) {
+      startRecording(`session-${new Date().toISOString().slice(0, 10)}`);
+      return showToast("Merekam respons API ke fixture...", "success");
+    }
+    const fixture = stopRecording();
+    const count = fixture ? Object.keys(fixture.responses).length : 0;
+    if (!fixture || !count) return showToast("Tidak ada respons yang terekam", "error");
+    downloadFixture(fixture);
+    showToast(`${count} respons disimpan sebagai fixture`, "success");
+  };
+
+  const handleAddApiKey = () => {
+    if (!newKeyValue.trim()) return;
+    addApiKey(newKeyName, newKeyValue);
+    setNewKeyName('');
+    setNewKeyValue('');
     showToast("API Key tersimpan", "success");
   };
 
+  const handleSaveSettings = () => {
+    handleAddApiKey();
+    setShowSettings(false);
+  };
+
+  // Categories present in the current results, for the category filter
+  const categoryOptions = useMemo(() => {
+    const source = mode === 'saved' ? savedVideos : (data?.videos || []);
+    return Array.from(new Set(source.map(v => v.categoryName).filter(Boolean))).sort();
+  }, [data, savedVideos, mode]);
+
+  // A new result set may not contain the selected category any more
+  useEffect(() => {
+    if (categoryFilter !== 'all' && !categoryOptions.includes(categoryFilter)) setCategoryFilter('all');
+  }, [categoryOptions, categoryFilter]);
+
+  // Thresholds of one basis mean nothing on another
+  useEffect(() => {
+    setMinViews(0);
+    setMinLikes(0);
+  }, [metricBasis]);
+
   const filteredVideos = useMemo(() => {
     let source = mode === 'saved' ? savedVideos : (data?.videos || []);
+    const now = Date.now();
 
     let result = source.filter(v => {
-      const matchViews = v.viewCountRaw >= minViews;
-      const matchLikes = v.likeCountRaw >= minLikes;
+      const matchViews = getViewMetric(v, metricBasis, now) >= minViews;
+      const matchLikes = getLikeMetric(v, metricBasis, now) >= minLikes;
 
       let matchDuration = true;
       if (durationRange === 'under_1') matchDuration = v.durationSec < 60;
@@ -240,9 +597,8 @@ const YouTubeAnalyzer: React.FC = () => {
       else if (durationRange === '5_20') matchDuration = v.durationSec > 300 && v.durationSec <= 1200;
       else if (durationRange === 'over_20') matchDuration = v.durationSec > 1200;
 
-      let matchType = true;
-      if (contentType === 'shorts') matchType = v.isShort;
-      if (contentType === 'long') matchType = !v.isShort;
+      const typeFilter = CONTENT_TYPE_FILTERS.find(f => f.value === contentType);
+      const matchType = !typeFilter?.type || getContentType(v) === typeFilter.type;
 
       // Advanced filters - Date Range
       let matchDate = true;
@@ -263,18 +619,28 @@ const YouTubeAnalyzer: React.FC = () => {
       const matchKeyword = titleKeyword.trim() === '' || 
         v.title.toLowerCase().includes(titleKeyword.toLowerCase());
 
-      return matchViews && matchLikes && matchDuration && matchType && matchDate && matchER && matchKeyword;
+      // Advanced filters - YouTube Category
+      const matchCategory = categoryFilter === 'all' || v.categoryName === categoryFilter;
+
+      // Advanced filters - Channel-relative outlier multiplier
+      const matchOutlier = minOutlier === 0 || (v.outlierMultiplier ?? 0) >= minOutlier;
+
+      return matchViews && matchLikes && matchDuration && matchType && matchDate && matchER && matchKeyword && matchCategory && matchOutlier;
     });
 
     return [...result].sort((a, b) => {
-      if (sortOption === 'popular') return b.viewCountRaw - a.viewCountRaw;
-      if (sortOption === 'most_liked') return b.likeCountRaw - a.likeCountRaw;
+      if (sortOption === 'popular') return getViewMetric(b, metricBasis, now) - getViewMetric(a, metricBasis, now);
+      if (sortOption === 'most_liked') return getLikeMetric(b, metricBasis, now) - getLikeMetric(a, metricBasis, now);
       if (sortOption === 'highest_er') return b.engagementRate - a.engagementRate;
+      // Unscored videos sink below every scored one
+      if (sortOption === 'outlier') return (b.outlierMultiplier ?? -1) - (a.outlierMultiplier ?? -1);
       if (sortOption === 'newest') return new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime();
       if (sortOption === 'oldest') return new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime();
       return 0;
     });
-  }, [data, savedVideos, mode, contentType, minViews, minLikes, durationRange, sortOption, dateRange, minER, titleKeyword]);
+  }, [data, savedVideos, mode, contentType, minViews, minLikes, durationRange, sortOption, dateRange, minER, titleKeyword, categoryFilter, minOutlier, metricBasis]);
+
+  const viewHistories = useViewHistories(filteredVideos);
 
   // Batch selection handlers
   const handleSelectVideo = useCallback((videoId: string) => {
@@ -308,7 +674,7 @@ const YouTubeAnalyzer: React.FC = () => {
     const newVideos = videosToSave.filter(v => !existing.has(v.id));
     const updated = [...newVideos, ...savedVideos];
     setSavedVideos(updated);
-    localStorage.setItem('yt_saved_videos', JSON.stringify(updated));
+    persistSavedVideos(updated);
     showToast(`${newVideos.length} video berhasil disimpan`, "success");
     clearSelection();
   }, [filteredVideos, selectedVideos, savedVideos, clearSelection]);
@@ -340,6 +706,10 @@ const YouTubeAnalyzer: React.FC = () => {
     showToast(`${selectedList.length} video diekspor ke CSV`, "success");
   }, [filteredVideos, selectedVideos]);
 
+  const handleBatchComments = useCallback(() => {
+    setCommentVideos(filteredVideos.filter(v => selectedVideos.has(v.id)));
+  }, [filteredVideos, selectedVideos]);
+
   // PDF Export handler
   const handleExportPDF = useCallback(async () => {
     if (!data) return;
@@ -357,10 +727,14 @@ const YouTubeAnalyzer: React.FC = () => {
     }
   }, [data]);
 
-  // Search History replay handler  
-  const handleSearchFromHistory = useCallback((searchQuery: string) => {
+  // Search History replay handler; goes through a ref so it always runs the current handleAnalyze
+  const handleAnalyzeRef = useRef(handleAnalyze);
+  handleAnalyzeRef.current = handleAnalyze;
+  const handleSearchFromHistory = useCallback((searchQuery: string, options: SearchOptions = {}, limit?: FetchLimit) => {
     setQuery(searchQuery);
-    handleAnalyze(searchQuery);
+    setSearchOptions(options);
+    if (limit) setFetchLimit(limit);
+    handleAnalyzeRef.current(searchQuery, options, limit);
   }, []);
 
   // Video Preview handlers
@@ -390,7 +764,7 @@ const YouTubeAnalyzer: React.FC = () => {
     const exists = savedVideos.some(sv => sv.id === video.id);
     const next = exists ? savedVideos.filter(sv => sv.id !== video.id) : [video, ...savedVideos];
     setSavedVideos(next);
-    localStorage.setItem('yt_saved_videos', JSON.stringify(next));
+    persistSavedVideos(next);
   }, [savedVideos]);
 
   return (
@@ -432,11 +806,25 @@ const YouTubeAnalyzer: React.FC = () => {
           </span>
         </div>
 
-        <div className="hidden md:flex flex-1 max-w-2xl mx-12">
-          <SearchBar query={query} setQuery={setQuery} onSearch={handleAnalyze} />
+        <div className="hidden md:flex flex-1 items-center gap-2 max-w-2xl mx-12">
+          <SearchBar query={query} setQuery={setQuery} onSearch={(q) => handleAnalyze(q)} />
+          <SearchOptionsPanel options={searchOptions} onChange={setSearchOptions} regions={TRENDING_REGIONS} />
         </div>
 
         <div className="flex items-center gap-2 md:gap-3">
+          <div className="hidden lg:flex items-center p-0.5 bg-secondary rounded-xl" title="Basis views & likes: total atau disetarakan dengan usia video">
+            {METRIC_BASES.map(b => (
+              <button
+                key={b.value}
+                onClick={() => setMetricBasis(b.value)}
+                className={`px-2.5 py-1 rounded-lg text-[10px] font-bold transition-all ${
+                  metricBasis === b.value ? 'bg-card text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {b.label}
+              </button>
+            ))}
+          </div>
           <motion.button 
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
@@ -453,7 +841,11 @@ const YouTubeAnalyzer: React.FC = () => {
           >
             <IconSettings className="w-4 h-4 text-muted-foreground" />
           </motion.button>
-          <div className="hidden sm:block text-right ml-2">
+          <div 
+            className="hidden sm:block text-right ml-2 cursor-pointer" 
+            onClick={() => setMode('quota')}
+            title="Lihat riwayat kuota"
+          >
             <span className="block text-[9px] font-black text-muted-foreground uppercase">Quota Usage</span>
             <div className="w-20 h-1.5 bg-secondary rounded-full mt-1 overflow-hidden border border-border">
               <motion.div 
@@ -482,9 +874,25 @@ const YouTubeAnalyzer: React.FC = () => {
 
       {/* Main Content */}
       <main className="pt-14 pb-20 md:pb-0 md:pl-[240px]">
+        {/* Demo Banner */}
+        {demoActive && (
+          <div className="px-4 md:px-8 py-2 bg-amber-500/10 border-b border-amber-500/20 flex items-center justify-between gap-4">
+            <p className="text-xs font-bold text-amber-700 dark:text-amber-400">
+              DEMO DATA — Data contoh bawaan, bukan data YouTube langsung. Angka dan video bersifat fiktif.
+            </p>
+            <button
+              onClick={handleExitDemo}
+              className="px-3 py-1 rounded-lg text-xs font-bold text-amber-700 dark:text-amber-400 hover:bg-amber-500/10 whitespace-nowrap transition-colors"
+            >
+              Keluar Demo
+            </button>
+          </div>
+        )}
+
         {/* Mobile Search Bar */}
-        <div className="md:hidden px-4 py-3 border-b border-border">
-          <SearchBar query={query} setQuery={setQuery} onSearch={handleAnalyze} />
+        <div className="md:hidden px-4 py-3 border-b border-border flex items-center gap-2">
+          <SearchBar query={query} setQuery={setQuery} onSearch={(q) => handleAnalyze(q)} />
+          <SearchOptionsPanel options={searchOptions} onChange={setSearchOptions} regions={TRENDING_REGIONS} />
         </div>
 
         {/* Filter Bar */}
@@ -497,19 +905,19 @@ const YouTubeAnalyzer: React.FC = () => {
             <div className="flex items-center gap-3 overflow-x-auto no-scrollbar pb-1">
               {/* Content Type Filter */}
               <div className="flex items-center gap-2 p-1 bg-secondary rounded-xl">
-                {(['all', 'long', 'shorts'] as ContentTypeFilter[]).map((f) => (
+                {CONTENT_TYPE_FILTERS.map((f) => (
                   <motion.button
-                    key={f}
+                    key={f.value}
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
-                    onClick={() => setContentType(f)}
+                    onClick={() => setContentType(f.value)}
                     className={`px-4 py-1 rounded-lg text-xs font-bold whitespace-nowrap transition-all duration-300 ${
-                      contentType === f 
+                      contentType === f.value 
                         ? 'bg-card text-foreground shadow-sm' 
                         : 'text-muted-foreground hover:text-foreground'
                     }`}
                   >
-                    {f === 'all' ? 'All' : f === 'long' ? 'Long' : 'Shorts'}
+                    {f.label}
                   </motion.button>
                 ))}
               </div>
@@ -540,6 +948,16 @@ const YouTubeAnalyzer: React.FC = () => {
                   </motion.div>
                 )}
               </AnimatePresence>
+
+              {/* Key(s) that served the current results */}
+              {data?.servedBy?.length > 0 && (mode === 'dashboard' || mode === 'trending') && (
+                <span
+                  className="px-3 py-1 bg-secondary rounded-xl text-[10px] font-bold text-muted-foreground whitespace-nowrap"
+                  title="API Key yang melayani analisis ini"
+                >
+                  Key: {data.servedBy.join(' → ')}
+                </span>
+              )}
             </div>
 
             <div className="flex items-center gap-2">
@@ -620,7 +1038,9 @@ const YouTubeAnalyzer: React.FC = () => {
               >
                 <div className="mt-4 pt-4 border-t border-border grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
                   <div className="flex flex-col gap-1.5">
-                    <label className="text-[10px] font-black text-muted-foreground uppercase tracking-widest">Fetch Limit</label>
+                    <label className="text-[10px] font-black text-muted-foreground uppercase tracking-widest">
+                      Fetch Limit <span className="normal-case tracking-normal font-bold">(≈{estimateAnalysisCost(query, fetchLimit).toLocaleString()} units)</span>
+                    </label>
                     <select
                       value={fetchLimit}
                       onChange={(e) => setFetchLimit(Number(e.target.value) as FetchLimit)}
@@ -642,9 +1062,21 @@ const YouTubeAnalyzer: React.FC = () => {
                       className="bg-secondary border border-border rounded-xl px-3 py-2 text-xs font-bold"
                     >
                       <option value={0}>Semua Views</option>
-                      <option value={1000000}>1M+ Views</option>
-                      <option value={5000000}>5M+ Views</option>
-                      <option value={10000000}>10M+ Views</option>
+                      {MIN_VIEWS_OPTIONS[metricBasis].map(o => (
+                        <option key={o.value} value={o.value}>{o.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex flex-col gap-1.5 lg:hidden">
+                    <label className="text-[10px] font-black text-muted-foreground uppercase tracking-widest">Basis Metrik</label>
+                    <select
+                      value={metricBasis}
+                      onChange={(e) => setMetricBasis(e.target.value as MetricBasis)}
+                      className="bg-secondary border border-border rounded-xl px-3 py-2 text-xs font-bold"
+                    >
+                      {METRIC_BASES.map(b => (
+                        <option key={b.value} value={b.value}>{b.label}</option>
+                      ))}
                     </select>
                   </div>
                   <div className="flex flex-col gap-1.5">
@@ -654,8 +1086,9 @@ const YouTubeAnalyzer: React.FC = () => {
                       onChange={(e) => setSortOption(e.target.value as SortOption)} 
                       className="bg-secondary border border-border rounded-xl px-3 py-2 text-xs font-bold"
                     >
-                      <option value="popular">Terpopuler</option>
+                      <option value="popular">{metricBasis === 'raw' ? 'Terpopuler' : 'Terpopuler (Usia Disetarakan)'}</option>
                       <option value="highest_er">ER% Tertinggi</option>
+                      <option value="outlier">Outlier (x Median Channel)</option>
                       <option value="newest">Terbaru</option>
                     </select>
                   </div>
@@ -711,6 +1144,34 @@ const YouTubeAnalyzer: React.FC = () => {
                       className="bg-secondary border-border rounded-xl text-xs"
                     />
                   </div>
+                  {/* Advanced Filter: Outlier Multiplier */}
+                  <div className="flex flex-col gap-1.5 md:w-48">
+                    <label className="text-[10px] font-black text-muted-foreground uppercase tracking-widest">Min Outlier</label>
+                    <select
+                      value={minOutlier}
+                      onChange={(e) => setMinOutlier(Number(e.target.value))}
+                      className="bg-secondary border border-border rounded-xl px-3 py-2 text-xs font-bold"
+                    >
+                      <option value={0}>Semua Video</option>
+                      {OUTLIER_FILTERS.map(m => (
+                        <option key={m} value={m}>{m}x+ median channel</option>
+                      ))}
+                    </select>
+                  </div>
+                  {/* Advanced Filter: Category */}
+                  <div className="flex flex-col gap-1.5 md:w-56">
+                    <label className="text-[10px] font-black text-muted-foreground uppercase tracking-widest">Category</label>
+                    <select
+                      value={categoryFilter}
+                      onChange={(e) => setCategoryFilter(e.target.value)}
+                      className="bg-secondary border border-border rounded-xl px-3 py-2 text-xs font-bold"
+                    >
+                      <option value="all">Semua Kategori</option>
+                      {categoryOptions.map(name => (
+                        <option key={name} value={name}>{name}</option>
+                      ))}
+                    </select>
+                  </div>
                   {/* Batch Select Toggle */}
                   <div className="flex items-end gap-2">
                     <motion.button
@@ -747,8 +1208,65 @@ const YouTubeAnalyzer: React.FC = () => {
 
         {/* Content Area */}
         <div className="p-4 md:p-8">
+          {/* Fetch Progress */}
+          <AnimatePresence>
+            {fetchProgress && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+                className="mb-6 p-4 bg-card border border-border rounded-2xl flex items-center gap-4"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2 text-xs font-bold">
+                    <span className="text-foreground">Memuat {fetchProgress.videos.toLocaleString()} video...</span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {fetchProgress.pages} pages · {fetchProgress.units.toLocaleString()} / ≈{fetchEstimate.toLocaleString()} units
+                    </span>
+                  </div>
+                  <div className="w-full h-1.5 bg-secondary rounded-full mt-2 overflow-hidden">
+                    <motion.div
+                      className="h-full bg-primary"
+                      animate={{ width: `${fetchEstimate ? Math.min((fetchProgress.units / fetchEstimate) * 100, 100) : 0}%` }}
+                      transition={{ duration: 0.3, ease: 'easeOut' }}
+                    />
+                  </div>
+                </div>
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={handleCancelFetch}
+                  className="px-4 py-2 rounded-xl text-xs font-bold border bg-destructive/10 border-destructive/20 text-destructive hover:bg-destructive/20 transition-all"
+                >
+                  Cancel
+                </motion.button>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {!loading && (loadingBaselines || missingBaselines > 0) && (mode === 'dashboard' || mode === 'trending') && (
+            <div className="mb-4 text-xs text-muted-foreground flex flex-wrap items-center gap-2">
+              {loadingBaselines ? (
+                <>
+                  <IconLoader className="w-3.5 h-3.5" />
+                  Memuat baseline channel untuk skor outlier...
+                </>
+              ) : (
+                <>
+                  <span>{missingBaselines} channel belum punya baseline, videonya belum diberi skor outlier.</span>
+                  <button
+                    onClick={loadBaselines}
+                    className="px-3 py-1 rounded-lg border border-border bg-card font-bold text-foreground hover:bg-accent transition-all"
+                  >
+                    Muat baseline{dataSource.requiresKey && ` (≈${baselineEstimate.toLocaleString()} units)`}
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
           <AnimatePresence mode="wait">
-            {loading ? (
+            {loading && !data?.videos?.length ? (
               <motion.div 
                 key="loading"
                 initial={{ opacity: 0 }}
@@ -767,7 +1285,10 @@ const YouTubeAnalyzer: React.FC = () => {
                 transition={{ type: 'spring', stiffness: 300, damping: 30 }}
               >
                 {mode === 'benchmark' ? (
-                  <CompetitorBenchmark apiKey={apiKey} />
+                  <CompetitorBenchmark
+                    apiKey={requestKey}
+                    initialChannels={demoActive ? DEMO_BENCHMARK_CHANNELS : undefined}
+                  />
                 ) : mode === 'insights' ? (
                   data ? <InsightsDashboard videos={data.videos} stats={data.channelStats} /> : (
                     <div className="text-center py-20 text-muted-foreground font-medium italic">
@@ -778,7 +1299,7 @@ const YouTubeAnalyzer: React.FC = () => {
                   data?.videos?.length ? (
                     <ContentGapAnalyzer 
                       channelVideos={data.videos} 
-                      apiKey={apiKey}
+                      apiKey={requestKey}
                       onToast={showToast}
                     />
                   ) : (
@@ -787,7 +1308,7 @@ const YouTubeAnalyzer: React.FC = () => {
                     </div>
                   )
                 ) : mode === 'schedule' ? (
-                  data?.videos?.length ? <UploadScheduleAnalyzer videos={data.videos} /> : (
+                  data?.videos?.length ? <UploadScheduleAnalyzer videos={data.videos} country={data.channelStats?.country} channelId={data.channelId} channelTitle={data.channelTitle} /> : (
                     <div className="text-center py-20 text-muted-foreground font-medium italic">
                       Silakan analyze konten terlebih dahulu untuk Upload Schedule Analysis.
                     </div>
@@ -802,6 +1323,42 @@ const YouTubeAnalyzer: React.FC = () => {
                   <SearchHistoryPage onSearch={handleSearchFromHistory} onToast={showToast} />
                 ) : mode === 'downloader' ? (
                   <DownloaderPage />
+                ) : mode === 'quota' ? (
+                  <QuotaDashboard />
+                ) : mode === 'watchlist' ? (
+                  <WatchlistPage
+                    apiKey={requestKey}
+                    watchlist={watchlistPoller.watchlist}
+                    uploads={watchlistPoller.uploads}
+                    since={watchlistSince}
+                    polling={watchlistPoller.polling}
+                    lastPolledAt={watchlistPoller.lastPolledAt}
+                    failedChannels={watchlistPoller.failedChannels}
+                    error={watchlistPoller.error}
+                    onPollNow={watchlistPoller.poll}
+                    onOpenChannel={(channelId) => {
+                      setQuery(channelId);
+                      handleAnalyze(channelId);
+                    }}
+                    onPreview={setPreviewVideo}
+                    onSaveToggle={handleSaveToggle}
+                    savedIds={new Set(savedVideos.map(sv => sv.id))}
+                    onToast={showToast}
+                  />
+                ) : mode === 'video' ? (
+                  videoAnalysis ? (
+                    <VideoAnalysisView
+                      analysis={videoAnalysis}
+                      compareCount={compareCount}
+                      onCompareCountChange={handleCompareCountChange}
+                      onPreview={setPreviewVideo}
+                      onAnalyzeComments={(video) => setCommentVideos([video])}
+                    />
+                  ) : (
+                    <div className="text-center py-20 text-muted-foreground font-medium italic">
+                      Tempel link video YouTube untuk analisis satu video.
+                    </div>
+                  )
                 ) : (
                   <>
                     {/* Select All Checkbox when in Select Mode */}
@@ -826,8 +1383,20 @@ const YouTubeAnalyzer: React.FC = () => {
                       >
                         {mode === 'dashboard' && !data 
                           ? 'Masukkan link channel, playlist, atau kata kunci untuk mulai menganalisis.' 
-                          : `Data tidak ditemukan untuk kategori "${contentType === 'all' ? 'Semua Konten' : contentType === 'long' ? 'Video Panjang' : 'Shorts'}".`
+                          : `Data tidak ditemukan untuk kategori "${CONTENT_TYPE_FILTERS.find(f => f.value === contentType)?.name}".`
                         }
+                        {mode === 'dashboard' && !data && !requestKey && (
+                          <div className="mt-4 not-italic">
+                            <motion.button
+                              whileHover={{ scale: 1.02 }}
+                              whileTap={{ scale: 0.98 }}
+                              onClick={handleStartDemo}
+                              className="px-5 py-2.5 bg-primary text-primary-foreground rounded-2xl text-sm font-bold shadow-lg shadow-primary/20 hover:bg-primary/90 transition-all duration-300"
+                            >
+                              Coba Demo Tanpa API Key
+                            </motion.button>
+                          </div>
+                        )}
                       </motion.div>
                     )}
                     <div className={`grid gap-6 ${
@@ -847,6 +1416,7 @@ const YouTubeAnalyzer: React.FC = () => {
                           showCheckbox={isSelectMode}
                           isSelected={selectedVideos.has(v.id)}
                           onSelect={handleSelectVideo}
+                          history={viewHistories.get(v.id)}
                         />
                       ))}
                     </div>
@@ -872,6 +1442,13 @@ const YouTubeAnalyzer: React.FC = () => {
         onFetchTrending={() => handleTrending()}
       />
 
+      <CommentInsightsModal
+        videos={commentVideos}
+        apiKey={requestKey}
+        onClose={() => setCommentVideos(null)}
+        onToast={showToast}
+      />
+
       {/* Selection Toolbar - Fixed at bottom when selecting */}
       <AnimatePresence>
         {isSelectMode && selectedVideos.size > 0 && (
@@ -908,6 +1485,15 @@ const YouTubeAnalyzer: React.FC = () => {
                 <IconDescription className="w-4 h-4" />
                 CSV
               </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={handleBatchComments}
+                className="flex items-center gap-2 px-4 py-2 bg-secondary text-foreground rounded-xl text-xs font-bold border border-border"
+              >
+                <IconSparkles className="w-4 h-4" />
+                Comments
+              </motion.button>
               <motion.button
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
@@ -953,6 +1539,51 @@ const YouTubeAnalyzer: React.FC = () => {
         hasPrev={previewIndex > 0}
       />
 
+      {/* Quota Confirmation Modal */}
+      <AnimatePresence>
+        {pendingAnalysis && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[250] flex items-center justify-center p-6 bg-black/60 backdrop-blur-sm"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, opacity: 0, y: 20 }}
+              animate={{ scale: 1, opacity: 1, y: 0 }}
+              exit={{ scale: 0.9, opacity: 0, y: 20 }}
+              transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+              className="bg-card w-full max-w-md rounded-3xl p-8 shadow-premium-lg border border-border"
+            >
+              <h2 className="text-2xl font-black text-foreground mb-2 tracking-tight">Kuota Tidak Cukup</h2>
+              <p className="text-sm text-muted-foreground">
+                Analisis ini diperkirakan memakai <strong className="text-foreground">±{pendingAnalysis.estimate.toLocaleString()} units</strong>,
+                sedangkan sisa kuota hari ini <strong className="text-foreground">{getPoolRemainingQuota().toLocaleString()} units</strong>.
+                Request bisa berhenti di tengah jalan saat kuota habis.
+              </p>
+              <div className="flex gap-3 pt-6">
+                <motion.button 
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => setPendingAnalysis(null)} 
+                  className="flex-1 px-6 py-3 rounded-2xl text-sm font-bold text-muted-foreground hover:bg-accent transition-all duration-300"
+                >
+                  Cancel
+                </motion.button>
+                <motion.button 
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => runAnalyze(pendingAnalysis.query, pendingAnalysis.options, pendingAnalysis.limit)} 
+                  className="flex-1 px-6 py-3 bg-primary text-primary-foreground rounded-2xl text-sm font-bold shadow-lg shadow-primary/20 hover:bg-primary/90 transition-all duration-300"
+                >
+                  Lanjutkan
+                </motion.button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Settings Modal */}
       <AnimatePresence>
         {showSettings && (
@@ -967,19 +1598,177 @@ const YouTubeAnalyzer: React.FC = () => {
               animate={{ scale: 1, opacity: 1, y: 0 }}
               exit={{ scale: 0.9, opacity: 0, y: 20 }}
               transition={{ type: 'spring', stiffness: 300, damping: 30 }}
-              className="bg-card w-full max-w-md rounded-3xl p-8 shadow-premium-lg border border-border"
+              className="bg-card w-full max-w-md max-h-[90vh] overflow-y-auto rounded-3xl p-8 shadow-premium-lg border border-border"
             >
               <h2 className="text-2xl font-black text-foreground mb-2 tracking-tight">Settings</h2>
               <p className="text-sm text-muted-foreground mb-6">
-                Masukkan YouTube API Key untuk menggunakan aplikasi ini.
+                Masukkan satu atau lebih YouTube API Key. Saat kuota satu key habis, key berikutnya dipakai otomatis.
               </p>
-              <input 
-                type="password" 
-                value={apiKey} 
-                onChange={(e) => setApiKey(e.target.value)} 
-                className="w-full bg-secondary border border-border rounded-2xl px-4 py-3 text-sm focus:ring-2 ring-primary/20 outline-none text-foreground placeholder:text-muted-foreground transition-all duration-300" 
-                placeholder="YouTube API Key" 
-              />
+
+              {/* Demo Shortcut */}
+              {!apiKeys.length && !demoActive && (
+                <div className="mb-4 p-4 bg-primary/5 border border-primary/20 rounded-2xl flex items-center justify-between gap-4">
+                  <p className="text-xs text-muted-foreground">Belum punya API Key? Coba semua fitur dengan data contoh.</p>
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={handleStartDemo}
+                    className="px-4 py-2 rounded-xl text-xs font-bold bg-primary text-primary-foreground hover:bg-primary/90 whitespace-nowrap transition-all"
+                  >
+                    Try Demo
+                  </motion.button>
+                </div>
+              )}
+
+              {/* API Key Pool */}
+              {apiKeys.length > 0 && (
+                <div className="space-y-2 mb-4">
+                  {apiKeys.map((k, i) => {
+                    const exhausted = isKeyExhausted(k.id);
+                    const used = getKeyQuotaUsage(k.id);
+                    return (
+                      <div key={k.id} className="p-3 bg-secondary/50 rounded-2xl">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="min-w-0">
+                            <p className="text-sm font-bold text-foreground truncate">
+                              {k.name}
+                              {exhausted && <span className="ml-2 text-[10px] text-destructive uppercase tracking-widest">Habis</span>}
+                              {!exhausted && k.key === apiKey && <span className="ml-2 text-[10px] text-primary uppercase tracking-widest">Aktif</span>}
+                            </p>
+                            <p className="text-[10px] font-mono text-muted-foreground">{maskApiKey(k.key)}</p>
+                          </div>
+                          <div className="flex items-center gap-1 shrink-0">
+                            {i > 0 && (
+                              <button
+                                onClick={() => promoteApiKey(k.id)}
+                                className="px-2 py-1 rounded-lg text-xs font-bold text-muted-foreground hover:bg-accent transition-colors"
+                                title="Naikkan prioritas"
+                              >
+                                ↑
+                              </button>
+                            )}
+                            <button
+                              onClick={() => removeApiKey(k.id)}
+                              className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                              title="Hapus key"
+                            >
+                              <IconClose className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2 mt-2">
+                          <div className="flex-1 h-1.5 bg-secondary rounded-full overflow-hidden">
+                            <div
+                              className={`h-full ${exhausted ? 'bg-destructive' : 'bg-primary'}`}
+                              style={{ width: `${exhausted ? 100 : Math.min((used / QUOTA_LIMIT) * 100, 100)}%` }}
+                            />
+                          </div>
+                          <span className="text-[10px] font-bold text-muted-foreground">{used.toLocaleString()} / {QUOTA_LIMIT.toLocaleString()}</span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <input 
+                  type="text" 
+                  value={newKeyName} 
+                  onChange={(e) => setNewKeyName(e.target.value)} 
+                  className="w-full bg-secondary border border-border rounded-2xl px-4 py-3 text-sm focus:ring-2 ring-primary/20 outline-none text-foreground placeholder:text-muted-foreground transition-all duration-300" 
+                  placeholder="Nama key (mis. Project A)" 
+                />
+                <div className="flex gap-2">
+                  <input 
+                    type="password" 
+                    value={newKeyValue} 
+                    onChange={(e) => setNewKeyValue(e.target.value)} 
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddApiKey()}
+                    className="flex-1 bg-secondary border border-border rounded-2xl px-4 py-3 text-sm focus:ring-2 ring-primary/20 outline-none text-foreground placeholder:text-muted-foreground transition-all duration-300" 
+                    placeholder="YouTube API Key" 
+                  />
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={handleAddApiKey}
+                    disabled={!newKeyValue.trim()}
+                    className="px-4 rounded-2xl text-xs font-bold border bg-primary/10 border-primary/20 text-primary hover:bg-primary/20 disabled:opacity-50 transition-all"
+                  >
+                    Add
+                  </motion.button>
+                </div>
+              </div>
+
+              {/* Data Source */}
+              <div className="mt-6 p-4 bg-secondary/50 rounded-2xl">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-widest">Data Source</h3>
+                    <p className="text-sm font-bold text-foreground mt-1 truncate">{dataSource.name}</p>
+                  </div>
+                  {!dataSource.requiresKey && (
+                    <motion.button
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      onClick={activateLiveDataSource}
+                      className="px-4 py-2 rounded-xl text-xs font-bold border bg-card border-border text-foreground hover:bg-accent transition-all"
+                    >
+                      Use Live API
+                    </motion.button>
+                  )}
+                </div>
+                <div className="flex gap-2 mt-3">
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={() => fixtureInputRef.current?.click()}
+                    className="flex-1 px-4 py-2 rounded-xl text-xs font-bold border bg-card border-border text-foreground hover:bg-accent transition-all"
+                  >
+                    Load Fixture
+                  </motion.button>
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={handleToggleRecording}
+                    disabled={!recording && !dataSource.requiresKey}
+                    className={`flex-1 px-4 py-2 rounded-xl text-xs font-bold border transition-all disabled:opacity-50 ${
+                      recording
+                        ? 'bg-destructive/10 border-destructive/20 text-destructive hover:bg-destructive/20'
+                        : 'bg-card border-border text-foreground hover:bg-accent'
+                    }`}
+                  >
+                    {recording ? 'Stop & Download' : 'Record Session'}
+                  </motion.button>
+                </div>
+                <input
+                  ref={fixtureInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleLoadFixture(file);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+
+              {/* Response Cache */}
+              <div className="mt-6 p-4 bg-secondary/50 rounded-2xl flex items-center justify-between gap-4">
+                <div>
+                  <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-widest">Response Cache</h3>
+                  <p className="text-sm font-bold text-foreground mt-1">{(cacheBytes / (1024 * 1024)).toFixed(1)} MB</p>
+                </div>
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={handleClearCache}
+                  className="px-4 py-2 rounded-xl text-xs font-bold border bg-destructive/10 border-destructive/20 text-destructive hover:bg-destructive/20 transition-all"
+                >
+                  Clear Cache
+                </motion.button>
+              </div>
               
               {/* Keyboard Shortcuts Info */}
               <div className="mt-6 p-4 bg-secondary/50 rounded-2xl">
@@ -1016,10 +1805,10 @@ const YouTubeAnalyzer: React.FC = () => {
                 <motion.button 
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
-                  onClick={() => saveApiKey(apiKey)} 
+                  onClick={handleSaveSettings} 
                   className="flex-1 px-6 py-3 bg-primary text-primary-foreground rounded-2xl text-sm font-bold shadow-lg shadow-primary/20 hover:bg-primary/90 transition-all duration-300"
                 >
-                  Save Key
+                  Save
                 </motion.button>
               </div>
             </motion.div>
@@ -0,0 +1,72 @@
+// Age Metrics Service - Per-day and first-30-days metrics, and the app-wide choice between raw and age-normalized counts
+
+import { VideoItem } from '../types';
+
+const BASIS_STORAGE = 'yt_metric_basis_v1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Window of the early-performance estimate
+export const FIRST_WINDOW_DAYS = 30;
+// Cumulative views are assumed to grow like age^k: fast at first, slowing down later
+const GROWTH_EXPONENT = 0.5;
+
+// raw: lifetime counts; per_day: counts divided by age; first_30d: counts projected to day 30
+export type MetricBasis = 'raw' | 'per_day' | 'first_30d';
+
+export const METRIC_BASES: Array<{ value: MetricBasis; label: string; short: string }> = [
+  { value: 'raw', label: 'Total', short: '' },
+  { value: 'per_day', label: 'Per Hari', short: '/hari' },
+  { value: 'first_30d', label: 'Est. 30 Hari', short: ' (30h)' },
+];
+
+// --- DERIVED METRICS ---
+// Age in days, at least one, so videos from the last hours don't get runaway rates
+export const getVideoAgeDays = (video: VideoItem, now: number = Date.now()): number =>
+  Math.max(1, (now - Date.parse(video.publishedAt)) / DAY_MS);
+
+export const getViewsPerDay = (video: VideoItem, now: number = Date.now()): number =>
+  video.viewCountRaw / getVideoAgeDays(video, now);
+
+export const getLikesPerDay = (video: VideoItem, now: number = Date.now()): number =>
+  video.likeCountRaw / getVideoAgeDays(video, now);
+
+/**
+ * A count projected to the end of the video's first 30 days along the growth curve:
+ * younger videos are extrapolated forward, older ones scaled back. A rough, comparable estimate,
+ * not a reconstruction of the actual day-30 count.
+ */
+const projectToFirstWindow = (count: number, video: VideoItem, now: number): number =>
+  count * Math.pow(FIRST_WINDOW_DAYS / getVideoAgeDays(video, now), GROWTH_EXPONENT);
+
+export const estimateFirst30DaysViews = (video: VideoItem, now: number = Date.now()): number =>
+  projectToFirstWindow(video.viewCountRaw, video, now);
+
+export const estimateFirst30DaysLikes = (video: VideoItem, now: number = Date.now()): number =>
+  projectToFirstWindow(video.likeCountRaw, video, now);
+
+export const getViewMetric = (video: VideoItem, basis: MetricBasis, now: number = Date.now()): number => {
+  if (basis === 'per_day') return getViewsPerDay(video, now);
+  if (basis === 'first_30d') return estimateFirst30DaysViews(video, now);
+  return video.viewCountRaw;
+};
+
+export const getLikeMetric = (video: VideoItem, basis: MetricBasis, now: number = Date.now()): number => {
+  if (basis === 'per_day') return getLikesPerDay(video, now);
+  if (basis === 'first_30d') return estimateFirst30DaysLikes(video, now);
+  return video.likeCountRaw;
+};
+
+// "views", "views/hari" or "views (30h)"
+export const getMetricLabel = (metric: string, basis: MetricBasis): string =>
+  `${metric}${METRIC_BASES.find(b => b.value === basis)?.short || ''}`;
+
+// --- GLOBAL SETTING ---
+export const getMetricBasis = (): MetricBasis => {
+  const saved = localStorage.getItem(BASIS_STORAGE);
+  return METRIC_BASES.some(b => b.value === saved) ? (saved as MetricBasis) : 'raw';
+};
+
+export const setMetricBasis = (basis: MetricBasis) => {
+  localStorage.setItem(BASIS_STORAGE, basis);
+  window.dispatchEvent(new Event('metricBasisUpdated'));
+};
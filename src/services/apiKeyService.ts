@@ -0,0 +1,136 @@
+// API Key Pool Service - Named keys, per-key exhaustion and automatic rotation
+
+import { getKeyQuotaUsage, getQuotaDayKey, getRemainingQuota, QUOTA_LIMIT } from './quotaService';
+
+const KEYS_STORAGE = 'yt_api_keys_v1';
+const EXHAUSTED_STORAGE = 'yt_api_keys_exhausted_v1';
+const LEGACY_KEY_STORAGE = 'yt_api_key_v5';
+
+export interface ApiKeyEntry {
+  id: string;
+  name: string;
+  key: string;
+}
+
+// Keys that answered requests since the last reset, in order of first use
+let servedKeyIds: string[] = [];
+
+const notifyPoolChanged = () => window.dispatchEvent(new Event('apiKeysUpdated'));
+
+export const getApiKeys = (): ApiKeyEntry[] => {
+  const saved = localStorage.getItem(KEYS_STORAGE);
+  if (saved) {
+    try {
+      return JSON.parse(saved);
+    } catch {
+      return [];
+    }
+  }
+
+  // Migrate the single key kept by older versions
+  const legacy = localStorage.getItem(LEGACY_KEY_STORAGE);
+  if (!legacy) return [];
+  const migrated = [{ id: `key_${Date.now()}`, name: 'Default', key: legacy }];
+  localStorage.setItem(KEYS_STORAGE, JSON.stringify(migrated));
+  localStorage.removeItem(LEGACY_KEY_STORAGE);
+  return migrated;
+};
+
+const saveApiKeys = (keys: ApiKeyEntry[]) => {
+  localStorage.setItem(KEYS_STORAGE, JSON.stringify(keys));
+  notifyPoolChanged();
+};
+
+export const addApiKey = (name: string, key: string): ApiKeyEntry => {
+  const keys = getApiKeys();
+  const entry: ApiKeyEntry = {
+    id: `key_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`,
+    name: name.trim() || `Key ${keys.length + 1}`,
+    key: key.trim(),
+  };
+  saveApiKeys([...keys.filter(k => k.key !== entry.key), entry]);
+  return entry;
+};
+
+export const removeApiKey = (id: string) => {
+  saveApiKeys(getApiKeys().filter(k => k.id !== id));
+};
+
+// Move a key one position up in the rotation order
+export const promoteApiKey = (id: string) => {
+  const keys = getApiKeys();
+  const index = keys.findIndex(k => k.id === id);
+  if (index <= 0) return;
+  [keys[index - 1], keys[index]] = [keys[index], keys[index - 1]];
+  saveApiKeys(keys);
+};
+
+export const findApiKeyEntry = (key: string): ApiKeyEntry | undefined =>
+  getApiKeys().find(k => k.key === key);
+
+// --- EXHAUSTION ---
+const getExhaustedMap = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(EXHAUSTED_STORAGE) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// A key stays exhausted until the Pacific quota day changes
+export const isKeyExhausted = (id: string): boolean => getExhaustedMap()[id] === getQuotaDayKey();
+
+export const markKeyExhausted = (key: string) => {
+  const entry = findApiKeyEntry(key);
+  if (!entry) return;
+  const map = getExhaustedMap();
+  map[entry.id] = getQuotaDayKey();
+  localStorage.setItem(EXHAUSTED_STORAGE, JSON.stringify(map));
+  notifyPoolChanged();
+};
+
+// First key in rotation order that still has quota today
+export const getActiveApiKey = (): string => {
+  const keys = getApiKeys();
+  return (keys.find(k => !isKeyExhausted(k.id)) || keys[0])?.key || '';
+};
+
+/**
+ * Key that should serve a request made with `key`.
+ * Exhausted pool keys are swapped for the next one with quota left; unknown keys pass through.
+ */
+export const resolveApiKey = (key: string): string => {
+  const entry = findApiKeyEntry(key);
+  if (!entry || !isKeyExhausted(entry.id)) return key;
+  const next = getApiKeys().find(k => !isKeyExhausted(k.id));
+  return next ? next.key : key;
+};
+
+// Units left today across every key that is not exhausted; falls back to the global counter without a pool
+export const getPoolRemainingQuota = (): number => {
+  const keys = getApiKeys();
+  if (keys.length <= 1) return getRemainingQuota();
+  return keys
+    .filter(k => !isKeyExhausted(k.id))
+    .reduce((sum, k) => sum + Math.max(0, QUOTA_LIMIT - getKeyQuotaUsage(k.id)), 0);
+};
+
+// --- SERVED KEYS ---
+export const resetServedKeys = () => {
+  servedKeyIds = [];
+};
+
+export const recordServedKey = (key: string) => {
+  const entry = findApiKeyEntry(key);
+  if (entry && !servedKeyIds.includes(entry.id)) servedKeyIds.push(entry.id);
+};
+
+export const getServedKeyNames = (): string[] => {
+  const keys = getApiKeys();
+  return servedKeyIds
+    .map(id => keys.find(k => k.id === id)?.name)
+    .filter(Boolean);
+};
+
+export const maskApiKey = (key: string): string =>
+  key.length > 10 ? `${key.slice(0, 6)}…${key.slice(-4)}` : '••••';
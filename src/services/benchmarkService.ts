@@ -0,0 +1,233 @@
+// Benchmark Service - Metrics, rankings and tag overlap across any number of channels, plus saved benchmark sets
+
+import { ChannelStats, VideoItem } from '../types';
+import { ChannelSampleOptions, getContentType, median } from './youtubeService';
+
+const SETS_STORAGE = 'yt_benchmark_sets_v1';
+
+export const MIN_BENCHMARK_CHANNELS = 2;
+export const MAX_BENCHMARK_CHANNELS = 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BenchmarkChannel {
+  channelId: string;
+  title: string;
+  stats: ChannelStats;
+  videos: VideoItem[];
+  uploadFrequency: number;
+  medianEngagementRate: number;
+  medianViews: number;
+  // Median of each upload's views divided by its age in days, so older uploads don't win by default
+  viewsPerDay: number;
+  topTags: string[];
+}
+
+// Which uploads each channel is judged on
+export interface BenchmarkSample {
+  mode: 'count' | 'days';
+  // Last N uploads (count mode)
+  count: number;
+  // Uploads of the last N days (days mode)
+  days: number;
+  content: 'all' | 'long' | 'shorts';
+}
+
+// Age range (in days) that every channel in the benchmark has uploads in
+export interface AgeWindow {
+  minDays: number;
+  maxDays: number;
+}
+
+export interface BenchmarkMetric {
+  key: string;
+  label: string;
+  value: (channel: BenchmarkChannel) => number;
+  format: (value: number) => string;
+}
+
+export interface BenchmarkSet {
+  id: string;
+  name: string;
+  // Inputs as typed (handles, URLs or IDs), re-resolved on every run
+  channels: string[];
+  // Missing on sets saved before samples were configurable
+  sample?: BenchmarkSample;
+  createdAt: number;
+}
+
+export const DEFAULT_BENCHMARK_SAMPLE: BenchmarkSample = { mode: 'count', count: 10, days: 90, content: 'all' };
+
+// A days window still stops at this many uploads
+const MAX_DAYS_SAMPLE = 100;
+
+// --- SAMPLES ---
+export const toSampleOptions = (sample: BenchmarkSample, now: number = Date.now()): ChannelSampleOptions => {
+  const match = (video: VideoItem) => {
+    const type = getContentType(video);
+    if (sample.content === 'long') return type === 'upload';
+    if (sample.content === 'shorts') return type === 'short';
+    return type !== 'upcoming';
+  };
+  return sample.mode === 'days'
+    ? { limit: MAX_DAYS_SAMPLE, publishedAfter: now - sample.days * DAY_MS, match }
+    : { limit: sample.count, match };
+};
+
+const ageInDays = (video: VideoItem, now: number) => Math.max(0, (now - Date.parse(video.publishedAt)) / DAY_MS);
+
+// --- METRICS ---
+// Formatted counters ("1.2M") of channel stats cached before raw values were kept
+const parseFormattedCount = (formatted: string): number => {
+  const match = (formatted || '').replace(/,/g, '').match(/^([\d.]+)([KM]?)$/);
+  if (!match) return 0;
+  const scale = match[2] === 'M' ? 1000000 : match[2] === 'K' ? 1000 : 1;
+  return Math.round(parseFloat(match[1]) * scale);
+};
+
+export const getChannelViewCount = (stats: ChannelStats): number =>
+  stats.viewCountRaw ?? parseFormattedCount(stats.viewCount);
+
+export const getChannelVideoCount = (stats: ChannelStats): number =>
+  stats.videoCountRaw ?? parseFormattedCount(stats.videoCount);
+
+// Upload cadence, median views and ER, and most used tags of a channel's sample of recent uploads
+export const computeChannelMetrics = (
+  videos: VideoItem[],
+  now: number = Date.now()
+): Pick<BenchmarkChannel, 'uploadFrequency' | 'medianEngagementRate' | 'medianViews' | 'viewsPerDay' | 'topTags'> => {
+  if (!videos.length) return { uploadFrequency: 0, medianEngagementRate: 0, medianViews: 0, viewsPerDay: 0, topTags: [] };
+
+  // Only the cadence needs two uploads; everything else holds for a one-video sample too
+  const dates = videos.map(v => new Date(v.publishedAt).getTime()).sort((a, b) => b - a);
+  const weeksDiff = (dates[0] - dates[dates.length - 1]) / (DAY_MS * 7);
+  const uploadFrequency = videos.length > 1 && weeksDiff > 0 ? videos.length / weeksDiff : 0;
+
+  const medianEngagementRate = median(videos.map(v => v.engagementRate));
+  const medianViews = median(videos.map(v => v.viewCountRaw));
+  // A day's head start is the least a video gets, so uploads from the last hours don't explode the rate
+  const viewsPerDay = median(videos.map(v => v.viewCountRaw / Math.max(ageInDays(v, now), 1)));
+
+  const tagCounts = new Map<string, number>();
+  videos.flatMap(v => v.tags || []).forEach(tag => tagCounts.set(tag.toLowerCase(), (tagCounts.get(tag.toLowerCase()) || 0) + 1));
+  const topTags = Array.from(tagCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 20)
+    .map(([tag]) => tag);
+
+  return { uploadFrequency, medianEngagementRate, medianViews, viewsPerDay, topTags };
+};
+
+/**
+ * The ages every channel's sample covers: from the oldest "newest upload" to the youngest
+ * "oldest upload". Null when the samples don't overlap, e.g. a daily channel against a monthly one.
+ */
+export const getCommonAgeWindow = (channels: BenchmarkChannel[], now: number = Date.now()): AgeWindow | null => {
+  if (channels.some(c => !c.videos.length)) return null;
+  const ranges = channels.map(c => c.videos.map(v => ageInDays(v, now)));
+  const minDays = Math.max(...ranges.map(ages => Math.min(...ages)));
+  const maxDays = Math.min(...ranges.map(ages => Math.max(...ages)));
+  return minDays <= maxDays ? { minDays, maxDays } : null;
+};
+
+// Median views of a channel's uploads inside the common age window, comparing videos of the same age
+export const getSameAgeViews = (channel: BenchmarkChannel, window: AgeWindow, now: number = Date.now()): number =>
+  median(channel.videos.filter(v => {
+    const age = ageInDays(v, now);
+    return age >= window.minDays && age <= window.maxDays;
+  }).map(v => v.viewCountRaw));
+
+const formatCount = (value: number) => Math.round(value).toLocaleString();
+
+const BASE_METRICS: BenchmarkMetric[] = [
+  { key: 'subscribers', label: 'Subscribers', value: c => c.stats.subCountRaw, format: formatCount },
+  { key: 'views', label: 'Total Views', value: c => getChannelViewCount(c.stats), format: formatCount },
+  { key: 'videos', label: 'Video Count', value: c => getChannelVideoCount(c.stats), format: formatCount },
+  { key: 'frequency', label: 'Upload/Week', value: c => c.uploadFrequency, format: v => v.toFixed(1) },
+  { key: 'medianViews', label: 'Median Views', value: c => c.medianViews, format: formatCount },
+  { key: 'viewsPerDay', label: 'Views/Day', value: c => c.viewsPerDay, format: formatCount },
+  { key: 'er', label: 'Median ER%', value: c => c.medianEngagementRate, format: v => `${v.toFixed(2)}%` },
+];
+
+// Metrics for one benchmark run; same-age views are only comparable when the samples share an age window
+export const getBenchmarkMetrics = (window: AgeWindow | null, now: number = Date.now()): BenchmarkMetric[] => {
+  if (!window) return BASE_METRICS;
+  const label = `Views @ ${Math.round(window.minDays)}–${Math.round(window.maxDays)}d`;
+  return [...BASE_METRICS, { key: 'sameAgeViews', label, value: c => getSameAgeViews(c, window, now), format: formatCount }];
+};
+
+// 1-based rank of every channel on a metric, highest value first; ties share a rank
+export const rankChannels = (channels: BenchmarkChannel[], metric: BenchmarkMetric): number[] => {
+  const values = channels.map(metric.value);
+  return values.map(value => 1 + values.filter(other => other > value).length);
+};
+
+// One row per metric, each channel scaled against the best channel on that metric (0-100)
+export const getRadarData = (channels: BenchmarkChannel[], metrics: BenchmarkMetric[]): Array<Record<string, string | number>> =>
+  metrics.map(metric => {
+    const values = channels.map(metric.value);
+    const max = Math.max(...values, 1);
+    const row: Record<string, string | number> = { metric: metric.label };
+    channels.forEach((channel, i) => {
+      row[channel.channelId] = (values[i] / max) * 100;
+    });
+    return row;
+  });
+
+// --- TAG OVERLAP ---
+/**
+ * Tags shared by each pair of channels; the diagonal holds each channel's own tag count.
+ * Similarity is the Jaccard index of the two top-tag sets.
+ */
+export const getTagOverlapMatrix = (channels: BenchmarkChannel[]): Array<Array<{ shared: number; similarity: number }>> =>
+  channels.map(a => {
+    const tagsA = new Set(a.topTags);
+    return channels.map(b => {
+      const shared = b.topTags.filter(tag => tagsA.has(tag)).length;
+      const union = new Set([...a.topTags, ...b.topTags]).size;
+      return { shared, similarity: union ? shared / union : 0 };
+    });
+  });
+
+// Tags used by at least two channels, most widely shared first
+export const getSharedTags = (channels: BenchmarkChannel[]): Array<{ tag: string; channelIds: string[] }> => {
+  const owners = new Map<string, string[]>();
+  channels.forEach(channel => channel.topTags.forEach(tag => owners.set(tag, [...(owners.get(tag) || []), channel.channelId])));
+  return Array.from(owners.entries())
+    .filter(([, channelIds]) => channelIds.length > 1)
+    .map(([tag, channelIds]) => ({ tag, channelIds }))
+    .sort((a, b) => b.channelIds.length - a.channelIds.length);
+};
+
+// Tags no other channel in the benchmark uses
+export const getUniqueTags = (channels: BenchmarkChannel[], channel: BenchmarkChannel): string[] => {
+  const others = new Set(channels.filter(c => c !== channel).flatMap(c => c.topTags));
+  return channel.topTags.filter(tag => !others.has(tag));
+};
+
+// --- SAVED SETS ---
+export const getBenchmarkSets = (): BenchmarkSet[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SETS_STORAGE) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+// Saving under an existing name replaces that set
+export const saveBenchmarkSet = (name: string, channels: string[], sample?: BenchmarkSample): BenchmarkSet => {
+  const set: BenchmarkSet = {
+    id: `set_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`,
+    name: name.trim(),
+    channels: channels.map(c => c.trim()).filter(Boolean),
+    sample,
+    createdAt: Date.now(),
+  };
+  const others = getBenchmarkSets().filter(s => s.name.toLowerCase() !== set.name.toLowerCase());
+  localStorage.setItem(SETS_STORAGE, JSON.stringify([set, ...others]));
+  return set;
+};
+
+export const deleteBenchmarkSet = (id: string) => {
+  localStorage.setItem(SETS_STORAGE, JSON.stringify(getBenchmarkSets().filter(s => s.id !== id)));
+};
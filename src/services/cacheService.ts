@@ -0,0 +1,274 @@
+// Response Cache Service - IndexedDB-backed cache with per-resource TTL and LRU eviction
+
+const DB_NAME = 'yt_analyzer_cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+const LEGACY_PREFIX = 'yt_cache_';
+
+/**
+ * listing    - ID lists behind a query (search, channel uploads, playlist, trending chart)
+ * channel    - ChannelStats per channel
+ * videoStats - view/like/comment counters per video
+ * videoMeta  - title, description, tags, duration, thumbnails per video (effectively immutable)
+ * channelRef - channel ID behind a handle, username, custom URL or video, and a channel's uploads playlist (never expires)
+ * categories - video category names per region
+ */
+export type CacheKind = 'listing' | 'channel' | 'videoStats' | 'videoMeta' | 'channelRef' | 'categories';
+
+const HOUR = 60 * 60 * 1000;
+
+export const CACHE_TTL: Record<CacheKind, number> = {
+  listing: HOUR,
+  channel: 6 * HOUR,
+  videoStats: HOUR,
+  videoMeta: 30 * 24 * HOUR,
+  channelRef: Infinity,
+  categories: 30 * 24 * HOUR,
+};
+
+// Total size budget before least-recently-used entries are evicted
+export const CACHE_SIZE_BUDGET = 50 * 1024 * 1024;
+
+interface CacheEntry {
+  id: string;
+  kind: CacheKind;
+  value: unknown;
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  byKind: Record<CacheKind, number>;
+}
+
+// In-memory fallback for environments without IndexedDB (tests, private browsing)
+const memoryStore = new Map<string, CacheEntry>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+// Running size of the store, summed once per session so budget checks never re-read every value
+let totalBytes: number | null = null;
+
+const entryId = (kind: CacheKind, key: string) => `${kind}:${key}`;
+
+const estimateSize = (value: unknown): number => {
+  try {
+    return JSON.stringify(value).length;
+  } catch {
+    return 0;
+  }
+};
+
+const isExpired = (entry: CacheEntry, now: number) => now - entry.createdAt > CACHE_TTL[entry.kind];
+
+// Old versions kept whole analyses in localStorage; free that space once
+const purgeLegacyCache = () => {
+  try {
+    Object.keys(localStorage)
+      .filter(k => k.startsWith(LEGACY_PREFIX))
+      .forEach(k => localStorage.removeItem(k));
+  } catch {
+    // localStorage unavailable
+  }
+};
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    purgeLegacyCache();
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('lastAccess', 'lastAccess');
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => resolve(null);
+    req.onblocked = () => resolve(null);
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const getTotalBytes = async (db: IDBDatabase | null): Promise<number> => {
+  if (totalBytes !== null) return totalBytes;
+  if (!db) {
+    totalBytes = Array.from(memoryStore.values()).reduce((sum, e) => sum + e.size, 0);
+    return totalBytes;
+  }
+
+  let sum = 0;
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const req = tx.objectStore(STORE_NAME).openCursor();
+  req.onsuccess = () => {
+    const cursor = req.result;
+    if (!cursor) return;
+    sum += (cursor.value as CacheEntry).size;
+    cursor.continue();
+  };
+  await transactionDone(tx);
+  totalBytes = sum;
+  return totalBytes;
+};
+
+const adjustTotalBytes = (delta: number) => {
+  if (totalBytes !== null) totalBytes += delta;
+};
+
+/**
+ * Read several keys of one kind in a single transaction.
+ * Expired entries are dropped, hits get their LRU timestamp refreshed.
+ */
+export const cacheGetMany = async <T>(kind: CacheKind, keys: string[]): Promise<Map<string, T>> => {
+  const result = new Map<string, T>();
+  if (!keys.length) return result;
+  const now = Date.now();
+
+  try {
+    const db = await openDb();
+    if (!db) {
+      keys.forEach(key => {
+        const entry = memoryStore.get(entryId(kind, key));
+        if (!entry) return;
+        if (isExpired(entry, now)) {
+          memoryStore.delete(entry.id);
+          adjustTotalBytes(-entry.size);
+          return;
+        }
+        entry.lastAccess = now;
+        result.set(key, entry.value as T);
+      });
+      return result;
+    }
+
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    await Promise.all(keys.map(async key => {
+      const entry = await requestToPromise<CacheEntry | undefined>(store.get(entryId(kind, key)));
+      if (!entry) return;
+      if (isExpired(entry, now)) {
+        store.delete(entry.id);
+        adjustTotalBytes(-entry.size);
+        return;
+      }
+      store.put({ ...entry, lastAccess: now });
+      result.set(key, entry.value as T);
+    }));
+    await transactionDone(tx);
+  } catch (e) {
+    console.warn('Cache read failed:', e);
+  }
+
+  return result;
+};
+
+export const cacheGet = async <T>(kind: CacheKind, key: string): Promise<T | null> => {
+  const hits = await cacheGetMany<T>(kind, [key]);
+  return hits.has(key) ? hits.get(key)! : null;
+};
+
+// Evict least-recently-used entries until the store fits the size budget; only evicted entries are read
+const enforceBudget = async (db: IDBDatabase | null) => {
+  if (await getTotalBytes(db) <= CACHE_SIZE_BUDGET) return;
+
+  if (!db) {
+    const byAge = Array.from(memoryStore.values()).sort((a, b) => a.lastAccess - b.lastAccess);
+    for (const entry of byAge) {
+      if (totalBytes! <= CACHE_SIZE_BUDGET) break;
+      memoryStore.delete(entry.id);
+      adjustTotalBytes(-entry.size);
+    }
+    return;
+  }
+
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const req = tx.objectStore(STORE_NAME).index('lastAccess').openCursor();
+  req.onsuccess = () => {
+    const cursor = req.result;
+    if (!cursor || totalBytes! <= CACHE_SIZE_BUDGET) return;
+    adjustTotalBytes(-(cursor.value as CacheEntry).size);
+    cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(tx);
+};
+
+export const cacheSetMany = async (kind: CacheKind, items: Array<[string, unknown]>): Promise<void> => {
+  if (!items.length) return;
+  const now = Date.now();
+  const entries: CacheEntry[] = items.map(([key, value]) => ({
+    id: entryId(kind, key),
+    kind,
+    value,
+    size: estimateSize(value),
+    createdAt: now,
+    lastAccess: now,
+  }));
+
+  try {
+    const db = await openDb();
+    await getTotalBytes(db);
+    if (!db) {
+      entries.forEach(entry => {
+        adjustTotalBytes(entry.size - (memoryStore.get(entry.id)?.size || 0));
+        memoryStore.set(entry.id, entry);
+      });
+    } else {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      // Overwritten entries are read back only to keep the running size exact
+      await Promise.all(entries.map(async entry => {
+        const previous = await requestToPromise<CacheEntry | undefined>(store.get(entry.id));
+        adjustTotalBytes(entry.size - (previous?.size || 0));
+        store.put(entry);
+      }));
+      await transactionDone(tx);
+    }
+    await enforceBudget(db);
+  } catch (e) {
+    // A full disk or a blocked database must never break an analysis
+    console.warn('Cache write failed:', e);
+  }
+};
+
+export const cacheSet = (kind: CacheKind, key: string, value: unknown): Promise<void> =>
+  cacheSetMany(kind, [[key, value]]);
+
+export const clearCache = async (): Promise<void> => {
+  memoryStore.clear();
+  totalBytes = 0;
+  purgeLegacyCache();
+  const db = await openDb();
+  if (!db) return;
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).clear();
+  await transactionDone(tx);
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const byKind: Record<CacheKind, number> = { listing: 0, channel: 0, videoStats: 0, videoMeta: 0, channelRef: 0, categories: 0 };
+  const db = await openDb();
+  const entries = db
+    ? await requestToPromise<CacheEntry[]>(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll())
+    : Array.from(memoryStore.values());
+
+  entries.forEach(e => { byKind[e.kind] += e.size; });
+  return {
+    entries: entries.length,
+    bytes: entries.reduce((sum, e) => sum + e.size, 0),
+    byKind,
+  };
+};
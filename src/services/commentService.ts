@@ -0,0 +1,166 @@
+// Comment Service - Fetch comment threads and derive viewer insights from them
+
+import { CommentItem, FetchProgress } from '../types';
+import {
+  getCommentThreads,
+  getDataSource,
+  CommentsDisabledError,
+  NotFoundError,
+  YouTubeCommentThreadResource,
+} from './youtubeApiClient';
+import { QUOTA_COSTS } from './quotaService';
+
+// commentThreads.list returns at most 100 threads per call
+export const COMMENT_PAGE_SIZE = 100;
+
+export interface CommentFetchOptions {
+  maxPagesPerVideo?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: FetchProgress) => void;
+}
+
+export interface CommentFetchResult {
+  comments: CommentItem[];
+  // Videos with comments turned off, or that no longer exist
+  skippedVideos: number;
+}
+
+// Upper-bound unit cost of fetchComments
+export const estimateCommentCost = (videoCount: number, maxPagesPerVideo: number): number =>
+  videoCount * maxPagesPerVideo * QUOTA_COSTS.commentThreads;
+
+const toCommentItem = (thread: YouTubeCommentThreadResource): CommentItem => {
+  const top = thread.snippet.topLevelComment.snippet;
+  return {
+    id: thread.id,
+    videoId: thread.snippet.videoId,
+    author: top.authorDisplayName,
+    text: top.textOriginal || top.textDisplay,
+    likeCount: top.likeCount || 0,
+    replyCount: thread.snippet.totalReplyCount || 0,
+    publishedAt: top.publishedAt,
+  };
+};
+
+/**
+ * Fetch the most relevant top-level comments of each video, at most `maxPagesPerVideo`
+ * pages (100 threads, 1 unit) per video.
+ */
+export const fetchComments = async (
+  apiKey: string,
+  videoIds: string[],
+  { maxPagesPerVideo = 1, signal, onProgress }: CommentFetchOptions = {}
+): Promise<CommentFetchResult> => {
+  const comments: CommentItem[] = [];
+  const progress: FetchProgress = { pages: 0, units: 0, videos: 0 };
+  let skippedVideos = 0;
+
+  for (const videoId of videoIds) {
+    let pageToken = '';
+    try {
+      for (let page = 0; page < maxPagesPerVideo; page++) {
+        if (signal?.aborted) throw new DOMException('Fetch dibatalkan', 'AbortError');
+        const data = await getCommentThreads(apiKey, {
+          part: 'snippet',
+          videoId,
+          maxResults: COMMENT_PAGE_SIZE,
+          order: 'relevance',
+          textFormat: 'plainText',
+          pageToken,
+        }, signal);
+        progress.pages++;
+        // Offline sources answer for free
+        if (getDataSource().requiresKey) progress.units += QUOTA_COSTS.commentThreads;
+        onProgress?.({ ...progress });
+
+        comments.push(...(data.items || []).filter(t => t.snippet).map(toCommentItem));
+        pageToken = data.nextPageToken || '';
+        if (!pageToken) break;
+      }
+    } catch (e) {
+      if (!(e instanceof CommentsDisabledError || e instanceof NotFoundError)) throw e;
+      skippedVideos++;
+    }
+    progress.videos++;
+    onProgress?.({ ...progress });
+  }
+
+  return { comments, skippedVideos };
+};
+
+// --- INSIGHTS ---
+const STOP_WORDS = new Set([
+  // Indonesian
+  'yang', 'dan', 'di', 'ke', 'dari', 'ini', 'itu', 'untuk', 'dengan', 'ada', 'tidak', 'gak', 'ga', 'nggak',
+  'aku', 'saya', 'kamu', 'kak', 'kakak', 'bang', 'juga', 'sudah', 'udah', 'sama', 'jadi', 'bisa', 'karena',
+  'kalau', 'kalo', 'lagi', 'banget', 'aja', 'saja', 'mau', 'dia', 'kita', 'kami', 'pada', 'akan', 'atau',
+  'nya', 'deh', 'sih', 'dong', 'kok', 'lah', 'pun', 'tapi', 'tp', 'yg', 'dgn', 'utk', 'min', 'nih', 'tuh',
+  // English
+  'the', 'and', 'for', 'you', 'this', 'that', 'with', 'are', 'was', 'but', 'not', 'have', 'has', 'your',
+  'his', 'her', 'its', 'they', 'them', 'just', 'can', 'all', 'from', 'what', 'how', 'why', 'who', 'about',
+  'will', 'would', 'one', 'get', 'got', 'like', 'really', 'very', 'too', 'out', 'there', 'their', 'been',
+]);
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 2 && !STOP_WORDS.has(w) && !/^\d+$/.test(w));
+
+export const getTopComments = (comments: CommentItem[], count: number = 10): CommentItem[] =>
+  [...comments].sort((a, b) => b.likeCount - a.likeCount).slice(0, count);
+
+// Most frequent words and two-word phrases; a phrase needs at least two mentions to count
+export const getCommentTermFrequency = (comments: CommentItem[], count: number = 40): Array<{ term: string; count: number }> => {
+  const words = new Map<string, number>();
+  const phrases = new Map<string, number>();
+
+  comments.forEach(c => {
+    const tokens = tokenize(c.text);
+    tokens.forEach(t => words.set(t, (words.get(t) || 0) + 1));
+    for (let i = 0; i < tokens.length - 1; i++) {
+      const phrase = `${tokens[i]} ${tokens[i + 1]}`;
+      phrases.set(phrase, (phrases.get(phrase) || 0) + 1);
+    }
+  });
+
+  return [...words.entries(), ...[...phrases.entries()].filter(([, n]) => n >= 2)]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([term, n]) => ({ term, count: n }));
+};
+
+const QUESTION_START = /^(apa(kah)?|bagaimana|how|why)\b/i;
+
+// Viewer questions, one per line, as content ideas; most-liked first
+export const extractViewerQuestions = (comments: CommentItem[], count: number = 20): Array<{ text: string; likeCount: number; videoId: string }> => {
+  const seen = new Set<string>();
+  const questions: Array<{ text: string; likeCount: number; videoId: string }> = [];
+
+  comments.forEach(c => {
+    c.text.split(/\n+/).forEach(line => {
+      const text = line.trim();
+      if (text.length < 8 || !(text.endsWith('?') || QUESTION_START.test(text))) return;
+      const key = text.toLowerCase();
+      if (seen.has(key)) return;
+      seen.add(key);
+      questions.push({ text, likeCount: c.likeCount, videoId: c.videoId });
+    });
+  });
+
+  return questions.sort((a, b) => b.likeCount - a.likeCount).slice(0, count);
+};
+
+// Comments per calendar day (UTC), oldest first
+export const getCommentVolume = (comments: CommentItem[]): Array<{ day: string; count: number }> => {
+  const days = new Map<string, number>();
+  comments.forEach(c => {
+    const day = c.publishedAt.slice(0, 10);
+    days.set(day, (days.get(day) || 0) + 1);
+  });
+  return Array.from(days.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([day, count]) => ({ day, count }));
+};
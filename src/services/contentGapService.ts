@@ -126,8 +126,19 @@ export const analyzeContentGap = (
   };
 };
 
-// Categorize topics into content buckets
-export const categorizeTopics = (topics: string[]): Map<string, string[]> => {
+// Most common YouTube category among the videos that mention a topic
+const findVideoCategory = (topic: string, videos: VideoItem[]): string | undefined => {
+  const counts = new Map<string, number>();
+  videos.forEach(v => {
+    if (!v.categoryName) return;
+    const matches = v.tags.some(t => t.toLowerCase().includes(topic)) || v.title.toLowerCase().includes(topic);
+    if (matches) counts.set(v.categoryName, (counts.get(v.categoryName) || 0) + 1);
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+// Categorize topics into content buckets, preferring the real YouTube category of the videos behind each topic
+export const categorizeTopics = (topics: string[], videos: VideoItem[] = []): Map<string, string[]> => {
   const categories = new Map<string, string[]>();
   
   const categoryKeywords: Record<string, string[]> = {
@@ -142,6 +153,12 @@ export const categorizeTopics = (topics: string[]): Map<string, string[]> => {
   };
 
   topics.forEach(topic => {
+    const videoCategory = findVideoCategory(topic.toLowerCase(), videos);
+    if (videoCategory) {
+      categories.set(videoCategory, [...(categories.get(videoCategory) || []), topic]);
+      return;
+    }
+
     let assigned = false;
     for (const [category, keywords] of Object.entries(categoryKeywords)) {
       if (keywords.some(kw => topic.includes(kw))) {
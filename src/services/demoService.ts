@@ -0,0 +1,43 @@
+// Demo Service - Bundled sample channel, trending set and saved list that run without an API key
+
+import { VideoItem } from '../types';
+import { getDataSource, setDataSource, YouTubeDataSource } from './youtubeApiClient';
+import { createFixtureDataSource, YouTubeFixture } from './fixtureDataSource';
+import { fetchYouTubeData } from './youtubeService';
+
+export const DEMO_QUERY = '@dapurnusantara';
+
+// Second sample channel, so Benchmark has something to compare against
+export const DEMO_BENCHMARK_CHANNELS: string[] = ['@dapurnusantara', '@resephemat'];
+
+const DEMO_SAVED_IDS = ['dn000000000', 'dn000000004', 'dn000000011', 'dn000000024'];
+
+export const SAVED_VIDEOS_KEY = 'yt_saved_videos';
+
+let demoSource: YouTubeDataSource | null = null;
+
+// The sample set is only downloaded when someone actually starts the demo
+const loadDemoFixture = async (): Promise<YouTubeFixture> => {
+  const module = await import('../data/demo-fixture.json');
+  return module.default as YouTubeFixture;
+};
+
+export const startDemo = async () => {
+  const fixture = await loadDemoFixture();
+  demoSource = { ...createFixtureDataSource(fixture), name: 'Demo data' };
+  setDataSource(demoSource);
+};
+
+// True while the bundled sample set is the active data source
+export const isDemoActive = (): boolean => demoSource !== null && getDataSource() === demoSource;
+
+// Saved list shown in demo mode; kept apart from the user's real saved videos
+export const getDemoSavedVideos = async (apiKey: string): Promise<VideoItem[]> => {
+  const data = await fetchYouTubeData(apiKey, DEMO_QUERY, 50);
+  return data.videos.filter(v => DEMO_SAVED_IDS.includes(v.id));
+};
+
+// Every change to the saved list goes through here, so the demo list never overwrites the user's own
+export const persistSavedVideos = (videos: VideoItem[]) => {
+  if (!isDemoActive()) localStorage.setItem(SAVED_VIDEOS_KEY, JSON.stringify(videos));
+};
@@ -1,5 +1,15 @@
-import { VideoItem } from '../types';
+import { VideoItem, VideoContentType } from '../types';
 import { calculateAllVideoScores, VideoWithScores } from './performanceScoreService';
+import { getMetricBasis } from './ageMetricsService';
+import { getContentType } from './youtubeService';
+
+const CONTENT_TYPE_NAMES: Record<VideoContentType, string> = {
+  upload: "Video",
+  short: "Shorts",
+  live: "Live Stream",
+  premiere: "Premiere",
+  upcoming: "Upcoming",
+};
 
 export const generateCSV = (videos: VideoItem[], filename: string) => {
   // CSV Header
@@ -23,7 +33,7 @@ export const generateCSV = (videos: VideoItem[], filename: string) => {
     // Escape quotes in text fields
     const safeTitle = `"${v.title.replace(/"/g, '""')}"`;
     const safeTags = `"${v.tags.join(', ').replace(/"/g, '""')}"`;
-    const type = v.isShort ? "Shorts" : "Video";
+    const type = CONTENT_TYPE_NAMES[getContentType(v)];
 
     return [
       index + 1,
@@ -60,8 +70,8 @@ export const generateCSV = (videos: VideoItem[], filename: string) => {
 
 // Comprehensive CSV with all data including scores
 export const generateFullAnalysisCSV = (videos: VideoItem[], filename: string) => {
-  // Calculate scores for all videos
-  const scoredVideos = calculateAllVideoScores(videos);
+  // Calculate scores for all videos, on the basis the app currently ranks by
+  const scoredVideos = calculateAllVideoScores(videos, getMetricBasis());
   
   // CSV Header - 25 columns
   const headers = [
@@ -89,7 +99,8 @@ export const generateFullAnalysisCSV = (videos: VideoItem[], filename: string) =
     "Thumbnail Grade",
     "Tags",
     "Is Short",
-    "Is Outlier"
+    "Is Outlier",
+    "Outlier Multiplier"
   ];
 
   // CSV Rows
@@ -123,7 +134,8 @@ export const generateFullAnalysisCSV = (videos: VideoItem[], filename: string) =
       v.thumbnailScore.grade,
       safeTags,
       v.isShort ? "Yes" : "No",
-      v.isOutlier ? "Yes" : "No"
+      v.isOutlier ? "Yes" : "No",
+      v.outlierMultiplier ?? ""
     ].join(",");
   });
 
@@ -152,7 +164,7 @@ export const exportToExcel = (videos: VideoItem[], filename: string) => {
   }
 
   // Calculate scores
-  const scoredVideos = calculateAllVideoScores(videos);
+  const scoredVideos = calculateAllVideoScores(videos, getMetricBasis());
 
   const data = scoredVideos.map((v: VideoWithScores, idx: number) => ({
     "No": idx + 1,
@@ -163,13 +175,14 @@ export const exportToExcel = (videos: VideoItem[], filename: string) => {
     "Likes": v.likeCountRaw,
     "Comments": v.commentCountRaw,
     "Engagement Rate %": v.engagementRate,
+    "Outlier (x Channel Median)": v.outlierMultiplier ?? "",
     "Title Score": v.titleScore.totalScore,
     "Title Grade": v.titleScore.grade,
     "Thumbnail Score": v.thumbnailScore.totalScore,
     "Thumbnail Grade": v.thumbnailScore.grade,
     "Duration": v.durationFormatted,
     "Published": new Date(v.publishedAtDate).toLocaleDateString(),
-    "Type": v.isShort ? "Shorts" : "Long",
+    "Type": getContentType(v) === 'upload' ? "Long" : CONTENT_TYPE_NAMES[getContentType(v)],
     "Channel": v.channelTitle,
     "Tags": v.tags.join(', ')
   }));
@@ -180,3 +193,21 @@ export const exportToExcel = (videos: VideoItem[], filename: string) => {
 
   XLSX.writeFile(workbook, `${filename}_Analysis.xlsx`);
 };
+
+// Recommended upload slots as an iCalendar file
+export const exportSlotCalendar = (ics: string, filename: string) => {
+  const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8;' });
+
+  const saveAs = window.saveAs;
+  if (saveAs) {
+    saveAs(blob, `${filename}_Upload_Slots.ics`);
+  } else {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", `${filename}_Upload_Slots.ics`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+};
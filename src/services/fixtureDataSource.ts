@@ -0,0 +1,153 @@
+// Fixture Data Source - Replay recorded API responses offline, and record live sessions as fixtures
+
+import {
+  apiDataSource,
+  setDataSource,
+  NotFoundError,
+  YouTubeDataSource,
+  YouTubeEndpoint,
+  YouTubeListResponse,
+  YouTubeParams,
+} from './youtubeApiClient';
+
+export interface YouTubeFixture {
+  name: string;
+  recordedAt: string;
+  // Raw list responses keyed by fixtureKey(endpoint, params)
+  responses: Record<string, YouTubeListResponse<unknown>>;
+}
+
+let recording: YouTubeFixture | null = null;
+
+// Stable lookup key for a request: endpoint plus sorted params, without the API key
+export const fixtureKey = (endpoint: YouTubeEndpoint, params: YouTubeParams): string => {
+  const query = Object.entries(params)
+    .filter(([key, value]) => key !== 'key' && value !== undefined && value !== '')
+    // Plain code-unit order, so keys match whatever tool recorded them
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  return `${endpoint}?${query}`;
+};
+
+const withoutMaxResults = (key: string): string =>
+  key.replace(/([?&])maxResults=\d+&?/, '$1').replace(/[?&]$/, '');
+
+/**
+ * Serve a recorded fixture as a data source.
+ * Lookups by `id` are answered per resource, so callers may chunk IDs differently than the
+ * recorded session did; listings recorded with another page size are trimmed to `maxResults`.
+ */
+export const createFixtureDataSource = (fixture: YouTubeFixture): YouTubeDataSource => {
+  const resources = new Map<string, unknown>();
+  const looseResponses = new Map<string, YouTubeListResponse<unknown>>();
+
+  Object.entries(fixture.responses).forEach(([key, payload]) => {
+    const endpoint = key.split('?')[0];
+    payload.items?.forEach((item: { id?: unknown }) => {
+      if (typeof item.id !== 'string') return;
+      // The same resource may be recorded with different parts; merge them
+      const id = `${endpoint}:${item.id}`;
+      resources.set(id, { ...(resources.get(id) as object), ...item });
+    });
+    looseResponses.set(withoutMaxResults(key), payload);
+  });
+
+  const request = async <T>(
+    endpoint: YouTubeEndpoint,
+    params: YouTubeParams,
+    _apiKey: string,
+    signal?: AbortSignal
+  ): Promise<YouTubeListResponse<T>> => {
+    if (signal?.aborted) throw new DOMException('Fetch dibatalkan', 'AbortError');
+
+    const key = fixtureKey(endpoint, params);
+    const exact = fixture.responses[key];
+    if (exact) return exact as YouTubeListResponse<T>;
+
+    if (params.id) {
+      const items = String(params.id)
+        .split(',')
+        .map(id => resources.get(`${endpoint}:${id}`))
+        .filter(Boolean);
+      return { items: items as T[] };
+    }
+
+    const loose = looseResponses.get(withoutMaxResults(key));
+    if (loose) {
+      const limit = Number(params.maxResults) || undefined;
+      return { ...loose, items: loose.items?.slice(0, limit) as T[] };
+    }
+
+    throw new NotFoundError(404, 'fixtureMissing', endpoint);
+  };
+
+  return {
+    name: `Fixture: ${fixture.name}`,
+    requiresKey: false,
+    cacheable: false,
+    request,
+  };
+};
+
+export const activateFixtureDataSource = (fixture: YouTubeFixture) => {
+  recording = null;
+  setDataSource(createFixtureDataSource(fixture));
+};
+
+export const activateLiveDataSource = () => {
+  recording = null;
+  setDataSource(apiDataSource);
+};
+
+// --- RECORDING ---
+// Live API source that copies every successful response into the current recording
+const recordingDataSource: YouTubeDataSource = {
+  name: 'YouTube API (recording)',
+  requiresKey: true,
+  // Cache hits would leave holes in the fixture, so every call goes to the network
+  cacheable: false,
+  request: async <T>(endpoint: YouTubeEndpoint, params: YouTubeParams, apiKey: string, signal?: AbortSignal) => {
+    const payload = await apiDataSource.request<T>(endpoint, params, apiKey, signal);
+    if (recording) recording.responses[fixtureKey(endpoint, params)] = payload;
+    return payload;
+  },
+};
+
+export const startRecording = (name: string) => {
+  recording = { name, recordedAt: new Date().toISOString(), responses: {} };
+  setDataSource(recordingDataSource);
+};
+
+export const isRecording = (): boolean => recording !== null;
+
+export const stopRecording = (): YouTubeFixture | null => {
+  const fixture = recording;
+  activateLiveDataSource();
+  return fixture;
+};
+
+// --- FILES ---
+export const parseFixture = (json: string): YouTubeFixture => {
+  const parsed = JSON.parse(json);
+  if (!parsed || typeof parsed.responses !== 'object') {
+    throw new Error('File fixture tidak valid: objek "responses" tidak ditemukan.');
+  }
+  return {
+    name: parsed.name || 'Fixture',
+    recordedAt: parsed.recordedAt || '',
+    responses: parsed.responses,
+  };
+};
+
+export const downloadFixture = (fixture: YouTubeFixture) => {
+  const blob = new Blob([JSON.stringify(fixture, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', `${fixture.name.replace(/[^\w-]+/g, '_')}_fixture.json`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
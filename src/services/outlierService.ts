@@ -0,0 +1,114 @@
+// Outlier Service - How each video performs against its own channel's median for the same format and age band
+
+import { VideoItem } from '../types';
+import { FetchOptions, fetchChannelSample, getContentType, isOnDemandVideo, median } from './youtubeService';
+import { QUOTA_COSTS } from './quotaService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bounds (in days) of the age bands; a week-old video is only compared with other young uploads
+export const AGE_BANDS = [7, 30, 90, 365, Infinity];
+// Videos at or above this multiple of their channel median are outliers
+export const OUTLIER_THRESHOLD = 2;
+// Smallest group whose median is trusted; thinner groups fall back to a broader one
+const MIN_GROUP_SIZE = 3;
+// Uploads sampled per channel; a feed window, so most baselines cost a single videos.list call
+const BASELINE_UPLOADS = 15;
+const BASELINE_TTL = 6 * 60 * 60 * 1000;
+
+export interface BaselineGroup {
+  medianViews: number;
+  count: number;
+}
+
+export interface ChannelBaseline {
+  channelId: string;
+  builtAt: number;
+  // Keyed by "<format>:<band>", "<format>" and "all"
+  groups: Record<string, BaselineGroup>;
+}
+
+// Baselines of this session; the sampled videos themselves are also in the response cache
+const baselineCache = new Map<string, ChannelBaseline>();
+
+// --- BASELINES ---
+const formatOf = (video: VideoItem) => (getContentType(video) === 'short' ? 'short' : 'long');
+
+export const getAgeBand = (video: VideoItem, now: number): number => {
+  const ageDays = (now - Date.parse(video.publishedAt)) / DAY_MS;
+  return AGE_BANDS.findIndex(max => ageDays < max);
+};
+
+// Most specific group first
+const groupKeys = (video: VideoItem, now: number): string[] => {
+  const format = formatOf(video);
+  return [`${format}:${getAgeBand(video, now)}`, format, 'all'];
+};
+
+export const buildChannelBaseline = (channelId: string, videos: VideoItem[], now: number = Date.now()): ChannelBaseline => {
+  const views = new Map<string, number[]>();
+  videos
+    .filter(v => v.channelId === channelId && isOnDemandVideo(v))
+    .forEach(v => groupKeys(v, now).forEach(key => views.set(key, [...(views.get(key) || []), v.viewCountRaw])));
+
+  const groups: Record<string, BaselineGroup> = {};
+  views.forEach((values, key) => {
+    groups[key] = { medianViews: median(values), count: values.length };
+  });
+  return { channelId, builtAt: now, groups };
+};
+
+/**
+ * A video's views as a multiple of its channel's median for the same format and age band.
+ * When that group is too thin, the format's median (any age) is used, then the whole channel's.
+ * Undefined for streams and unreleased videos, or when the channel has too few uploads to judge.
+ */
+export const getOutlierMultiplier = (video: VideoItem, baseline: ChannelBaseline, now: number = Date.now()): number | undefined => {
+  if (!isOnDemandVideo(video)) return undefined;
+  const group = groupKeys(video, now)
+    .map(key => baseline.groups[key])
+    .find(g => g && g.count >= MIN_GROUP_SIZE && g.medianViews > 0);
+  return group ? video.viewCountRaw / group.medianViews : undefined;
+};
+
+// Videos with a usable baseline get their multiplier and outlier flag; the rest are returned as they are
+export const scoreVideos = (videos: VideoItem[], baselines: Record<string, ChannelBaseline>, now: number = Date.now()): VideoItem[] =>
+  videos.map(v => {
+    const baseline = baselines[v.channelId];
+    const multiplier = baseline && getOutlierMultiplier(v, baseline, now);
+    if (multiplier === undefined) return v;
+    return { ...v, outlierMultiplier: parseFloat(multiplier.toFixed(1)), isOutlier: multiplier >= OUTLIER_THRESHOLD };
+  });
+
+export const formatMultiplier = (multiplier: number): string => `${multiplier.toFixed(1)}x`;
+
+// --- LAZY LOADING ---
+export const getCachedBaseline = (channelId: string, now: number = Date.now()): ChannelBaseline | null => {
+  const cached = baselineCache.get(channelId);
+  return cached && now - cached.builtAt < BASELINE_TTL ? cached : null;
+};
+
+export const cacheBaseline = (baseline: ChannelBaseline) => baselineCache.set(baseline.channelId, baseline);
+
+// Worst case per channel: uploads playlist lookup, one playlist page when the feed is unavailable, one videos.list
+export const estimateBaselineCost = (channels: number): number =>
+  channels * (QUOTA_COSTS.channels + QUOTA_COSTS.playlistItems + QUOTA_COSTS.videos);
+
+/**
+ * Baseline of a channel that only appears in search or trending results, from its latest uploads.
+ * Deleted channels throw NotFoundError rather than falling back to a 100-unit search.
+ */
+export const loadChannelBaseline = async (apiKey: string, channelId: string, options: FetchOptions = {}): Promise<ChannelBaseline> => {
+  const cached = getCachedBaseline(channelId);
+  if (cached) return cached;
+
+  const uploads = await fetchChannelSample(
+    apiKey,
+    channelId,
+    { limit: BASELINE_UPLOADS, match: isOnDemandVideo, allowSearch: false },
+    options
+  );
+  const baseline = buildChannelBaseline(channelId, uploads);
+  cacheBaseline(baseline);
+  return baseline;
+};
@@ -5,6 +5,7 @@ import jsPDF from 'jspdf';
 import { VideoItem, ChannelStats } from '../types';
 import { formatNumber } from './youtubeService';
 import { calculateAllVideoScores, getAverageScores, VideoWithScores } from './performanceScoreService';
+import { getMetricBasis } from './ageMetricsService';
 
 interface ReportData {
   channelTitle: string;
@@ -143,8 +144,9 @@ export const generatePDFReport = async (data: ReportData): Promise<void> => {
   let avgThumbnailScore = 50;
   
   try {
-    scoredVideos = calculateAllVideoScores(videosForPDF);
-    const scores = getAverageScores(videosForPDF);
+    const basis = getMetricBasis();
+    scoredVideos = calculateAllVideoScores(videosForPDF, basis);
+    const scores = getAverageScores(videosForPDF, basis);
     avgTitleScore = scores.avgTitleScore;
     avgThumbnailScore = scores.avgThumbnailScore;
   } catch (e) {
@@ -613,7 +615,7 @@ export const generatePDFReport = async (data: ReportData): Promise<void> => {
       doc.roundedRect(badgeX, thumbY + thumbH + 1, 18, 5, 1, 1, 'F');
       doc.setFontSize(5);
       doc.setTextColor(255, 255, 255);
-      doc.text('OUTLIER', badgeX + 9, thumbY + thumbH + 4.5, { align: 'center' });
+      doc.text(video.outlierMultiplier ? `${video.outlierMultiplier.toFixed(1)}x` : 'OUTLIER', badgeX + 9, thumbY + thumbH + 4.5, { align: 'center' });
     }
 
     // Video info - right side
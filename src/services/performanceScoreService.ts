@@ -2,6 +2,7 @@
 
 import { VideoItem } from '../types';
 import { analyzeTitleScore } from './titleScoreService';
+import { getLikeMetric, getMetricLabel, getViewMetric, MetricBasis } from './ageMetricsService';
 
 export interface PerformanceScore {
   totalScore: number;
@@ -68,14 +69,15 @@ const getGrade = (score: number): 'A' | 'B' | 'C' | 'D' | 'F' => {
   return 'F';
 };
 
-// Calculate Title Performance Score
-export const calculateTitlePerformanceScore = (video: VideoItem, allVideos: VideoItem[]): PerformanceScore => {
-  const allViews = allVideos.map(v => v.viewCountRaw);
-  const allLikes = allVideos.map(v => v.likeCountRaw);
+// Calculate Title Performance Score; an age-normalized basis ranks views and likes per day or per first 30 days
+export const calculateTitlePerformanceScore = (video: VideoItem, allVideos: VideoItem[], basis: MetricBasis = 'raw'): PerformanceScore => {
+  const now = Date.now();
+  const allViews = allVideos.map(v => getViewMetric(v, basis, now));
+  const allLikes = allVideos.map(v => getLikeMetric(v, basis, now));
   const allER = allVideos.map(v => v.engagementRate);
   
-  const viewsPercentile = getPercentile(video.viewCountRaw, allViews);
-  const likesPercentile = getPercentile(video.likeCountRaw, allLikes);
+  const viewsPercentile = getPercentile(getViewMetric(video, basis, now), allViews);
+  const likesPercentile = getPercentile(getLikeMetric(video, basis, now), allLikes);
   const erPercentile = getPercentile(video.engagementRate, allER);
   
   // Get text analysis score (from existing titleScoreService)
@@ -98,8 +100,8 @@ export const calculateTitlePerformanceScore = (video: VideoItem, allVideos: Vide
     erPercentile,
     textScore,
     breakdown: {
-      views: { score: Math.round(viewsPercentile * 0.35), max: 35, label: `Top ${100 - viewsPercentile}% in views` },
-      likes: { score: Math.round(likesPercentile * 0.25), max: 25, label: `Top ${100 - likesPercentile}% in likes` },
+      views: { score: Math.round(viewsPercentile * 0.35), max: 35, label: `Top ${100 - viewsPercentile}% in ${getMetricLabel('views', basis)}` },
+      likes: { score: Math.round(likesPercentile * 0.25), max: 25, label: `Top ${100 - likesPercentile}% in ${getMetricLabel('likes', basis)}` },
       engagement: { score: Math.round(erPercentile * 0.20), max: 20, label: `${video.engagementRate}% engagement rate` },
       text: { score: Math.round(textScore * 0.20), max: 20, label: textAnalysis.suggestions[0] || 'Good title structure' }
     }
@@ -107,11 +109,12 @@ export const calculateTitlePerformanceScore = (video: VideoItem, allVideos: Vide
 };
 
 // Calculate Thumbnail Performance Score
-export const calculateThumbnailPerformanceScore = (video: VideoItem, allVideos: VideoItem[]): PerformanceScore => {
-  const allViews = allVideos.map(v => v.viewCountRaw);
+export const calculateThumbnailPerformanceScore = (video: VideoItem, allVideos: VideoItem[], basis: MetricBasis = 'raw'): PerformanceScore => {
+  const now = Date.now();
+  const allViews = allVideos.map(v => getViewMetric(v, basis, now));
   const allER = allVideos.map(v => v.engagementRate);
   
-  const viewsPercentile = getPercentile(video.viewCountRaw, allViews);
+  const viewsPercentile = getPercentile(getViewMetric(video, basis, now), allViews);
   const erPercentile = getPercentile(video.engagementRate, allER);
   const recencyBonus = calculateRecencyBonus(video);
   
@@ -130,7 +133,7 @@ export const calculateThumbnailPerformanceScore = (video: VideoItem, allVideos:
     erPercentile,
     recencyBonus,
     breakdown: {
-      views: { score: Math.round(viewsPercentile * 0.40), max: 40, label: `Top ${100 - viewsPercentile}% in views (CTR proxy)` },
+      views: { score: Math.round(viewsPercentile * 0.40), max: 40, label: `Top ${100 - viewsPercentile}% in ${getMetricLabel('views', basis)} (CTR proxy)` },
       likes: { score: 0, max: 0, label: '' }, // Not displayed
       engagement: { score: Math.round(erPercentile * 0.30), max: 30, label: `${video.engagementRate}% keeps viewers engaged` },
       recency: { score: Math.round(recencyBonus * 0.30), max: 30, label: `Quick view acquisition bonus` }
@@ -139,31 +142,31 @@ export const calculateThumbnailPerformanceScore = (video: VideoItem, allVideos:
 };
 
 // Calculate scores for all videos
-export const calculateAllVideoScores = (videos: VideoItem[]): VideoWithScores[] => {
+export const calculateAllVideoScores = (videos: VideoItem[], basis: MetricBasis = 'raw'): VideoWithScores[] => {
   return videos.map(video => ({
     ...video,
-    titleScore: calculateTitlePerformanceScore(video, videos),
-    thumbnailScore: calculateThumbnailPerformanceScore(video, videos)
+    titleScore: calculateTitlePerformanceScore(video, videos, basis),
+    thumbnailScore: calculateThumbnailPerformanceScore(video, videos, basis)
   }));
 };
 
 // Get top performing titles
-export const getTopTitles = (videos: VideoItem[], count: number = 10): VideoWithScores[] => {
-  const scored = calculateAllVideoScores(videos);
+export const getTopTitles = (videos: VideoItem[], count: number = 10, basis: MetricBasis = 'raw'): VideoWithScores[] => {
+  const scored = calculateAllVideoScores(videos, basis);
   return scored.sort((a, b) => b.titleScore.totalScore - a.titleScore.totalScore).slice(0, count);
 };
 
 // Get top performing thumbnails  
-export const getTopThumbnails = (videos: VideoItem[], count: number = 10): VideoWithScores[] => {
-  const scored = calculateAllVideoScores(videos);
+export const getTopThumbnails = (videos: VideoItem[], count: number = 10, basis: MetricBasis = 'raw'): VideoWithScores[] => {
+  const scored = calculateAllVideoScores(videos, basis);
   return scored.sort((a, b) => b.thumbnailScore.totalScore - a.thumbnailScore.totalScore).slice(0, count);
 };
 
 // Get average scores
-export const getAverageScores = (videos: VideoItem[]): { avgTitleScore: number; avgThumbnailScore: number } => {
+export const getAverageScores = (videos: VideoItem[], basis: MetricBasis = 'raw'): { avgTitleScore: number; avgThumbnailScore: number } => {
   if (videos.length === 0) return { avgTitleScore: 0, avgThumbnailScore: 0 };
   
-  const scored = calculateAllVideoScores(videos);
+  const scored = calculateAllVideoScores(videos, basis);
   const avgTitleScore = Math.round(scored.reduce((sum, v) => sum + v.titleScore.totalScore, 0) / scored.length);
   const avgThumbnailScore = Math.round(scored.reduce((sum, v) => sum + v.thumbnailScore.totalScore, 0) / scored.length);
   
@@ -0,0 +1,185 @@
+// Quota Service - Central per-endpoint cost table and per-day usage history
+
+import type { YouTubeEndpoint } from './youtubeApiClient';
+
+export const QUOTA_HISTORY_KEY = 'yt_quota_history_v1';
+const KEY_USAGE_STORAGE = 'yt_quota_keys_v1';
+const LEGACY_QUOTA_KEYS = ['yt_quota_usage_v1', 'yt_quota_date_v1'];
+
+// YouTube resets every project's quota at midnight Pacific Time
+export const QUOTA_TIMEZONE = 'America/Los_Angeles';
+
+// Days of history kept in localStorage
+const HISTORY_DAYS = 90;
+
+// Default daily allowance of a Google Cloud project
+export const QUOTA_LIMIT = 10000;
+
+// Units charged per list call, see https://developers.google.com/youtube/v3/determine_quota_cost
+export const QUOTA_COSTS: Record<YouTubeEndpoint, number> = {
+  videos: 1,
+  channels: 1,
+  playlistItems: 1,
+  search: 100,
+  commentThreads: 1,
+  videoCategories: 1,
+};
+
+// Maximum items a single list call returns
+export const PAGE_SIZE = 50;
+
+export type QuotaFeature = 'analyze' | 'trending' | 'benchmark' | 'content_gap' | 'comments' | 'watchlist' | 'outliers' | 'other';
+
+export const QUOTA_FEATURES: QuotaFeature[] = ['analyze', 'trending', 'benchmark', 'content_gap', 'comments', 'watchlist', 'outliers', 'other'];
+
+export type QuotaDay = Partial<Record<QuotaFeature, number>>;
+
+// Keyed by Pacific calendar day (YYYY-MM-DD)
+export type QuotaHistory = Record<string, QuotaDay>;
+
+// Features with calls in flight, most recently started last
+const activeFeatures: QuotaFeature[] = [];
+
+// --- PACIFIC TIME HELPERS ---
+const pacificParts = (date: Date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: QUOTA_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+// Quota day a moment belongs to, as YYYY-MM-DD in Pacific Time
+export const getQuotaDayKey = (date: Date = new Date()): string => {
+  const { year, month, day } = pacificParts(date);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Minutes Pacific Time is ahead of UTC at a moment (negative; daylight saving included)
+const pacificOffset = (date: Date): number => {
+  const { year, month, day, hour, minute, second } = pacificParts(date);
+  return Math.round((Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+/**
+ * Next moment the daily quota resets (midnight Pacific Time). Computed from tomorrow's wall-clock date,
+ * so a day that gains or loses an hour to daylight saving still resets at midnight.
+ */
+export const getNextQuotaReset = (now: Date = new Date()): Date => {
+  const { year, month, day } = pacificParts(now);
+  const midnight = Date.UTC(year, month - 1, day + 1);
+  // The offset of the day before may differ; midnight itself is never skipped, as DST changes at 02:00
+  const guess = midnight - pacificOffset(now) * 60000;
+  return new Date(midnight - pacificOffset(new Date(guess)) * 60000);
+};
+
+// --- HISTORY STORAGE ---
+export const getQuotaHistory = (): QuotaHistory => {
+  try {
+    return JSON.parse(localStorage.getItem(QUOTA_HISTORY_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveQuotaHistory = (history: QuotaHistory) => {
+  const keep = Object.keys(history).sort().slice(-HISTORY_DAYS);
+  const trimmed: QuotaHistory = {};
+  keep.forEach(day => { trimmed[day] = history[day]; });
+  localStorage.setItem(QUOTA_HISTORY_KEY, JSON.stringify(trimmed));
+  LEGACY_QUOTA_KEYS.forEach(k => localStorage.removeItem(k));
+};
+
+export const sumQuotaDay = (day: QuotaDay = {}): number =>
+  QUOTA_FEATURES.reduce((sum, feature) => sum + (day[feature] || 0), 0);
+
+export const getQuotaUsage = (): number => sumQuotaDay(getQuotaHistory()[getQuotaDayKey()]);
+
+export const getRemainingQuota = (): number => Math.max(0, QUOTA_LIMIT - getQuotaUsage());
+
+export type QuotaSeriesPoint = { day: string } & Record<QuotaFeature, number>;
+
+// Last `days` quota days, oldest first, with empty days filled in
+export const getQuotaSeries = (days: number = 30): QuotaSeriesPoint[] => {
+  const history = getQuotaHistory();
+  const series: QuotaSeriesPoint[] = [];
+  // Step back from noon of the current quota day so DST shifts never skip a day
+  const anchor = getNextQuotaReset().getTime() - 12 * 60 * 60 * 1000;
+  for (let i = days - 1; i >= 0; i--) {
+    const day = getQuotaDayKey(new Date(anchor - i * 24 * 60 * 60 * 1000));
+    const entry = history[day] || {};
+    series.push({
+      day,
+      analyze: entry.analyze || 0,
+      trending: entry.trending || 0,
+      benchmark: entry.benchmark || 0,
+      content_gap: entry.content_gap || 0,
+      comments: entry.comments || 0,
+      watchlist: entry.watchlist || 0,
+      outliers: entry.outliers || 0,
+      other: entry.other || 0,
+    });
+  }
+  return series;
+};
+
+// --- TRACKING ---
+/**
+ * Attribute every call made while `task` runs to a feature.
+ * Background watchlist polls may overlap a feature run from the UI; calls then go to the most
+ * recently started one, and each run only removes itself when it ends.
+ */
+export const runWithQuotaFeature = async <T>(feature: QuotaFeature, task: () => Promise<T>): Promise<T> => {
+  activeFeatures.push(feature);
+  try {
+    return await task();
+  } finally {
+    activeFeatures.splice(activeFeatures.lastIndexOf(feature), 1);
+  }
+};
+
+const getCurrentFeature = (): QuotaFeature => activeFeatures[activeFeatures.length - 1] || 'other';
+
+// --- PER-KEY USAGE ---
+// Units per pool key, keyed by Pacific day then key ID; only today is kept
+const getKeyUsageHistory = (): Record<string, Record<string, number>> => {
+  try {
+    return JSON.parse(localStorage.getItem(KEY_USAGE_STORAGE) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const getKeyQuotaUsage = (keyId: string): number =>
+  getKeyUsageHistory()[getQuotaDayKey()]?.[keyId] || 0;
+
+const trackKeyQuota = (keyId: string, units: number) => {
+  const dayKey = getQuotaDayKey();
+  const today = getKeyUsageHistory()[dayKey] || {};
+  today[keyId] = (today[keyId] || 0) + units;
+  localStorage.setItem(KEY_USAGE_STORAGE, JSON.stringify({ [dayKey]: today }));
+};
+
+// Charge one call of the given endpoint against today's counter (and the serving key's, if pooled)
+export const trackQuota = (endpoint: YouTubeEndpoint, keyId?: string) => {
+  const history = getQuotaHistory();
+  const dayKey = getQuotaDayKey();
+  const day = history[dayKey] || {};
+  const feature = getCurrentFeature();
+  day[feature] = (day[feature] || 0) + QUOTA_COSTS[endpoint];
+  history[dayKey] = day;
+  saveQuotaHistory(history);
+  if (keyId) trackKeyQuota(keyId, QUOTA_COSTS[endpoint]);
+  window.dispatchEvent(new Event('quotaUpdated'));
+};
+
+// Cost of paging through `items` results on an endpoint
+export const estimatePagedCost = (endpoint: YouTubeEndpoint, items: number): number =>
+  Math.ceil(items / PAGE_SIZE) * QUOTA_COSTS[endpoint];
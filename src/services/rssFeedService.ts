@@ -0,0 +1,83 @@
+// RSS Feed Service - Zero-quota discovery of a channel's latest uploads through its public Atom feed
+
+import { apiDataSource, getDataSource } from './youtubeApiClient';
+
+const ATOM_NS = 'http://www.w3.org/2005/Atom';
+const YT_NS = 'http://www.youtube.com/xml/schemas/2015';
+
+// YouTube serves no CORS headers on feeds, so requests go through a same-origin proxy.
+// Only the Vite dev server proxies /yt-feeds; production builds need VITE_FEED_BASE_URL (see README)
+const FEED_BASE_URL = import.meta.env.VITE_FEED_BASE_URL || '/yt-feeds';
+
+// Set once the proxy turns out to be missing, so the session stops asking for feeds
+let feedsUnavailable = false;
+
+// A feed only ever lists this many of the newest uploads
+export const FEED_WINDOW = 15;
+
+export interface FeedEntry {
+  videoId: string;
+  title: string;
+  publishedAt: string;
+}
+
+export interface ChannelFeed {
+  channelId: string;
+  channelTitle: string;
+  // Newest first, like the uploads playlist
+  entries: FeedEntry[];
+}
+
+const childText = (parent: Element, ns: string, name: string): string =>
+  parent.getElementsByTagNameNS(ns, name)[0]?.textContent?.trim() || '';
+
+export const parseChannelFeed = (xml: string): ChannelFeed => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const feed = doc.documentElement;
+  if (feed.getElementsByTagName('parsererror').length || feed.localName !== 'feed') {
+    throw new Error('Feed RSS tidak valid.');
+  }
+
+  const entries = Array.from(feed.getElementsByTagNameNS(ATOM_NS, 'entry'))
+    .map(entry => ({
+      videoId: childText(entry, YT_NS, 'videoId'),
+      title: childText(entry, ATOM_NS, 'title'),
+      publishedAt: childText(entry, ATOM_NS, 'published'),
+    }))
+    .filter(entry => entry.videoId)
+    .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+
+  // Feed-level children come before the first entry, so the first match is the channel's own
+  return {
+    channelId: childText(feed, YT_NS, 'channelId'),
+    channelTitle: childText(feed, ATOM_NS, 'title'),
+    entries,
+  };
+};
+
+/**
+ * Fetch a channel's feed, or null when it is unavailable (offline data source, proxy missing,
+ * network failure). Callers fall back to the API in that case; cancellation is rethrown.
+ */
+export const fetchChannelFeed = async (channelId: string, signal?: AbortSignal): Promise<ChannelFeed | null> => {
+  // Fixtures, the demo and recordings only know API responses
+  if (getDataSource() !== apiDataSource || feedsUnavailable) return null;
+
+  try {
+    const response = await fetch(`${FEED_BASE_URL}/videos.xml?channel_id=${encodeURIComponent(channelId)}`, { signal });
+    if (!response.ok) return null;
+    const body = await response.text();
+    try {
+      return parseChannelFeed(body);
+    } catch {
+      // YouTube always answers with a feed; anything else (typically the SPA's index.html) means no proxy
+      feedsUnavailable = true;
+      console.warn(`RSS feeds disabled for this session: ${FEED_BASE_URL} does not serve YouTube feeds. Set VITE_FEED_BASE_URL to a feed proxy.`);
+      return null;
+    }
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.warn(`RSS feed for ${channelId} unavailable, using the API:`, e);
+    return null;
+  }
+};
@@ -0,0 +1,209 @@
+// Schedule Service - Upload slot recommendations that account for sample size, and their calendar export
+
+import { VideoItem } from '../types';
+import { getContentType, isOnDemandVideo } from './youtubeService';
+import { getViewMetric, MetricBasis } from './ageMetricsService';
+import { DAY_NAMES, getTimeZoneLabel, getTimeZoneOffset, getZonedSlot } from './timeZoneService';
+
+// Slots with fewer uploads are never recommended
+export const MIN_SLOT_UPLOADS = 2;
+// Weight of the overall mean, in uploads: a slot needs this many videos before its own mean counts as much
+const PRIOR_WEIGHT = 3;
+// z for a 90% interval around a slot's mean
+const Z_90 = 1.645;
+const RECOMMENDED_SLOTS = 3;
+
+export type SlotFormat = 'long' | 'shorts';
+
+export interface SlotStats {
+  day: number;
+  hour: number;
+  count: number;
+  meanViews: number;
+  // Mean pulled toward the overall mean by PRIOR_WEIGHT uploads; what slots are ranked by
+  shrunkViews: number;
+  // 90% interval of the mean; equal to the mean for single-upload slots
+  low: number;
+  high: number;
+  // Shrunk mean relative to the overall mean (1.2 = 20% above average)
+  lift: number;
+}
+
+export interface SlotRecommendations {
+  format: SlotFormat;
+  sampleSize: number;
+  overallMean: number;
+  best: SlotStats[];
+  worst: SlotStats[];
+}
+
+export interface SlotOptions {
+  timeZone: string;
+  basis?: MetricBasis;
+  minCount?: number;
+  now?: number;
+}
+
+// --- RECOMMENDATIONS ---
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+
+const slotStats = (day: number, hour: number, values: number[], overallMean: number): SlotStats => {
+  const count = values.length;
+  const meanViews = mean(values);
+  const variance = count > 1 ? values.reduce((sum, v) => sum + (v - meanViews) ** 2, 0) / (count - 1) : 0;
+  const margin = Z_90 * Math.sqrt(variance / count);
+  const shrunkViews = (meanViews * count + overallMean * PRIOR_WEIGHT) / (count + PRIOR_WEIGHT);
+  return {
+    day,
+    hour,
+    count,
+    meanViews,
+    shrunkViews,
+    low: Math.max(0, meanViews - margin),
+    high: meanViews + margin,
+    lift: overallMean > 0 ? shrunkViews / overallMean : 0,
+  };
+};
+
+/**
+ * Every weekday/hour slot with uploads, in the given zone. Slot means are shrunk toward the overall
+ * mean, so a slot with one lucky video cannot outrank a slot that did well across many uploads.
+ */
+export const getSlotStats = (videos: VideoItem[], options: SlotOptions): SlotStats[] => {
+  const { timeZone, basis = 'raw', now = Date.now() } = options;
+  const buckets = new Map<string, number[]>();
+  const values = videos.map(v => {
+    const { day, hour } = getZonedSlot(new Date(v.publishedAt), timeZone);
+    const value = getViewMetric(v, basis, now);
+    const key = `${day}:${hour}`;
+    buckets.set(key, [...(buckets.get(key) || []), value]);
+    return value;
+  });
+  const overallMean = mean(values);
+
+  return Array.from(buckets.entries()).map(([key, slotValues]) => {
+    const [day, hour] = key.split(':').map(Number);
+    return slotStats(day, hour, slotValues, overallMean);
+  });
+};
+
+const recommendSlots = (format: SlotFormat, videos: VideoItem[], options: SlotOptions): SlotRecommendations => {
+  const minCount = options.minCount ?? MIN_SLOT_UPLOADS;
+  const eligible = getSlotStats(videos, options)
+    .filter(s => s.count >= minCount)
+    .sort((a, b) => b.shrunkViews - a.shrunkViews);
+  const best = eligible.slice(0, RECOMMENDED_SLOTS);
+
+  return {
+    format,
+    sampleSize: videos.length,
+    overallMean: mean(videos.map(v => getViewMetric(v, options.basis || 'raw', options.now ?? Date.now()))),
+    best,
+    // A slot is never listed as both best and worst
+    worst: eligible.slice(best.length).slice(-RECOMMENDED_SLOTS).reverse(),
+  };
+};
+
+// Shorts and long-form reach viewers differently, so each gets its own recommendations
+export const getSlotRecommendations = (videos: VideoItem[], options: SlotOptions): Record<SlotFormat, SlotRecommendations> => {
+  const onDemand = videos.filter(isOnDemandVideo);
+  return {
+    long: recommendSlots('long', onDemand.filter(v => getContentType(v) !== 'short'), options),
+    shorts: recommendSlots('shorts', onDemand.filter(v => getContentType(v) === 'short'), options),
+  };
+};
+
+// --- CALENDAR EXPORT ---
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ICS_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const escapeIcsText = (text: string) => text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// UTC moment of the slot's next occurrence in the zone, with the offset in effect on that date
+const nextOccurrence = (day: number, hour: number, timeZone: string, now: number): number => {
+  const local = new Date(now + getTimeZoneOffset(timeZone, new Date(now)) * 60000);
+  let daysAhead = (day - local.getUTCDay() + 7) % 7;
+  if (daysAhead === 0 && hour <= local.getUTCHours()) daysAhead = 7;
+  const date = new Date(local.getTime() + daysAhead * DAY_MS);
+  const wallClock = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), hour);
+  return wallClock - getTimeZoneOffset(timeZone, new Date(wallClock)) * 60000;
+};
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) || 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Content lines longer than 75 octets continue on lines starting with a space (RFC 5545 3.1), never inside a character
+const foldIcsLine = (line: string): string => {
+  let folded = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (octets + size > 75) {
+      folded += '\r\n ';
+      octets = 1;
+    }
+    folded += char;
+    octets += size;
+  }
+  return folded;
+};
+
+export interface CalendarChannel {
+  id?: string;
+  title?: string;
+}
+
+// Stable per channel, so importing a newer export updates the same events instead of duplicating them
+const channelUidPart = (channel: CalendarChannel): string =>
+  channel.id || (channel.title || 'channel').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'channel';
+
+const toUtcStamp = (at: number) => new Date(at).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * A calendar with one weekly recurring event per recommended slot. Start times are in UTC, since a TZID
+ * without an embedded VTIMEZONE is invalid; in zones with daylight saving the event keeps the UTC time.
+ */
+export const buildSlotCalendar = (
+  recommendations: SlotRecommendations[],
+  timeZone: string,
+  channel: CalendarChannel = {},
+  now: number = Date.now()
+): string => {
+  const channelTitle = channel.title || 'Channel';
+  const uidChannel = channelUidPart(channel);
+  const stamp = toUtcStamp(now);
+  const events = recommendations.flatMap(rec => rec.best.flatMap((slot, i) => {
+    const label = rec.format === 'shorts' ? 'Shorts' : 'Video';
+    const start = nextOccurrence(slot.day, slot.hour, timeZone, now);
+    return [
+      'BEGIN:VEVENT',
+      `UID:slot-${uidChannel}-${rec.format}-${slot.day}-${slot.hour}@yt-analyzer`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${toUtcStamp(start)}`,
+      'DURATION:PT1H',
+      // The weekday in UTC, which differs from the local one for slots near midnight
+      `RRULE:FREQ=WEEKLY;BYDAY=${ICS_DAYS[new Date(start).getUTCDay()]}`,
+      `SUMMARY:${escapeIcsText(`Upload ${label} #${i + 1} - ${channelTitle}`)}`,
+      `DESCRIPTION:${escapeIcsText(
+        `${DAY_NAMES[slot.day]} ${pad(slot.hour)}:00 ${getTimeZoneLabel(timeZone)}. ` +
+        `${slot.count} upload, ${Math.round(slot.lift * 100)}% of the channel average.`
+      )}`,
+      'END:VEVENT',
+    ];
+  }));
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//YT Analyzer Pro//Upload Slots//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(`Upload Schedule - ${channelTitle}`)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldIcsLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,106 @@
+// Shorts Classifier - Decide whether a video is a Short from duration and hashtags
+// and, optionally, a probe of its youtube.com/shorts/ URL
+
+import { VideoItem } from '../types';
+import { YouTubeVideoResource } from './youtubeApiClient';
+
+// Shorts may run up to three minutes; anything longer is a regular upload
+export const SHORTS_MAX_DURATION_SEC = 180;
+
+// Confidence at or above which a video is treated as a Short
+export const SHORTS_THRESHOLD = 0.5;
+
+const SHORTS_HASHTAG = /#shorts?\b/i;
+
+/**
+ * Confidence (0-1) that a video is a Short. Up to a minute the duration alone reaches the threshold,
+ * since most Shorts carry no hashtag; the URL probe, when configured, still settles those borderline
+ * cases. Between one and three minutes a #shorts hashtag or the probe has to decide.
+ * (API thumbnails are always landscape, so they carry no signal.)
+ */
+export const getShortsConfidence = (v: YouTubeVideoResource, durationSec: number): number => {
+  if (!durationSec || durationSec > SHORTS_MAX_DURATION_SEC) return 0;
+
+  let confidence = durationSec <= 60 ? SHORTS_THRESHOLD : 0.2;
+  const snippet = v.snippet;
+  if (snippet && (SHORTS_HASHTAG.test(snippet.title) || SHORTS_HASHTAG.test(snippet.description || ''))) {
+    confidence += 0.45;
+  }
+
+  return Math.min(1, confidence);
+};
+
+// --- URL PROBE ---
+/**
+ * Definitive answer for one video: true when it is a Short, false when it is not,
+ * null when the probe cannot tell (network failure, blocked request).
+ */
+export type ShortsProbe = (videoId: string, signal?: AbortSignal) => Promise<boolean | null>;
+
+// Below this the heuristic is confident enough on its own, either way
+const PROBE_MIN_CONFIDENCE = 0.2;
+const PROBE_MAX_CONFIDENCE = 0.8;
+
+/**
+ * youtube.com/shorts/{id} serves the Short itself, but redirects to /watch for regular videos.
+ * YouTube sends no CORS headers, so this needs a same-origin proxy that passes redirects through
+ * (the Vite dev server proxies /yt-shorts).
+ */
+export const createShortsUrlProbe = (baseUrl: string): ShortsProbe => async (videoId, signal) => {
+  try {
+    const response = await fetch(`${baseUrl}/${encodeURIComponent(videoId)}`, { method: 'HEAD', redirect: 'manual', signal });
+    if (response.type === 'opaqueredirect' || (response.status >= 300 && response.status < 400)) return false;
+    return response.ok ? true : null;
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    return null;
+  }
+};
+
+// Off unless a deployment points VITE_SHORTS_PROBE_URL at a proxy
+const PROBE_URL = import.meta.env.VITE_SHORTS_PROBE_URL;
+let activeProbe: ShortsProbe | null = PROBE_URL ? createShortsUrlProbe(PROBE_URL) : null;
+const probeResults = new Map<string, boolean>();
+
+export const setShortsProbe = (probe: ShortsProbe | null) => {
+  activeProbe = probe;
+  probeResults.clear();
+};
+
+const applyShortsDecision = (video: VideoItem, isShort: boolean): VideoItem => ({
+  ...video,
+  isShort,
+  contentType: isShort ? 'short' : 'upload',
+  shortsConfidence: isShort ? 1 : 0,
+});
+
+/**
+ * Settle borderline videos with the active probe, if any. Answers are remembered for the session,
+ * and videos the probe cannot tell keep their heuristic classification.
+ */
+export const refineShortsWithProbe = async (videos: VideoItem[], signal?: AbortSignal): Promise<VideoItem[]> => {
+  if (!activeProbe) return videos;
+  const probe = activeProbe;
+
+  const isClassifiable = (video: VideoItem) => video.contentType === 'short' || video.contentType === 'upload';
+  const isCandidate = (video: VideoItem) =>
+    isClassifiable(video)
+    && video.durationSec <= SHORTS_MAX_DURATION_SEC
+    && video.shortsConfidence >= PROBE_MIN_CONFIDENCE
+    && video.shortsConfidence <= PROBE_MAX_CONFIDENCE
+    && !probeResults.has(video.id);
+
+  // A few requests at a time, like thumbnail downloads
+  const pending = videos.filter(isCandidate);
+  const BATCH_SIZE = 5;
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    await Promise.all(pending.slice(i, i + BATCH_SIZE).map(async video => {
+      const answer = await probe(video.id, signal);
+      if (answer !== null) probeResults.set(video.id, answer);
+    }));
+  }
+
+  return videos.map(video => (isClassifiable(video) && probeResults.has(video.id)
+    ? applyShortsDecision(video, probeResults.get(video.id))
+    : video));
+};
@@ -0,0 +1,162 @@
+// Snapshot Service - Timestamped history of video and channel counters in IndexedDB, for view velocity
+
+import { ChannelSnapshot, VideoSnapshot } from '../types';
+
+// Separate from the response cache, so clearing the cache keeps the history
+const DB_NAME = 'yt_analyzer_history';
+const DB_VERSION = 1;
+const VIDEO_STORE = 'videoSnapshots';
+const CHANNEL_STORE = 'channelSnapshots';
+
+// Oldest snapshots beyond this many per video or channel are dropped
+export const MAX_SNAPSHOTS = 60;
+
+type StoreName = typeof VIDEO_STORE | typeof CHANNEL_STORE;
+
+// In-memory fallback for environments without IndexedDB (tests, private browsing), keyed by store and owner
+const memoryStore = new Map<string, Array<VideoSnapshot | ChannelSnapshot>>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      // One record per owner and moment, so a key range reads one owner's history in order
+      req.result.createObjectStore(VIDEO_STORE, { keyPath: ['videoId', 'at'] });
+      req.result.createObjectStore(CHANNEL_STORE, { keyPath: ['channelId', 'at'] });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => resolve(null);
+    req.onblocked = () => resolve(null);
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const ownerRange = (owner: string) => IDBKeyRange.bound([owner, 0], [owner, Infinity]);
+
+const addSnapshots = async <T extends VideoSnapshot | ChannelSnapshot>(
+  storeName: StoreName,
+  ownerOf: (snapshot: T) => string,
+  snapshots: T[]
+): Promise<void> => {
+  if (!snapshots.length) return;
+
+  try {
+    const db = await openDb();
+    if (!db) {
+      snapshots.forEach(snapshot => {
+        const key = `${storeName}:${ownerOf(snapshot)}`;
+        memoryStore.set(key, [...(memoryStore.get(key) || []), snapshot].slice(-MAX_SNAPSHOTS));
+      });
+      return;
+    }
+
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    await Promise.all(snapshots.map(async snapshot => {
+      store.put(snapshot);
+      const keys = await requestToPromise(store.getAllKeys(ownerRange(ownerOf(snapshot))));
+      keys.slice(0, Math.max(0, keys.length - MAX_SNAPSHOTS)).forEach(key => store.delete(key));
+    }));
+    await transactionDone(tx);
+  } catch (e) {
+    // History is a bonus; it must never break an analysis
+    console.warn('Snapshot write failed:', e);
+  }
+};
+
+const readSnapshots = async <T>(storeName: StoreName, owner: string): Promise<T[]> => {
+  try {
+    const db = await openDb();
+    if (!db) return [...(memoryStore.get(`${storeName}:${owner}`) || [])] as T[];
+    return await requestToPromise<T[]>(db.transaction(storeName, 'readonly').objectStore(storeName).getAll(ownerRange(owner)));
+  } catch (e) {
+    console.warn('Snapshot read failed:', e);
+    return [];
+  }
+};
+
+export const recordVideoSnapshots = (snapshots: VideoSnapshot[]): Promise<void> =>
+  addSnapshots<VideoSnapshot>(VIDEO_STORE, s => s.videoId, snapshots);
+
+export const recordChannelSnapshot = (snapshot: ChannelSnapshot): Promise<void> =>
+  addSnapshots<ChannelSnapshot>(CHANNEL_STORE, s => s.channelId, [snapshot]);
+
+// Oldest first
+export const getVideoSnapshots = (videoId: string): Promise<VideoSnapshot[]> =>
+  readSnapshots<VideoSnapshot>(VIDEO_STORE, videoId);
+
+// Histories of many videos in one transaction, for a whole result grid; videos without one are left out
+export const getVideoHistories = async (videoIds: string[]): Promise<Map<string, VideoSnapshot[]>> => {
+  const histories = new Map<string, VideoSnapshot[]>();
+  const ids = [...new Set(videoIds)];
+  if (!ids.length) return histories;
+
+  try {
+    const db = await openDb();
+    if (!db) {
+      ids.forEach(id => {
+        const history = memoryStore.get(`${VIDEO_STORE}:${id}`);
+        if (history?.length) histories.set(id, [...history] as VideoSnapshot[]);
+      });
+      return histories;
+    }
+
+    const store = db.transaction(VIDEO_STORE, 'readonly').objectStore(VIDEO_STORE);
+    const results = await Promise.all(ids.map(id => requestToPromise<VideoSnapshot[]>(store.getAll(ownerRange(id)))));
+    results.forEach((history, i) => {
+      if (history.length) histories.set(ids[i], history);
+    });
+  } catch (e) {
+    console.warn('Snapshot read failed:', e);
+  }
+  return histories;
+};
+
+export const getChannelSnapshots = (channelId: string): Promise<ChannelSnapshot[]> =>
+  readSnapshots<ChannelSnapshot>(CHANNEL_STORE, channelId);
+
+export const clearSnapshots = async (): Promise<void> => {
+  memoryStore.clear();
+  const db = await openDb();
+  if (!db) return;
+  const tx = db.transaction([VIDEO_STORE, CHANNEL_STORE], 'readwrite');
+  tx.objectStore(VIDEO_STORE).clear();
+  tx.objectStore(CHANNEL_STORE).clear();
+  await transactionDone(tx);
+};
+
+// --- VELOCITY ---
+/**
+ * Views gained per hour between consecutive snapshots, stamped at the later one.
+ * Snapshots closer together than a minute are skipped, since the counters barely move.
+ */
+export const getViewVelocity = (snapshots: VideoSnapshot[]): Array<{ at: number; viewsPerHour: number }> => {
+  const points: Array<{ at: number; viewsPerHour: number }> = [];
+  let previous: VideoSnapshot | undefined;
+
+  snapshots.forEach(snapshot => {
+    if (previous && snapshot.at - previous.at >= 60 * 1000) {
+      const hours = (snapshot.at - previous.at) / (60 * 60 * 1000);
+      points.push({ at: snapshot.at, viewsPerHour: Math.max(0, (snapshot.views - previous.views) / hours) });
+    }
+    if (!previous || snapshot.at - previous.at >= 60 * 1000) previous = snapshot;
+  });
+
+  return points;
+};
@@ -0,0 +1,106 @@
+// Time Zone Service - Weekday/hour slots in a chosen IANA time zone, for audience-relative schedule analysis
+
+export interface ScheduleTimeZone {
+  id: string;
+  label: string;
+}
+
+// Indonesia's three zones first; the rest cover the regions most channels analysed here target
+export const SCHEDULE_TIME_ZONES: ScheduleTimeZone[] = [
+  { id: 'Asia/Jakarta', label: 'WIB (Jakarta)' },
+  { id: 'Asia/Makassar', label: 'WITA (Makassar)' },
+  { id: 'Asia/Jayapura', label: 'WIT (Jayapura)' },
+  { id: 'Asia/Singapore', label: 'Singapore' },
+  { id: 'Asia/Kuala_Lumpur', label: 'Kuala Lumpur' },
+  { id: 'Asia/Bangkok', label: 'Bangkok' },
+  { id: 'Asia/Manila', label: 'Manila' },
+  { id: 'Asia/Tokyo', label: 'Tokyo' },
+  { id: 'Asia/Kolkata', label: 'India' },
+  { id: 'Europe/London', label: 'London' },
+  { id: 'Europe/Berlin', label: 'Berlin' },
+  { id: 'America/New_York', label: 'New York' },
+  { id: 'America/Los_Angeles', label: 'Los Angeles' },
+  { id: 'UTC', label: 'UTC' },
+];
+
+// Main audience zone of a channel's country; Indonesia defaults to WIB, where most viewers live
+const COUNTRY_TIME_ZONES: Record<string, string> = {
+  ID: 'Asia/Jakarta',
+  SG: 'Asia/Singapore',
+  MY: 'Asia/Kuala_Lumpur',
+  TH: 'Asia/Bangkok',
+  PH: 'Asia/Manila',
+  JP: 'Asia/Tokyo',
+  IN: 'Asia/Kolkata',
+  GB: 'Europe/London',
+  DE: 'Europe/Berlin',
+  US: 'America/New_York',
+};
+
+export const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface ZonedSlot {
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const getParts = (date: Date, timeZone: string): Record<string, string> =>
+  Object.fromEntries(getFormatter(timeZone).formatToParts(date).map(p => [p.type, p.value]));
+
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const getDefaultTimeZone = (country?: string): string =>
+  (country && COUNTRY_TIME_ZONES[country.toUpperCase()]) || getBrowserTimeZone();
+
+export const getTimeZoneLabel = (timeZone: string): string =>
+  SCHEDULE_TIME_ZONES.find(z => z.id === timeZone)?.label || timeZone;
+
+// Weekday (0 = Sunday), hour and minute of a moment as seen in a time zone
+export const getZonedSlot = (date: Date, timeZone: string): ZonedSlot => {
+  const parts = getParts(date, timeZone);
+  return { day: DAY_NAMES.indexOf(parts.weekday), hour: Number(parts.hour), minute: Number(parts.minute) };
+};
+
+// Minutes the zone is ahead of UTC at a given moment (daylight saving included)
+export const getTimeZoneOffset = (timeZone: string, at: Date = new Date()): number => {
+  const parts = getParts(at, timeZone);
+  const asUtc = Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute), Number(parts.second));
+  return Math.round((asUtc - Math.floor(at.getTime() / 1000) * 1000) / 60000);
+};
+
+/**
+ * The same weekly slot as seen from another zone, e.g. Mon 19:00 WIB is Mon 14:00 in Berlin in summer.
+ * Offsets are taken at `at`, so daylight saving follows the current week.
+ */
+export const convertSlot = (slot: ZonedSlot, fromZone: string, toZone: string, at: Date = new Date()): ZonedSlot => {
+  const week = 7 * 24 * 60;
+  const minutes = slot.day * 24 * 60 + slot.hour * 60 + slot.minute + getTimeZoneOffset(toZone, at) - getTimeZoneOffset(fromZone, at);
+  const wrapped = ((minutes % week) + week) % week;
+  return { day: Math.floor(wrapped / (24 * 60)), hour: Math.floor(wrapped / 60) % 24, minute: wrapped % 60 };
+};
+
+// "Mon 19:00"
+export const formatSlot = (slot: ZonedSlot): string =>
+  `${DAY_NAMES[slot.day]} ${String(slot.hour).padStart(2, '0')}:${String(slot.minute).padStart(2, '0')}`;
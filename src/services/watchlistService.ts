@@ -0,0 +1,165 @@
+// Watchlist Service - Pinned channels, polling settings and alerts for their new uploads
+
+import { VideoItem } from '../types';
+
+const WATCHLIST_STORAGE = 'yt_watchlist_v1';
+
+// Uploads and view thresholds only raise alerts while a video is this young
+const ALERT_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Remembered per channel; a feed never lists more than 15 uploads
+const KNOWN_IDS_PER_CHANNEL = 50;
+const MAX_ALERTED_IDS = 500;
+
+export interface WatchedChannel {
+  channelId: string;
+  title: string;
+  addedAt: number;
+}
+
+export interface WatchlistSettings {
+  // 0 turns background polling off; "Poll now" still works
+  pollMinutes: number;
+  viewsThreshold: number;
+  notifications: boolean;
+}
+
+export interface Watchlist {
+  channels: WatchedChannel[];
+  settings: WatchlistSettings;
+  // When the Watchlist view was last opened
+  lastVisitAt: number;
+  // Upload IDs already seen per channel, so only later ones count as new
+  knownVideoIds: Record<string, string[]>;
+  // Videos that already raised a views-threshold alert
+  alertedVideoIds: string[];
+}
+
+export interface WatchlistAlerts {
+  newUploads: VideoItem[];
+  thresholdHits: VideoItem[];
+}
+
+export const POLL_INTERVALS = [0, 5, 15, 30, 60];
+
+const DEFAULT_SETTINGS: WatchlistSettings = {
+  pollMinutes: 15,
+  viewsThreshold: 10000,
+  notifications: false,
+};
+
+const notifyWatchlistChanged = () => window.dispatchEvent(new Event('watchlistUpdated'));
+
+export const getWatchlist = (): Watchlist => {
+  let saved: Partial<Watchlist> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(WATCHLIST_STORAGE) || '{}');
+  } catch {
+    saved = {};
+  }
+  return {
+    channels: saved.channels || [],
+    settings: { ...DEFAULT_SETTINGS, ...saved.settings },
+    lastVisitAt: saved.lastVisitAt || 0,
+    knownVideoIds: saved.knownVideoIds || {},
+    alertedVideoIds: saved.alertedVideoIds || [],
+  };
+};
+
+const saveWatchlist = (watchlist: Watchlist) => {
+  localStorage.setItem(WATCHLIST_STORAGE, JSON.stringify(watchlist));
+  notifyWatchlistChanged();
+};
+
+export const addWatchedChannel = (channelId: string, title: string): boolean => {
+  const watchlist = getWatchlist();
+  if (watchlist.channels.some(c => c.channelId === channelId)) return false;
+  watchlist.channels.push({ channelId, title: title.trim() || channelId, addedAt: Date.now() });
+  saveWatchlist(watchlist);
+  return true;
+};
+
+export const removeWatchedChannel = (channelId: string) => {
+  const watchlist = getWatchlist();
+  watchlist.channels = watchlist.channels.filter(c => c.channelId !== channelId);
+  delete watchlist.knownVideoIds[channelId];
+  saveWatchlist(watchlist);
+};
+
+export const updateWatchlistSettings = (settings: Partial<WatchlistSettings>) => {
+  const watchlist = getWatchlist();
+  watchlist.settings = { ...watchlist.settings, ...settings };
+  saveWatchlist(watchlist);
+};
+
+// Record a visit to the Watchlist view and return the previous one, which marks what is new
+export const markWatchlistVisited = (now: number = Date.now()): number => {
+  const watchlist = getWatchlist();
+  const previous = watchlist.lastVisitAt;
+  watchlist.lastVisitAt = now;
+  saveWatchlist(watchlist);
+  return previous;
+};
+
+export const isNewSinceVisit = (video: VideoItem, since: number): boolean =>
+  since > 0 && Date.parse(video.publishedAt) > since;
+
+// --- ALERTS ---
+/**
+ * Compare a poll's uploads with what the watchlist has already seen. The first poll of a channel
+ * only learns its uploads; after that, unseen uploads younger than a day are new. Young videos at
+ * or past the views threshold alert once each. Titles of channels added by ID are filled in too.
+ */
+export const collectWatchlistAlerts = (videos: VideoItem[], now: number = Date.now()): WatchlistAlerts => {
+  const watchlist = getWatchlist();
+  const { knownVideoIds, settings } = watchlist;
+  const alerted = new Set(watchlist.alertedVideoIds);
+  const isYoung = (video: VideoItem) => now - Date.parse(video.publishedAt) <= ALERT_WINDOW_MS;
+  const alerts: WatchlistAlerts = { newUploads: [], thresholdHits: [] };
+
+  watchlist.channels.forEach(channel => {
+    const uploads = videos.filter(v => v.channelId === channel.channelId);
+    if (!uploads.length) return;
+    if (channel.title === channel.channelId) channel.title = uploads[0].channelTitle;
+
+    const known = knownVideoIds[channel.channelId];
+    if (known) {
+      const seen = new Set(known);
+      alerts.newUploads.push(...uploads.filter(v => !seen.has(v.id) && isYoung(v)));
+    }
+    knownVideoIds[channel.channelId] = [...new Set([...uploads.map(v => v.id), ...(known || [])])].slice(0, KNOWN_IDS_PER_CHANNEL);
+
+    uploads
+      .filter(v => isYoung(v) && v.viewCountRaw >= settings.viewsThreshold && !alerted.has(v.id))
+      .forEach(v => {
+        alerted.add(v.id);
+        alerts.thresholdHits.push(v);
+      });
+  });
+
+  watchlist.alertedVideoIds = [...alerted].slice(-MAX_ALERTED_IDS);
+  saveWatchlist(watchlist);
+  return alerts;
+};
+
+// --- BROWSER NOTIFICATIONS ---
+export const notificationsSupported = (): boolean => typeof Notification !== 'undefined';
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+const showNotification = (title: string, video: VideoItem) => {
+  const notification = new Notification(title, { body: video.title, icon: video.thumbnail, tag: `${title}:${video.id}` });
+  notification.onclick = () => {
+    window.open(`https://www.youtube.com/watch?v=${video.id}`, '_blank', 'noopener,noreferrer');
+    notification.close();
+  };
+};
+
+export const sendWatchlistNotifications = (alerts: WatchlistAlerts, settings: WatchlistSettings) => {
+  if (!settings.notifications || !notificationsSupported() || Notification.permission !== 'granted') return;
+  alerts.newUploads.forEach(v => showNotification(`${v.channelTitle} upload video baru`, v));
+  alerts.thresholdHits.forEach(v => showNotification(`${v.views} views dalam 24 jam pertama`, v));
+};
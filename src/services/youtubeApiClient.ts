@@ -0,0 +1,372 @@
+// YouTube Data API v3 Client - Single entry point for every googleapis.com call
+
+import { trackQuota } from './quotaService';
+import { findApiKeyEntry, markKeyExhausted, recordServedKey, resolveApiKey } from './apiKeyService';
+
+const API_BASE = 'https://www.googleapis.com/youtube/v3';
+
+export type YouTubeEndpoint = 'videos' | 'search' | 'channels' | 'playlistItems' | 'commentThreads' | 'videoCategories';
+
+export type YouTubeParams = Record<string, string | number | boolean | undefined>;
+
+// --- RAW RESPONSE TYPES ---
+export interface YouTubeThumbnail {
+  url: string;
+  width?: number;
+  height?: number;
+}
+
+export interface YouTubeThumbnails {
+  default?: YouTubeThumbnail;
+  medium?: YouTubeThumbnail;
+  high?: YouTubeThumbnail;
+  standard?: YouTubeThumbnail;
+  maxres?: YouTubeThumbnail;
+}
+
+export interface YouTubeListResponse<T> {
+  kind?: string;
+  items?: T[];
+  nextPageToken?: string;
+  pageInfo?: { totalResults: number; resultsPerPage: number };
+}
+
+export interface YouTubeVideoResource {
+  id: string;
+  snippet?: {
+    title: string;
+    description?: string;
+    publishedAt: string;
+    channelId: string;
+    channelTitle: string;
+    tags?: string[];
+    thumbnails: YouTubeThumbnails;
+    categoryId?: string;
+    liveBroadcastContent?: 'none' | 'live' | 'upcoming';
+  };
+  contentDetails?: { duration: string };
+  statistics?: { viewCount?: string; likeCount?: string; commentCount?: string };
+  // Present on streams and premieres only
+  liveStreamingDetails?: {
+    scheduledStartTime?: string;
+    actualStartTime?: string;
+    actualEndTime?: string;
+    concurrentViewers?: string;
+  };
+}
+
+export interface YouTubeSearchResource {
+  id: { kind: string; videoId?: string; channelId?: string; playlistId?: string };
+  snippet?: { title: string; channelId: string; channelTitle?: string };
+}
+
+export interface YouTubeChannelResource {
+  id: string;
+  snippet?: {
+    title: string;
+    description?: string;
+    customUrl?: string;
+    // ISO 3166-1 country the owner set for the channel, if any
+    country?: string;
+    thumbnails: YouTubeThumbnails;
+  };
+  statistics?: { subscriberCount?: string; viewCount?: string; videoCount?: string };
+  contentDetails?: { relatedPlaylists?: { uploads?: string } };
+  brandingSettings?: { image?: { bannerExternalUrl?: string } };
+}
+
+export interface YouTubePlaylistItemResource {
+  id: string;
+  contentDetails?: { videoId: string; videoPublishedAt?: string };
+}
+
+export interface YouTubeCommentThreadResource {
+  id: string;
+  snippet?: {
+    videoId: string;
+    totalReplyCount: number;
+    topLevelComment: {
+      id: string;
+      snippet: {
+        authorDisplayName: string;
+        textDisplay: string;
+        textOriginal?: string;
+        likeCount: number;
+        publishedAt: string;
+      };
+    };
+  };
+}
+
+export interface YouTubeVideoCategoryResource {
+  id: string;
+  snippet?: { title: string; assignable: boolean };
+}
+
+interface YouTubeErrorPayload {
+  error?: {
+    code: number;
+    message: string;
+    errors?: Array<{ reason: string; message: string; domain?: string }>;
+  };
+}
+
+// --- ERRORS ---
+export class YouTubeApiError extends Error {
+  status: number;
+  reason: string;
+  endpoint: YouTubeEndpoint;
+
+  constructor(message: string, status: number, reason: string, endpoint: YouTubeEndpoint) {
+    super(message);
+    this.name = 'YouTubeApiError';
+    this.status = status;
+    this.reason = reason;
+    this.endpoint = endpoint;
+  }
+}
+
+export class QuotaExceededError extends YouTubeApiError {
+  constructor(status: number, reason: string, endpoint: YouTubeEndpoint) {
+    super('Kuota harian YouTube API sudah habis. Coba lagi setelah kuota di-reset (tengah malam waktu Pasifik) atau gunakan API Key lain.', status, reason, endpoint);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class KeyInvalidError extends YouTubeApiError {
+  constructor(status: number, reason: string, endpoint: YouTubeEndpoint) {
+    super('API Key tidak valid atau YouTube Data API v3 belum diaktifkan. Periksa kembali key di Settings.', status, reason, endpoint);
+    this.name = 'KeyInvalidError';
+  }
+}
+
+export class ForbiddenError extends YouTubeApiError {
+  constructor(status: number, reason: string, endpoint: YouTubeEndpoint) {
+    super('Akses ditolak oleh YouTube. Konten mungkin privat atau API Key dibatasi (cek pembatasan referrer/IP di Google Cloud).', status, reason, endpoint);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends YouTubeApiError {
+  constructor(status: number, reason: string, endpoint: YouTubeEndpoint) {
+    super('Channel, playlist, atau video tidak ditemukan. Pastikan link atau ID sudah benar.', status, reason, endpoint);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class CommentsDisabledError extends YouTubeApiError {
+  constructor(status: number, reason: string, endpoint: YouTubeEndpoint) {
+    super('Komentar dinonaktifkan untuk video ini.', status, reason, endpoint);
+    this.name = 'CommentsDisabledError';
+  }
+}
+
+export class RateLimitedError extends YouTubeApiError {
+  constructor(status: number, reason: string, endpoint: YouTubeEndpoint) {
+    super('Terlalu banyak request dalam waktu singkat. Tunggu beberapa detik lalu coba lagi.', status, reason, endpoint);
+    this.name = 'RateLimitedError';
+  }
+}
+
+// The request never got an answer (offline, DNS, CORS); only errors of the fetch call itself become this
+export class NetworkError extends Error {
+  endpoint: YouTubeEndpoint;
+  cause: unknown;
+
+  constructor(endpoint: YouTubeEndpoint, cause: unknown) {
+    super('Koneksi ke YouTube gagal. Periksa koneksi internet Anda.');
+    this.name = 'NetworkError';
+    this.endpoint = endpoint;
+    this.cause = cause;
+  }
+}
+
+const QUOTA_REASONS = ['quotaExceeded', 'dailyLimitExceeded', 'dailyLimitExceededUnreg'];
+const KEY_REASONS = ['keyInvalid', 'keyExpired', 'accessNotConfigured', 'usageLimits'];
+const RATE_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+const NOT_FOUND_REASONS = ['notFound', 'channelNotFound', 'playlistNotFound', 'videoNotFound'];
+const FORBIDDEN_REASONS = ['forbidden', 'ipRefererBlocked', 'playlistItemsNotAccessible', 'channelClosed', 'channelSuspended'];
+
+// Map an error payload to the matching error class
+const toApiError = (status: number, payload: YouTubeErrorPayload, endpoint: YouTubeEndpoint): YouTubeApiError => {
+  const reason = payload.error?.errors?.[0]?.reason || '';
+  const message = payload.error?.message || `HTTP ${status}`;
+
+  if (QUOTA_REASONS.includes(reason)) return new QuotaExceededError(status, reason, endpoint);
+  if (RATE_REASONS.includes(reason) || status === 429) return new RateLimitedError(status, reason, endpoint);
+  // An invalid key comes back as a 400 "badRequest" with "API key not valid" in the message
+  if (KEY_REASONS.includes(reason) || /api key not valid/i.test(message)) return new KeyInvalidError(status, reason, endpoint);
+  if (reason === 'commentsDisabled') return new CommentsDisabledError(status, reason, endpoint);
+  if (NOT_FOUND_REASONS.includes(reason) || status === 404) return new NotFoundError(status, reason, endpoint);
+  if (FORBIDDEN_REASONS.includes(reason) || status === 403) return new ForbiddenError(status, reason, endpoint);
+
+  return new YouTubeApiError(`YouTube API error: ${message}`, status, reason, endpoint);
+};
+
+export const buildApiUrl = (endpoint: YouTubeEndpoint, params: YouTubeParams, apiKey: string): string => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') search.set(key, String(value));
+  });
+  search.set('key', apiKey);
+  return `${API_BASE}/${endpoint}?${search.toString()}`;
+};
+
+// --- RETRY ---
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+/**
+ * Transient failures worth another attempt: server errors, rate limiting and network drops.
+ * Quota errors are never retried, the key stays empty until the daily reset.
+ */
+export const isRetryableError = (err: unknown): boolean => {
+  if (err instanceof QuotaExceededError) return false;
+  if (err instanceof RateLimitedError) return true;
+  if (err instanceof YouTubeApiError) return RETRYABLE_STATUSES.includes(err.status);
+  // Bugs that happen to throw a TypeError are not network drops and must surface right away
+  return err instanceof NetworkError;
+};
+
+// Full jitter: a random wait between 0 and base * 2^attempt
+const backoffDelay = (attempt: number) => Math.random() * BASE_DELAY_MS * 2 ** attempt;
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const abort = () => reject(new DOMException('Fetch dibatalkan', 'AbortError'));
+    if (signal?.aborted) return abort();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      abort();
+    }, { once: true });
+  });
+
+// One attempt; when the serving key runs out of quota the call moves on to the next key in the pool
+const sendRequest = async <T>(
+  endpoint: YouTubeEndpoint,
+  params: YouTubeParams,
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<YouTubeListResponse<T>> => {
+  const key = resolveApiKey(apiKey);
+  let res: Response;
+  try {
+    res = await fetch(buildApiUrl(endpoint, params, key), { signal });
+  } catch (e) {
+    if (signal?.aborted || isAbortError(e)) throw e;
+    throw new NetworkError(endpoint, e);
+  }
+
+  let payload: YouTubeListResponse<T> & YouTubeErrorPayload;
+  try {
+    payload = await res.json();
+  } catch {
+    payload = {};
+  }
+
+  const error = !res.ok || payload.error ? toApiError(payload.error?.code || res.status, payload, endpoint) : null;
+  if (error instanceof QuotaExceededError) {
+    markKeyExhausted(key);
+    // Only quota rejections go uncharged, so switching keys mid-fetch is free
+    if (resolveApiKey(key) !== key) return sendRequest<T>(endpoint, params, key, signal);
+    throw error;
+  }
+
+  // Every call that reached the API is charged here, failed ones and retries included,
+  // so no caller can forget or double-count
+  trackQuota(endpoint, findApiKeyEntry(key)?.id);
+  if (error) throw error;
+  recordServedKey(key);
+  return payload;
+};
+
+// Real googleapis.com calls with retry; transient failures are retried with jittered exponential backoff
+const requestWithRetry = async <T>(
+  endpoint: YouTubeEndpoint,
+  params: YouTubeParams,
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<YouTubeListResponse<T>> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendRequest<T>(endpoint, params, apiKey, signal);
+    } catch (err) {
+      if (attempt >= MAX_RETRIES || !isRetryableError(err)) throw err;
+      await sleep(backoffDelay(attempt), signal);
+    }
+  }
+};
+
+// --- DATA SOURCES ---
+/**
+ * Where list responses come from. Every service call goes through the active source,
+ * so the app and its tests can run against recorded fixtures instead of the network.
+ */
+export interface YouTubeDataSource {
+  name: string;
+  // Offline sources answer without a key and never charge quota
+  requiresKey: boolean;
+  // Whether services may serve and store responses through the response cache
+  cacheable: boolean;
+  request: <T>(endpoint: YouTubeEndpoint, params: YouTubeParams, apiKey: string, signal?: AbortSignal) => Promise<YouTubeListResponse<T>>;
+}
+
+export const apiDataSource: YouTubeDataSource = {
+  name: 'YouTube API',
+  requiresKey: true,
+  cacheable: true,
+  request: requestWithRetry,
+};
+
+let activeSource: YouTubeDataSource = apiDataSource;
+
+export const getDataSource = (): YouTubeDataSource => activeSource;
+
+export const setDataSource = (source: YouTubeDataSource) => {
+  activeSource = source;
+  window.dispatchEvent(new Event('dataSourceChanged'));
+};
+
+/**
+ * Perform a GET request against the active data source.
+ * Failures are thrown as a YouTubeApiError subclass.
+ */
+export const youtubeApiRequest = <T>(
+  endpoint: YouTubeEndpoint,
+  params: YouTubeParams,
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<YouTubeListResponse<T>> => activeSource.request<T>(endpoint, params, apiKey, signal);
+
+// Typed endpoint helpers
+export const getVideos = (apiKey: string, params: YouTubeParams, signal?: AbortSignal) =>
+  youtubeApiRequest<YouTubeVideoResource>('videos', params, apiKey, signal);
+
+export const searchList = (apiKey: string, params: YouTubeParams, signal?: AbortSignal) =>
+  youtubeApiRequest<YouTubeSearchResource>('search', params, apiKey, signal);
+
+export const getChannels = (apiKey: string, params: YouTubeParams, signal?: AbortSignal) =>
+  youtubeApiRequest<YouTubeChannelResource>('channels', params, apiKey, signal);
+
+export const getPlaylistItems = (apiKey: string, params: YouTubeParams, signal?: AbortSignal) =>
+  youtubeApiRequest<YouTubePlaylistItemResource>('playlistItems', params, apiKey, signal);
+
+export const getCommentThreads = (apiKey: string, params: YouTubeParams, signal?: AbortSignal) =>
+  youtubeApiRequest<YouTubeCommentThreadResource>('commentThreads', params, apiKey, signal);
+
+export const getVideoCategories = (apiKey: string, params: YouTubeParams, signal?: AbortSignal) =>
+  youtubeApiRequest<YouTubeVideoCategoryResource>('videoCategories', params, apiKey, signal);
+
+// True for the rejection fetch produces when its AbortSignal fires
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+// Resolve a user-facing message for any error thrown during a fetch
+export const getApiErrorMessage = (err: unknown, fallback: string): string => {
+  if (err instanceof YouTubeApiError) return err.message;
+  if (err instanceof NetworkError) return err.message;
+  if (err instanceof Error && err.message) return err.message;
+  return fallback;
+};
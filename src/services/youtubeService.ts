@@ -1,51 +1,52 @@
-import { VideoItem, AnalyzedData, FetchLimit, ChannelStats } from '../types';
-
-// --- QUOTA & CACHE MANAGER ---
-const QUOTA_KEY = 'yt_quota_usage_v1';
-const DATE_KEY = 'yt_quota_date_v1';
-const CACHE_PREFIX = 'yt_cache_';
-
-export const getQuotaUsage = (): number => {
-  const today = new Date().toDateString();
-  const savedDate = localStorage.getItem(DATE_KEY);
-  if (savedDate !== today) {
-    localStorage.setItem(DATE_KEY, today);
-    localStorage.setItem(QUOTA_KEY, '0');
-    return 0;
-  }
-  return parseInt(localStorage.getItem(QUOTA_KEY) || '0', 10);
-};
-
-const trackQuota = (cost: number) => {
-  const current = getQuotaUsage();
-  const newest = current + cost;
-  localStorage.setItem(QUOTA_KEY, newest.toString());
-  window.dispatchEvent(new Event('quotaUpdated'));
+import { VideoItem, VideoContentType, AnalyzedData, FetchLimit, FetchProgress, ChannelStats, VideoAnalysis, VideoComparison, SearchOptions } from '../types';
+import { getVideos, searchList, getChannels, getPlaylistItems, getVideoCategories, getDataSource, isRetryableError, NotFoundError, YouTubeVideoResource, YouTubeEndpoint } from './youtubeApiClient';
+import { cacheGet, cacheGetMany, cacheSetMany, CacheKind } from './cacheService';
+import { QUOTA_COSTS, PAGE_SIZE, estimatePagedCost } from './quotaService';
+import { fetchChannelFeed, FEED_WINDOW } from './rssFeedService';
+import { getShortsConfidence, refineShortsWithProbe, SHORTS_THRESHOLD } from './shortsClassifier';
+import { recordVideoSnapshots, recordChannelSnapshot } from './snapshotService';
+
+// --- CACHE ---
+// Cached ID list behind a query, so a replay only re-reads per-video entries
+interface CachedListing {
+  videoIds: string[];
+  channelId?: string;
+  channelTitle?: string;
+}
+
+// liveStreamingDetails is stored as null on regular videos, so entries cached before it was requested can be told apart
+type VideoMeta = Pick<YouTubeVideoResource, 'snippet' | 'contentDetails' | 'liveStreamingDetails'>;
+type VideoStatistics = YouTubeVideoResource['statistics'];
+
+// Only cacheable data sources (the live API) read or write the response cache
+const readCacheMany = <T>(kind: CacheKind, keys: string[]): Promise<Map<string, T>> =>
+  getDataSource().cacheable ? cacheGetMany<T>(kind, keys) : Promise.resolve(new Map<string, T>());
+
+const readCache = <T>(kind: CacheKind, key: string): Promise<T | null> =>
+  getDataSource().cacheable ? cacheGet<T>(kind, key) : Promise.resolve(null);
+
+const writeCacheMany = (kind: CacheKind, items: Array<[string, unknown]>): Promise<void> =>
+  getDataSource().cacheable ? cacheSetMany(kind, items) : Promise.resolve();
+
+const writeCache = (kind: CacheKind, key: string, value: unknown): Promise<void> =>
+  writeCacheMany(kind, [[key, value]]);
+
+// --- SNAPSHOTS ---
+// Freshly fetched counters go into the stat history; cache hits and recordings would only repeat old values
+const snapshotVideos = (items: YouTubeVideoResource[]): Promise<void> => {
+  if (!getDataSource().cacheable) return Promise.resolve();
+  const at = Date.now();
+  return recordVideoSnapshots(items.filter(v => v.statistics).map(v => ({
+    videoId: v.id,
+    at,
+    views: Number(v.statistics.viewCount || 0),
+    likes: Number(v.statistics.likeCount || 0),
+    comments: Number(v.statistics.commentCount || 0),
+  })));
 };
 
-const getCache = (key: string) => {
-  const data = localStorage.getItem(CACHE_PREFIX + key);
-  if (!data) return null;
-  try {
-    const parsed = JSON.parse(data);
-    const now = new Date().getTime();
-    // Cache expires after 1 hour
-    if (now - parsed.timestamp > 3600000) {
-      localStorage.removeItem(CACHE_PREFIX + key);
-      return null;
-    }
-    return parsed.value;
-  } catch {
-    return null;
-  }
-};
-
-const setCache = (key: string, value: any) => {
-  localStorage.setItem(CACHE_PREFIX + key, JSON.stringify({
-    value,
-    timestamp: new Date().getTime()
-  }));
-};
+const snapshotChannel = (channelId: string, stats: ChannelStats): Promise<void> =>
+  getDataSource().cacheable ? recordChannelSnapshot({ channelId, at: Date.now(), stats }) : Promise.resolve();
 
 // --- HELPERS ---
 const parseDuration = (duration: string): number => {
@@ -87,322 +88,848 @@ const timeAgo = (dateString: string): string => {
   return "Baru saja";
 };
 
+// --- FETCH PIPELINE ---
+export interface FetchOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: FetchProgress) => void;
+  // Called with the videos loaded so far each time a page of details arrives
+  onPartial?: (data: AnalyzedData) => void;
+  // Filters for keyword queries; ignored for channels, playlists and videos
+  search?: SearchOptions;
+}
+
+interface FetchContext extends FetchOptions {
+  apiKey: string;
+  progress: FetchProgress;
+  // Detail chunks that still failed after every retry
+  failedChunks: number;
+  // Region whose category names label the videos, loaded at most once per run
+  categoryRegion: string;
+  categoryNames?: Promise<Record<string, string>>;
+}
+
+// Category IDs are the same everywhere; names and availability follow the region
+const DEFAULT_CATEGORY_REGION = 'US';
+
+const createContext = (apiKey: string, options: FetchOptions = {}): FetchContext => ({
+  ...options,
+  apiKey,
+  progress: { pages: 0, units: 0, videos: 0 },
+  failedChunks: 0,
+  categoryRegion: options.search?.regionCode || DEFAULT_CATEGORY_REGION,
+});
+
+// Record one API page against the run and notify the listener
+const countPage = (ctx: FetchContext, endpoint: YouTubeEndpoint) => {
+  ctx.progress.pages++;
+  // Offline sources answer for free
+  if (getDataSource().requiresKey) ctx.progress.units += QUOTA_COSTS[endpoint];
+  ctx.onProgress?.({ ...ctx.progress });
+};
+
+// Cache hits never reach fetch, so cancellation is also checked between pages
+const throwIfAborted = (ctx: FetchContext) => {
+  if (ctx.signal?.aborted) throw new DOMException('Fetch dibatalkan', 'AbortError');
+};
+
+const emitPartial = (ctx: FetchContext, data: AnalyzedData) => {
+  ctx.progress.videos = data.videos.length;
+  ctx.onProgress?.({ ...ctx.progress });
+  ctx.onPartial?.(data);
+};
+
 // --- CORE LOGIC ---
-const fetchVideoDetails = async (apiKey: string, videoIds: string[], subCount?: number): Promise<VideoItem[]> => {
-  if (!videoIds.length) return [];
+const fetchVideoChunks = async (ctx: FetchContext, videoIds: string[], part: string): Promise<YouTubeVideoResource[]> => {
   const chunkSize = 50;
-  let allItems: any[] = [];
+  let allItems: YouTubeVideoResource[] = [];
 
   for (let i = 0; i < videoIds.length; i += chunkSize) {
+    throwIfAborted(ctx);
     const chunk = videoIds.slice(i, i + chunkSize);
     const idsString = chunk.join(',');
-    trackQuota(1);
-    const vRes = await fetch(`https://www.googleapis.com/youtube/v3/videos?part=snippet,contentDetails,statistics&id=${idsString}&key=${apiKey}`);
-    const vData = await vRes.json();
-    if (vData.items) allItems = [...allItems, ...vData.items];
+    try {
+      const vData = await getVideos(ctx.apiKey, { part, id: idsString }, ctx.signal);
+      countPage(ctx, 'videos');
+      if (vData.items) allItems = [...allItems, ...vData.items];
+    } catch (e) {
+      // A chunk lost to a transient failure is counted and skipped; anything else ends the run
+      if (!isRetryableError(e)) throw e;
+      console.warn(`Video chunk ${i / chunkSize + 1} failed after retries:`, e);
+      ctx.failedChunks++;
+    }
   }
 
-  return allItems.map((v: any) => {
-    const dur = parseDuration(v.contentDetails.duration);
-    const thumbnails = v.snippet.thumbnails;
-    const thumbObj = thumbnails.maxres || thumbnails.high || thumbnails.medium || thumbnails.default;
-    const views = Number(v.statistics.viewCount || 0);
-    const likes = Number(v.statistics.likeCount || 0);
-    const comments = Number(v.statistics.commentCount || 0);
-    let er = views > 0 ? ((likes + comments) / views) * 100 : 0;
-
-    // Detect Shorts: Duration <= 60 seconds
-    const isShort = dur <= 60;
-
-    return {
-      id: v.id,
-      title: v.snippet.title,
-      description: v.snippet.description || "",
-      thumbnail: thumbObj?.url || "",
-      views: formatNumber(views),
-      viewCountRaw: views,
-      likes: formatNumber(likes),
-      likeCountRaw: likes,
-      comments: formatNumber(comments),
-      commentCountRaw: comments,
-      engagementRate: parseFloat(er.toFixed(2)),
-      tags: v.snippet.tags || [],
-      publishedAt: v.snippet.publishedAt,
-      publishedAtDate: new Date(v.snippet.publishedAt),
-      publishedTimeAgo: timeAgo(v.snippet.publishedAt),
-      durationSec: dur,
-      durationFormatted: formatDuration(dur),
-      channelTitle: v.snippet.channelTitle,
-      channelId: v.snippet.channelId,
-      isShort: isShort,
-      isOutlier: subCount ? (views > subCount * 1.5) : (er > 12)
-    };
+  return allItems;
+};
+
+// Load video resources, fetching only what is missing or stale in the cache
+const fetchVideoResources = async (ctx: FetchContext, videoIds: string[]): Promise<YouTubeVideoResource[]> => {
+  const metaCache = await readCacheMany<VideoMeta>('videoMeta', videoIds);
+  const statsCache = await readCacheMany<VideoStatistics>('videoStats', videoIds);
+  metaCache.forEach((meta, id) => {
+    if (meta.liveStreamingDetails === undefined) metaCache.delete(id);
   });
+
+  // Unknown videos need every part; known ones only need fresh counters
+  const needFull = videoIds.filter(id => !metaCache.has(id));
+  const needStats = videoIds.filter(id => metaCache.has(id) && !statsCache.has(id));
+
+  const fullItems = await fetchVideoChunks(ctx, needFull, 'snippet,contentDetails,statistics,liveStreamingDetails');
+  const statItems = await fetchVideoChunks(ctx, needStats, 'statistics');
+
+  fullItems.forEach(v => metaCache.set(v.id, {
+    snippet: v.snippet,
+    contentDetails: v.contentDetails,
+    liveStreamingDetails: v.liveStreamingDetails || null,
+  }));
+  [...fullItems, ...statItems].forEach(v => statsCache.set(v.id, v.statistics));
+
+  // Upcoming and on-air broadcasts still change state, so only settled videos keep their metadata
+  const settled = fullItems.filter(v => (v.snippet?.liveBroadcastContent || 'none') === 'none');
+  await writeCacheMany('videoMeta', settled.map(v => [v.id, metaCache.get(v.id)]));
+  await writeCacheMany('videoStats', [...fullItems, ...statItems].map(v => [v.id, v.statistics]));
+  await snapshotVideos([...fullItems, ...statItems]);
+
+  return videoIds
+    .filter(id => metaCache.has(id) && statsCache.has(id))
+    .map(id => ({ id, ...metaCache.get(id), statistics: statsCache.get(id) }));
 };
 
-export const fetchTrendingVideos = async (apiKey: string, limit: number = 50, regionCode: string = 'ID'): Promise<AnalyzedData> => {
-  let videoIds: string[] = [];
-  let pageToken = "";
+// --- VIDEO CATEGORIES ---
+const loadCategoryNames = async (ctx: FetchContext, regionCode: string): Promise<Record<string, string>> => {
+  const cached = await readCache<Record<string, string>>('categories', regionCode);
+  if (cached) return cached;
+
+  try {
+    const data = await getVideoCategories(ctx.apiKey, { part: 'snippet', regionCode }, ctx.signal);
+    countPage(ctx, 'videoCategories');
+    const names = Object.fromEntries((data.items || []).filter(c => c.snippet).map(c => [c.id, c.snippet.title]));
+    await writeCache('categories', regionCode, names);
+    return names;
+  } catch (e) {
+    // Names only label the videos, so recordings without the list and flaky calls still load
+    if (e instanceof NotFoundError || isRetryableError(e)) return {};
+    throw e;
+  }
+};
+
+const getCategoryNames = (ctx: FetchContext): Promise<Record<string, string>> => {
+  if (!ctx.categoryNames) ctx.categoryNames = loadCategoryNames(ctx, ctx.categoryRegion);
+  return ctx.categoryNames;
+};
+
+// --- CONTENT TYPE ---
+// A finished premiere's broadcast is the video plus its countdown (1-10 minutes);
+// a stream's recording lasts about as long as the broadcast itself
+const PREMIERE_COUNTDOWN_MIN_SEC = 30;
+const PREMIERE_COUNTDOWN_MAX_SEC = 600;
+
+export const classifyContentType = (v: YouTubeVideoResource, durationSec: number): VideoContentType => {
+  const broadcast = v.snippet?.liveBroadcastContent || 'none';
+  const live = v.liveStreamingDetails;
+
+  if (broadcast === 'upcoming' || (live && !live.actualStartTime)) return 'upcoming';
+  // Streams have no duration while on air; a premiere plays an already uploaded file
+  if (broadcast === 'live') return durationSec > 0 ? 'premiere' : 'live';
+  if (live) {
+    const end = live.actualEndTime ? Date.parse(live.actualEndTime) : Date.now();
+    const countdown = (end - Date.parse(live.actualStartTime)) / 1000 - durationSec;
+    return countdown >= PREMIERE_COUNTDOWN_MIN_SEC && countdown <= PREMIERE_COUNTDOWN_MAX_SEC ? 'premiere' : 'live';
+  }
+  return getShortsConfidence(v, durationSec) >= SHORTS_THRESHOLD ? 'short' : 'upload';
+};
+
+// Videos saved before content types existed only know whether they are Shorts
+export const getContentType = (v: VideoItem): VideoContentType =>
+  v.contentType || (v.isShort ? 'short' : 'upload');
+
+// Regular uploads, Shorts and premieres; streams and unreleased videos follow their own patterns
+export const isOnDemandVideo = (v: VideoItem): boolean => {
+  const type = getContentType(v);
+  return type !== 'live' && type !== 'upcoming';
+};
 
-  while (videoIds.length < limit) {
-    trackQuota(1);
-    const maxResults = Math.min(limit - videoIds.length, 50);
-    const chartUrl = `https://www.googleapis.com/youtube/v3/videos?part=id&chart=mostPopular&maxResults=${maxResults}&regionCode=${regionCode}${pageToken ? `&pageToken=${pageToken}` : ''}&key=${apiKey}`;
+export const isLiveNow = (v: VideoItem): boolean =>
+  v.contentType === 'live' && !!v.liveDetails?.actualStartTime && !v.liveDetails.actualEndTime;
+
+const toVideoItem = (v: YouTubeVideoResource, categoryNames: Record<string, string> = {}): VideoItem => {
+  const dur = parseDuration(v.contentDetails.duration);
+  const thumbnails = v.snippet.thumbnails;
+  const thumbObj = thumbnails.maxres || thumbnails.high || thumbnails.medium || thumbnails.default;
+  const views = Number(v.statistics.viewCount || 0);
+  const likes = Number(v.statistics.likeCount || 0);
+  const comments = Number(v.statistics.commentCount || 0);
+  let er = views > 0 ? ((likes + comments) / views) * 100 : 0;
+  const contentType = classifyContentType(v, dur);
+  const shortsConfidence = contentType === 'short' || contentType === 'upload' ? getShortsConfidence(v, dur) : 0;
+  const live = v.liveStreamingDetails;
 
-    const res = await fetch(chartUrl);
-    const data = await res.json();
+  return {
+    id: v.id,
+    title: v.snippet.title,
+    description: v.snippet.description || "",
+    thumbnail: thumbObj?.url || "",
+    views: formatNumber(views),
+    viewCountRaw: views,
+    likes: formatNumber(likes),
+    likeCountRaw: likes,
+    comments: formatNumber(comments),
+    commentCountRaw: comments,
+    engagementRate: parseFloat(er.toFixed(2)),
+    tags: v.snippet.tags || [],
+    publishedAt: v.snippet.publishedAt,
+    publishedAtDate: new Date(v.snippet.publishedAt),
+    publishedTimeAgo: timeAgo(v.snippet.publishedAt),
+    durationSec: dur,
+    durationFormatted: formatDuration(dur),
+    channelTitle: v.snippet.channelTitle,
+    channelId: v.snippet.channelId,
+    categoryId: v.snippet.categoryId,
+    categoryName: categoryNames[v.snippet.categoryId],
+    isShort: contentType === 'short',
+    shortsConfidence,
+    contentType,
+    liveDetails: live ? {
+      scheduledStartTime: live.scheduledStartTime,
+      actualStartTime: live.actualStartTime,
+      actualEndTime: live.actualEndTime,
+      concurrentViewers: live.concurrentViewers ? Number(live.concurrentViewers) : undefined,
+    } : undefined,
+  };
+};
+
+const fetchVideoDetails = async (ctx: FetchContext, videoIds: string[]): Promise<VideoItem[]> => {
+  if (!videoIds.length) return [];
+  const allItems = await fetchVideoResources(ctx, videoIds);
+  const categoryNames = allItems.length ? await getCategoryNames(ctx) : {};
+  return refineShortsWithProbe(allItems.map(v => toVideoItem(v, categoryNames)), ctx.signal);
+};
+
+// Replay a cached listing in API-sized pages so cached and live runs stream alike
+async function* replayListing(listing: CachedListing): AsyncGenerator<CachedListing> {
+  for (let i = 0; i < listing.videoIds.length; i += PAGE_SIZE) {
+    yield { ...listing, videoIds: listing.videoIds.slice(i, i + PAGE_SIZE) };
+  }
+}
+
+async function* listTrendingPages(ctx: FetchContext, limit: number, regionCode: string): AsyncGenerator<CachedListing> {
+  let fetched = 0;
+  let pageToken = "";
+
+  while (fetched < limit) {
+    throwIfAborted(ctx);
+    const maxResults = Math.min(limit - fetched, 50);
+    const data = await getVideos(ctx.apiKey, { part: 'id', chart: 'mostPopular', maxResults, regionCode, pageToken }, ctx.signal);
+    countPage(ctx, 'videos');
 
     if (!data.items?.length) break;
 
-    const ids = data.items.map((i: any) => i.id);
-    videoIds = [...videoIds, ...ids];
+    const ids = data.items.map((i) => i.id);
+    fetched += ids.length;
+    yield { videoIds: ids };
     pageToken = data.nextPageToken;
 
     if (!pageToken) break;
   }
+}
+
+export const fetchTrendingVideos = async (
+  apiKey: string,
+  limit: number = 50,
+  regionCode: string = 'ID',
+  options: FetchOptions = {}
+): Promise<AnalyzedData> => {
+  const ctx = createContext(apiKey, options);
+  ctx.categoryRegion = regionCode;
+  const cacheKey = `trending_${regionCode}_${limit}`;
+  const cached = await readCache<CachedListing>('listing', cacheKey);
+  const pages = cached ? replayListing(cached) : listTrendingPages(ctx, limit, regionCode);
+
+  const videoIds: string[] = [];
+  const videos: VideoItem[] = [];
+  const channelTitle = `Trending Topics (${regionCode})`;
+
+  for await (const page of pages) {
+    throwIfAborted(ctx);
+    videoIds.push(...page.videoIds);
+    videos.push(...await fetchVideoDetails(ctx, page.videoIds));
+    emitPartial(ctx, { videos: [...videos], channelTitle, totalFound: videos.length, failedChunks: ctx.failedChunks });
+  }
 
-  const videos = await fetchVideoDetails(apiKey, videoIds);
+  // Only a complete listing is cached; a cancelled run never reaches this point
+  if (!cached) await writeCache('listing', cacheKey, { videoIds });
 
   return {
     videos: videos,
-    channelTitle: `Trending Topics (${regionCode})`,
-    totalFound: videos.length
+    channelTitle,
+    totalFound: videos.length,
+    failedChunks: ctx.failedChunks
   };
 };
 
-// Helper to resolve channel handle/username to channel ID
-const resolveChannelId = async (apiKey: string, handle: string): Promise<{ channelId: string; channelTitle: string } | null> => {
-  // Clean handle - remove @ if present
-  const cleanHandle = handle.startsWith('@') ? handle.substring(1) : handle;
-  
-  // Try using channels endpoint with forHandle (newer API)
-  trackQuota(1);
-  try {
-    const handleRes = await fetch(`https://www.googleapis.com/youtube/v3/channels?part=snippet&forHandle=${encodeURIComponent(cleanHandle)}&key=${apiKey}`);
-    const handleData = await handleRes.json();
-    
-    if (handleData.items?.[0]) {
-      return {
-        channelId: handleData.items[0].id,
-        channelTitle: handleData.items[0].snippet.title
-      };
-    }
-  } catch (e) {
-    console.log('Handle lookup failed, trying search...');
-  }
+// A channel's uploads playlist never changes, so it is looked up once and kept with the channel refs
+const getUploadsPlaylistId = async (ctx: FetchContext, channelId: string): Promise<string | null> => {
+  const key = `uploads:${channelId}`;
+  const cached = await readCache<string>('channelRef', key);
+  if (cached) return cached;
 
-  // Fallback to search API
-  trackQuota(100);
-  const searchRes = await fetch(`https://www.googleapis.com/youtube/v3/search?part=snippet&type=channel&q=${encodeURIComponent(cleanHandle)}&maxResults=1&key=${apiKey}`);
-  const searchData = await searchRes.json();
-  
-  if (searchData.items?.[0]) {
-    return {
-      channelId: searchData.items[0].id.channelId || searchData.items[0].snippet.channelId,
-      channelTitle: searchData.items[0].snippet.title
-    };
-  }
-  
-  return null;
+  const channelData = await getChannels(ctx.apiKey, { part: 'contentDetails', id: channelId }, ctx.signal);
+  countPage(ctx, 'channels');
+  const playlistId = channelData.items?.[0]?.contentDetails?.relatedPlaylists?.uploads;
+  if (playlistId) await writeCache('channelRef', key, playlistId);
+  return playlistId || null;
 };
 
-// Helper to fetch all videos from a channel
-const fetchChannelVideos = async (apiKey: string, channelId: string, limit: number): Promise<string[]> => {
-  let videoIds: string[] = [];
+/**
+ * Helper to page through all videos of a channel, newest first. Without `allowSearch` a channel
+ * with no uploads playlist (deleted or terminated) throws NotFoundError instead of costing a search.
+ */
+async function* listChannelVideoPages(
+  ctx: FetchContext,
+  channelId: string,
+  limit: number,
+  allowSearch: boolean = true
+): AsyncGenerator<string[]> {
+  // The free RSS feed covers the newest uploads; the API only pages past the feed window
+  const feed = await fetchChannelFeed(channelId, ctx.signal);
+  const seen = new Set<string>();
+  if (feed?.entries.length) {
+    const ids = feed.entries.slice(0, limit).map(e => e.videoId);
+    ids.forEach(id => seen.add(id));
+    yield ids;
+    // A feed shorter than its window already lists every upload
+    if (ids.length >= limit || feed.entries.length < FEED_WINDOW) return;
+  }
+
+  // API pages start from the newest upload too, so `fetched` counts the feed overlap as well
+  let fetched = 0;
   let pageToken = "";
+  const unseen = (ids: string[]) => ids.filter(id => id && !seen.has(id));
 
   // First, try to get the uploads playlist for the channel (more reliable)
-  trackQuota(1);
-  const channelRes = await fetch(`https://www.googleapis.com/youtube/v3/channels?part=contentDetails&id=${channelId}&key=${apiKey}`);
-  const channelData = await channelRes.json();
-  
-  const uploadsPlaylistId = channelData.items?.[0]?.contentDetails?.relatedPlaylists?.uploads;
-  
+  const uploadsPlaylistId = await getUploadsPlaylistId(ctx, channelId);
+
   if (uploadsPlaylistId) {
     // Use playlist items - more reliable and cheaper quota
-    while (videoIds.length < limit) {
-      trackQuota(1);
-      const maxResults = Math.min(limit - videoIds.length, 50);
-      const res = await fetch(`https://www.googleapis.com/youtube/v3/playlistItems?part=contentDetails&playlistId=${uploadsPlaylistId}&maxResults=${maxResults}${pageToken ? `&pageToken=${pageToken}` : ''}&key=${apiKey}`);
-      const data = await res.json();
+    while (fetched < limit) {
+      throwIfAborted(ctx);
+      const maxResults = Math.min(limit - fetched, 50);
+      const data = await getPlaylistItems(ctx.apiKey, { part: 'contentDetails', playlistId: uploadsPlaylistId, maxResults, pageToken }, ctx.signal);
+      countPage(ctx, 'playlistItems');
       
       if (!data.items?.length) break;
       
-      const ids = data.items.map((i: any) => i.contentDetails.videoId).filter(Boolean);
-      videoIds = [...videoIds, ...ids];
+      fetched += data.items.length;
+      const ids = unseen(data.items.map((i) => i.contentDetails?.videoId));
+      if (ids.length) yield ids;
       pageToken = data.nextPageToken || "";
       
       if (!pageToken) break;
     }
+  } else if (!allowSearch) {
+    throw new NotFoundError(404, 'channelNotFound', 'channels');
   } else {
     // Fallback to search API
-    while (videoIds.length < limit) {
-      trackQuota(100);
-      const maxResults = Math.min(limit - videoIds.length, 50);
-      const res = await fetch(`https://www.googleapis.com/youtube/v3/search?part=id&channelId=${channelId}&maxResults=${maxResults}&order=date&type=video${pageToken ? `&pageToken=${pageToken}` : ''}&key=${apiKey}`);
-      const data = await res.json();
+    while (fetched < limit) {
+      throwIfAborted(ctx);
+      const maxResults = Math.min(limit - fetched, 50);
+      const data = await searchList(ctx.apiKey, { part: 'id', channelId, maxResults, order: 'date', type: 'video', pageToken }, ctx.signal);
+      countPage(ctx, 'search');
       
       if (!data.items?.length) break;
       
-      videoIds = [...videoIds, ...data.items.map((i: any) => i.id.videoId).filter(Boolean)];
+      fetched += data.items.length;
+      const ids = unseen(data.items.map((i) => i.id.videoId));
+      if (ids.length) yield ids;
       pageToken = data.nextPageToken || "";
       
       if (!pageToken) break;
     }
   }
+}
+
+// Latest upload IDs of a channel, newest first
+export const fetchRecentUploadIds = async (apiKey: string, channelId: string, limit: number, signal?: AbortSignal): Promise<string[]> => {
+  const ctx = createContext(apiKey, { signal });
+  const ids: string[] = [];
+  for await (const page of listChannelVideoPages(ctx, channelId, limit)) ids.push(...page);
+  return ids;
+};
+
+// --- CHANNEL SAMPLES ---
+// Upper bound on uploads scanned for one sample, so a days window on a prolific channel stays affordable
+const MAX_SAMPLE_SCAN = 250;
+
+export interface ChannelSampleOptions {
+  limit: number;
+  // Epoch ms; uploads published earlier end the scan
+  publishedAfter?: number;
+  // Only matching uploads count towards the limit (e.g. Shorts only)
+  match?: (video: VideoItem) => boolean;
+  // False makes a channel without an uploads playlist throw NotFoundError instead of costing a search
+  allowSearch?: boolean;
+}
+
+/**
+ * A channel's most recent uploads that fit a sample, newest first. Details are loaded a listing page
+ * at a time, so the scan stops as soon as the sample is full or the uploads get too old.
+ */
+export const fetchChannelSample = async (
+  apiKey: string,
+  channelId: string,
+  sample: ChannelSampleOptions,
+  options: FetchOptions = {}
+): Promise<VideoItem[]> => {
+  const ctx = createContext(apiKey, options);
+  const videos: VideoItem[] = [];
+
+  for await (const ids of listChannelVideoPages(ctx, channelId, MAX_SAMPLE_SCAN, sample.allowSearch ?? true)) {
+    const page = await fetchVideoDetails(ctx, ids);
+    const inWindow = sample.publishedAfter ? page.filter(v => Date.parse(v.publishedAt) >= sample.publishedAfter) : page;
+    videos.push(...inWindow.filter(v => !sample.match || sample.match(v)));
+    if (videos.length >= sample.limit || inWindow.length < page.length) break;
+  }
 
-  return videoIds;
+  return videos.slice(0, sample.limit);
 };
 
-// Detect if query is a channel handle or username
-const isChannelHandle = (query: string): boolean => {
-  const trimmed = query.trim();
-  // Matches @username pattern (direct handle input)
-  if (/^@[\w.-]+$/.test(trimmed)) return true;
-  // Matches YouTube channel URL patterns
-  if (trimmed.includes('youtube.com/@')) return true;
-  if (trimmed.includes('youtube.com/channel/')) return true;
-  if (trimmed.includes('youtube.com/c/')) return true;
-  if (trimmed.includes('youtube.com/user/')) return true;
-  return false;
-};
-
-// Extract handle from query
-const extractHandle = (query: string): string => {
-  const trimmed = query.trim();
-  
-  // Direct @handle input
-  if (/^@[\w.-]+$/.test(trimmed)) {
-    return trimmed;
+export interface WatchlistUploads {
+  videos: VideoItem[];
+  // Channels whose uploads could not be listed this time
+  failedChannels: string[];
+  failedChunks: number;
+}
+
+/**
+ * Latest uploads (up to a feed window) of several channels. Discovery goes through the free feeds,
+ * with the uploads playlist only as a fallback and never search.list, which would cost 100 units
+ * per poll for every deleted channel. Details for every channel share one videos.list per 50 IDs.
+ */
+export const fetchWatchlistUploads = async (
+  apiKey: string,
+  channelIds: string[],
+  options: FetchOptions = {}
+): Promise<WatchlistUploads> => {
+  const ctx = createContext(apiKey, options);
+  const ids: string[] = [];
+  const failedChannels: string[] = [];
+
+  for (const channelId of channelIds) {
+    throwIfAborted(ctx);
+    try {
+      for await (const page of listChannelVideoPages(ctx, channelId, FEED_WINDOW, false)) ids.push(...page);
+    } catch (e) {
+      // One deleted or flaky channel must not stall the rest of the watchlist
+      if (!(e instanceof NotFoundError) && !isRetryableError(e)) throw e;
+      console.warn(`Uploads of watched channel ${channelId} unavailable:`, e);
+      failedChannels.push(channelId);
+    }
   }
-  
-  // From URL: youtube.com/@handle
-  if (trimmed.includes('/@')) {
-    const match = trimmed.match(/@([\w.-]+)/);
-    return match ? `@${match[1]}` : trimmed;
+
+  const videos = await fetchVideoDetails(ctx, [...new Set(ids)]);
+  return { videos, failedChannels, failedChunks: ctx.failedChunks };
+};
+
+// Video ID from a watch, youtu.be, Shorts, live or embed URL; null for anything else.
+// Playlist links keep opening the playlist, even when they point at one of its videos.
+export const extractVideoId = (query: string): string | null => {
+  const trimmed = query.trim();
+  if (/[&?]list=/.test(trimmed)) return null;
+  const match = trimmed.match(/(?:youtube\.com\/(?:watch\?(?:[^#]*&)?v=|shorts\/|live\/|embed\/)|youtu\.be\/)([\w-]{11})(?![\w-])/);
+  return match ? match[1] : null;
+};
+
+// --- CHANNEL RESOLUTION ---
+// Every way a channel can be pointed at; `video` means "the channel that uploaded this video"
+export type ChannelRef =
+  | { kind: 'id'; value: string }
+  | { kind: 'handle'; value: string }
+  | { kind: 'username'; value: string }
+  | { kind: 'custom'; value: string }
+  | { kind: 'video'; value: string };
+
+export interface ResolvedChannel {
+  channelId: string;
+  channelTitle?: string;
+}
+
+const pathSegment = (query: string, prefix: string): string | null => {
+  const match = query.match(new RegExp(`youtube\\.com/${prefix}([^/?&#]+)`));
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+// Classify a channel reference or URL; null when the input is not recognisably a channel (e.g. keywords)
+export const parseChannelInput = (input: string): ChannelRef | null => {
+  const trimmed = input.trim();
+
+  const videoId = extractVideoId(trimmed);
+  if (videoId) return { kind: 'video', value: videoId };
+
+  if (/^UC[\w-]{22}$/.test(trimmed)) return { kind: 'id', value: trimmed };
+  const channelId = pathSegment(trimmed, 'channel/');
+  if (channelId) return { kind: 'id', value: channelId };
+
+  if (/^@[\w.-]+$/.test(trimmed)) return { kind: 'handle', value: trimmed.substring(1) };
+  const handle = pathSegment(trimmed, '@');
+  if (handle) return { kind: 'handle', value: handle };
+
+  const username = pathSegment(trimmed, 'user/');
+  if (username) return { kind: 'username', value: username };
+
+  const custom = pathSegment(trimmed, 'c/');
+  if (custom) return { kind: 'custom', value: custom };
+
+  return null;
+};
+
+// Detect if query points at a channel rather than a keyword search
+const isChannelHandle = (query: string): boolean => {
+  const ref = parseChannelInput(query);
+  return ref !== null && ref.kind !== 'video';
+};
+
+const channelRefKey = (ref: ChannelRef): string =>
+  // Handles, usernames and custom URLs are case-insensitive; IDs are not
+  `${ref.kind}:${ref.kind === 'id' || ref.kind === 'video' ? ref.value : ref.value.toLowerCase()}`;
+
+// One channels.list lookup by handle or legacy username; empty or 404 both mean "no such channel"
+const lookupChannelBy = async (ctx: FetchContext, param: 'forHandle' | 'forUsername', value: string): Promise<ResolvedChannel | null> => {
+  try {
+    const data = await getChannels(ctx.apiKey, { part: 'snippet', [param]: value }, ctx.signal);
+    countPage(ctx, 'channels');
+    const channel = data.items?.[0];
+    return channel ? { channelId: channel.id, channelTitle: channel.snippet?.title } : null;
+  } catch (e) {
+    // Quota, key and network problems must surface instead of falling back to a 100-unit search
+    if (!(e instanceof NotFoundError)) throw e;
+    return null;
   }
-  
-  // From URL: youtube.com/channel/UCxxxx
-  if (trimmed.includes('/channel/')) {
-    return trimmed.split('/channel/')[1].split(/[?&/]/)[0];
+};
+
+const searchChannel = async (ctx: FetchContext, q: string): Promise<ResolvedChannel | null> => {
+  const data = await searchList(ctx.apiKey, { part: 'snippet', type: 'channel', q, maxResults: 1 }, ctx.signal);
+  countPage(ctx, 'search');
+  const item = data.items?.[0];
+  return item ? { channelId: item.id.channelId || item.snippet.channelId, channelTitle: item.snippet.title } : null;
+};
+
+const lookupChannelRef = async (ctx: FetchContext, ref: ChannelRef): Promise<ResolvedChannel | null> => {
+  switch (ref.kind) {
+    case 'id':
+      return { channelId: ref.value };
+    case 'video': {
+      const data = await getVideos(ctx.apiKey, { part: 'snippet', id: ref.value }, ctx.signal);
+      countPage(ctx, 'videos');
+      const video = data.items?.[0];
+      return video ? { channelId: video.snippet.channelId, channelTitle: video.snippet.channelTitle } : null;
+    }
+    case 'handle':
+      return await lookupChannelBy(ctx, 'forHandle', ref.value) ?? searchChannel(ctx, ref.value);
+    case 'username':
+      return await lookupChannelBy(ctx, 'forUsername', ref.value) ?? searchChannel(ctx, ref.value);
+    case 'custom':
+      // Custom URLs have no lookup endpoint, but most match the old username or the newer handle
+      return await lookupChannelBy(ctx, 'forUsername', ref.value)
+        ?? await lookupChannelBy(ctx, 'forHandle', ref.value)
+        ?? searchChannel(ctx, ref.value);
   }
-  
-  // From URL: youtube.com/c/ChannelName or youtube.com/user/username
-  if (trimmed.includes('/c/') || trimmed.includes('/user/')) {
-    const parts = trimmed.split('/');
-    return parts[parts.length - 1].split(/[?&]/)[0];
+};
+
+// Resolve a channel reference to its ID; mappings never change, so they are cached for good
+const resolveChannelRef = async (ctx: FetchContext, ref: ChannelRef): Promise<ResolvedChannel | null> => {
+  if (ref.kind === 'id') return { channelId: ref.value };
+
+  const key = channelRefKey(ref);
+  const cached = await readCache<ResolvedChannel>('channelRef', key);
+  if (cached) return cached;
+
+  const resolved = await lookupChannelRef(ctx, ref);
+  if (resolved) await writeCache('channelRef', key, resolved);
+  return resolved;
+};
+
+/**
+ * Resolve anything a user may paste as a channel: @handle, channel/user/c URLs, a bare channel ID,
+ * or a video/Shorts link (resolved to its uploader). Other text is treated as a handle.
+ */
+export const resolveChannel = (apiKey: string, input: string, signal?: AbortSignal): Promise<ResolvedChannel | null> => {
+  const ref = parseChannelInput(input) ?? { kind: 'handle', value: input.trim().replace(/^@/, '') };
+  return resolveChannelRef(createContext(apiKey, { signal }), ref);
+};
+
+// --- SEARCH OPTIONS ---
+export type QueryType = 'playlist' | 'video' | 'channel' | 'keyword';
+
+export const getQueryType = (query: string): QueryType => {
+  const trimmed = query.trim();
+  if (/[&?]list=/.test(trimmed)) return 'playlist';
+  if (extractVideoId(trimmed)) return 'video';
+  if (isChannelHandle(trimmed)) return 'channel';
+  return 'keyword';
+};
+
+// search.list params for the given options, leaving out defaults so they never split the cache
+export const toSearchParams = (options: SearchOptions = {}): Record<string, string> => {
+  const params: Record<string, string> = {};
+  if (options.publishedAfter) params.publishedAfter = `${options.publishedAfter}T00:00:00Z`;
+  if (options.publishedBefore) params.publishedBefore = `${options.publishedBefore}T23:59:59Z`;
+  if (options.relevanceLanguage) params.relevanceLanguage = options.relevanceLanguage;
+  if (options.regionCode) params.regionCode = options.regionCode;
+  if (options.videoDuration && options.videoDuration !== 'any') params.videoDuration = options.videoDuration;
+  if (options.order && options.order !== 'relevance') params.order = options.order;
+  if (options.videoCategoryId) params.videoCategoryId = options.videoCategoryId;
+  return params;
+};
+
+// Short labels for the options in effect, e.g. for history entries
+export const describeSearchOptions = (options: SearchOptions = {}): string[] => {
+  const labels: string[] = [];
+  if (options.publishedAfter || options.publishedBefore) {
+    labels.push(`${options.publishedAfter || '…'} → ${options.publishedBefore || '…'}`);
   }
-  
-  return trimmed;
+  if (options.relevanceLanguage) labels.push(`lang: ${options.relevanceLanguage}`);
+  if (options.regionCode) labels.push(`region: ${options.regionCode}`);
+  if (options.videoDuration && options.videoDuration !== 'any') labels.push(`duration: ${options.videoDuration}`);
+  if (options.order && options.order !== 'relevance') labels.push(`order: ${options.order}`);
+  if (options.videoCategoryId) labels.push(`category: ${options.videoCategoryId}`);
+  return labels;
 };
 
-export const fetchYouTubeData = async (apiKey: string, query: string, limit: FetchLimit): Promise<AnalyzedData> => {
+// Upper-bound unit cost of fetchYouTubeData for a query, assuming nothing is cached
+export const estimateAnalysisCost = (query: string, limit: FetchLimit): number => {
   const cleanQuery = query.trim();
-  const cacheKey = `analysis_${cleanQuery}_${limit}`;
-  const cached = getCache(cacheKey);
-  if (cached) return cached;
+  const details = estimatePagedCost('videos', limit);
 
-  let videoIds: string[] = [];
+  if (/[&?]list=/.test(cleanQuery)) {
+    return estimatePagedCost('playlistItems', limit) + details;
+  }
+  if (extractVideoId(cleanQuery)) return QUOTA_COSTS.videos;
+  if (isChannelHandle(cleanQuery)) {
+    // Handle lookup + uploads playlist lookup + channel stats
+    return QUOTA_COSTS.channels * 3 + estimatePagedCost('playlistItems', limit) + details;
+  }
+  return estimatePagedCost('search', limit) + details;
+};
+
+// Resolve a query (playlist, channel or keyword) to the pages of video IDs behind it
+async function* listQueryPages(
+  ctx: FetchContext,
+  cleanQuery: string,
+  limit: FetchLimit,
+  searchParams: Record<string, string>
+): AsyncGenerator<CachedListing> {
+  let fetched = 0;
   let pageToken = "";
-  let channelTitle = "Pencarian";
-  let channelId = "";
 
   // Detect Playlist URL
   const playlistMatch = cleanQuery.match(/[&?]list=([^&]+)/);
+  const videoId = extractVideoId(cleanQuery);
 
   if (playlistMatch) {
     // --- PLAYLIST MODE ---
     const playlistId = playlistMatch[1];
-    while (videoIds.length < limit) {
-      trackQuota(1);
-      const maxResults = Math.min(limit - videoIds.length, 50);
-      const res = await fetch(`https://www.googleapis.com/youtube/v3/playlistItems?part=contentDetails&playlistId=${playlistId}&maxResults=${maxResults}${pageToken ? `&pageToken=${pageToken}` : ''}&key=${apiKey}`);
-      const data = await res.json();
+    while (fetched < limit) {
+      throwIfAborted(ctx);
+      const maxResults = Math.min(limit - fetched, 50);
+      const data = await getPlaylistItems(ctx.apiKey, { part: 'contentDetails', playlistId, maxResults, pageToken }, ctx.signal);
+      countPage(ctx, 'playlistItems');
       if (!data.items?.length) break;
-      videoIds = [...videoIds, ...data.items.map((i: any) => i.contentDetails.videoId)];
+      const ids = data.items.map((i) => i.contentDetails?.videoId);
+      fetched += ids.length;
+      yield { videoIds: ids, channelTitle: "Playlist Content" };
       pageToken = data.nextPageToken;
       if (!pageToken) break;
     }
-    channelTitle = "Playlist Content";
+  }
+  else if (videoId) {
+    // --- VIDEO MODE (a pasted video link is never sent to search) ---
+    yield { videoIds: [videoId], channelTitle: "Video" };
   }
   else if (isChannelHandle(cleanQuery)) {
     // --- CHANNEL MODE (Handle, URL, or @username) ---
-    const handle = extractHandle(cleanQuery);
-    
-    // Check if it's already a channel ID (starts with UC)
-    if (handle.startsWith('UC') && handle.length === 24) {
-      channelId = handle;
-    } else {
-      // Resolve handle to channel ID
-      const resolved = await resolveChannelId(apiKey, handle);
-      if (resolved) {
-        channelId = resolved.channelId;
-        channelTitle = resolved.channelTitle;
-      }
-    }
+    const resolved = await resolveChannelRef(ctx, parseChannelInput(cleanQuery));
+    const channelId = resolved?.channelId;
+    const channelTitle = resolved?.channelTitle || "Pencarian";
 
     if (channelId) {
-      videoIds = await fetchChannelVideos(apiKey, channelId, limit);
+      for await (const ids of listChannelVideoPages(ctx, channelId, limit)) {
+        fetched += ids.length;
+        yield { videoIds: ids, channelId, channelTitle };
+      }
     }
 
-    if (!channelId || !videoIds.length) {
-      throw new Error(`Channel "${handle}" tidak ditemukan. Pastikan nama channel benar.`);
+    if (!channelId || !fetched) {
+      throw new Error(`Channel "${cleanQuery}" tidak ditemukan. Pastikan nama channel benar.`);
     }
   }
   else {
     // --- SEARCH MODE (General keyword search) ---
-    while (videoIds.length < limit) {
-      trackQuota(100);
-      const maxResults = Math.min(limit - videoIds.length, 50);
-      const res = await fetch(`https://www.googleapis.com/youtube/v3/search?part=id&q=${encodeURIComponent(cleanQuery)}&maxResults=${maxResults}&type=video${pageToken ? `&pageToken=${pageToken}` : ''}&key=${apiKey}`);
-      const data = await res.json();
+    while (fetched < limit) {
+      throwIfAborted(ctx);
+      const maxResults = Math.min(limit - fetched, 50);
+      const data = await searchList(ctx.apiKey, { ...searchParams, part: 'id', q: cleanQuery, maxResults, type: 'video', pageToken }, ctx.signal);
+      countPage(ctx, 'search');
       if (!data.items?.length) break;
-      videoIds = [...videoIds, ...data.items.map((i: any) => i.id.videoId)];
+      const ids = data.items.map((i) => i.id.videoId);
+      fetched += ids.length;
+      yield { videoIds: ids, channelTitle: "Pencarian" };
       pageToken = data.nextPageToken;
       if (!pageToken) break;
     }
   }
+}
+
+export const fetchYouTubeData = async (
+  apiKey: string,
+  query: string,
+  limit: FetchLimit,
+  options: FetchOptions = {}
+): Promise<AnalyzedData> => {
+  const ctx = createContext(apiKey, options);
+  const cleanQuery = query.trim();
+  const searchParams = getQueryType(cleanQuery) === 'keyword' ? toSearchParams(options.search) : {};
+  // Filtered searches are different listings; sorted so option order never matters
+  const optionsKey = Object.keys(searchParams).sort().map(k => `${k}=${searchParams[k]}`).join('&');
+  const cacheKey = `analysis_${cleanQuery}_${limit}${optionsKey ? `_${optionsKey}` : ''}`;
+  const cached = await readCache<CachedListing>('listing', cacheKey);
+  const pages = cached ? replayListing(cached) : listQueryPages(ctx, cleanQuery, limit, searchParams);
+
+  const listing: CachedListing = { videoIds: [] };
+  const resultVideos: VideoItem[] = [];
+  let stats: ChannelStats | undefined;
+  let result: AnalyzedData = { videos: [], totalFound: 0 };
+
+  // Details are fetched page by page so the grid fills while the listing is still paging
+  for await (const page of pages) {
+    throwIfAborted(ctx);
+    listing.videoIds.push(...page.videoIds);
+    listing.channelId = page.channelId;
+    listing.channelTitle = page.channelTitle;
+
+    if (page.channelId && !stats) stats = await loadChannelInfo(ctx, page.channelId);
+    resultVideos.push(...await fetchVideoDetails(ctx, page.videoIds));
+
+    // Update channel title from video data if not set
+    let channelTitle = page.channelTitle;
+    if (channelTitle === "Pencarian" && resultVideos.length > 0 && page.channelId) {
+      channelTitle = resultVideos[0].channelTitle;
+    }
 
-  if (!videoIds.length) throw new Error("Tidak ada video yang ditemukan.");
-
-  let stats;
-  if (channelId) stats = await fetchChannelInfo(apiKey, channelId);
-
-  const resultVideos = await fetchVideoDetails(apiKey, videoIds, stats?.subCountRaw);
-  
-  // Update channel title from video data if not set
-  if (channelTitle === "Pencarian" && resultVideos.length > 0 && channelId) {
-    channelTitle = resultVideos[0].channelTitle;
+    result = {
+      videos: [...resultVideos],
+      channelTitle,
+      channelId: page.channelId,
+      channelStats: stats,
+      totalFound: resultVideos.length,
+      failedChunks: ctx.failedChunks
+    };
+    emitPartial(ctx, result);
   }
 
-  const finalResult: AnalyzedData = {
-    videos: resultVideos,
-    channelTitle,
-    channelId,
-    channelStats: stats,
-    totalFound: resultVideos.length
-  };
+  if (!listing.videoIds.length) throw new Error("Tidak ada video yang ditemukan.");
+  // Only a complete listing is cached; a cancelled run never reaches this point
+  if (!cached) await writeCache('listing', cacheKey, listing);
 
-  setCache(cacheKey, finalResult);
-  return finalResult;
+  return result;
 };
 
-export const fetchChannelInfo = async (apiKey: string, channelId: string): Promise<ChannelStats | undefined> => {
-  trackQuota(1);
-  const res = await fetch(`https://www.googleapis.com/youtube/v3/channels?part=snippet,statistics,brandingSettings&id=${channelId}&key=${apiKey}`);
-  const data = await res.json();
+const loadChannelInfo = async (ctx: FetchContext, channelId: string): Promise<ChannelStats | undefined> => {
+  const cached = await readCache<ChannelStats>('channel', channelId);
+  if (cached) return cached;
+
+  const data = await getChannels(ctx.apiKey, { part: 'snippet,statistics,brandingSettings', id: channelId }, ctx.signal);
+  countPage(ctx, 'channels');
   if (data.items?.[0]) {
     const ch = data.items[0];
-    return {
+    const stats: ChannelStats = {
       subscriberCount: formatNumber(ch.statistics.subscriberCount),
       subCountRaw: Number(ch.statistics.subscriberCount),
       viewCount: formatNumber(ch.statistics.viewCount),
+      viewCountRaw: Number(ch.statistics.viewCount || 0),
       videoCount: formatNumber(ch.statistics.videoCount),
+      videoCountRaw: Number(ch.statistics.videoCount || 0),
+      title: ch.snippet.title,
+      country: ch.snippet.country,
       customUrl: ch.snippet.customUrl || "",
       description: ch.snippet.description || "",
       avatar: ch.snippet.thumbnails.high?.url || "",
       banner: ch.brandingSettings?.image?.bannerExternalUrl || ""
     };
+    await writeCache('channel', channelId, stats);
+    await snapshotChannel(channelId, stats);
+    return stats;
   }
   return undefined;
 };
+
+export const fetchChannelInfo = (apiKey: string, channelId: string): Promise<ChannelStats | undefined> =>
+  loadChannelInfo(createContext(apiKey), channelId);
+
+// --- SINGLE VIDEO ---
+export const median = (values: number[]): number => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const compareToRecentUploads = (video: VideoItem, uploads: VideoItem[]): VideoComparison => {
+  const medianViews = median(uploads.map(v => v.viewCountRaw));
+  const medianLikes = median(uploads.map(v => v.likeCountRaw));
+  const medianER = median(uploads.map(v => v.engagementRate));
+
+  return {
+    sampleSize: uploads.length,
+    medianViews,
+    medianLikes,
+    medianER: parseFloat(medianER.toFixed(2)),
+    viewsRatio: medianViews > 0 ? video.viewCountRaw / medianViews : 0,
+    likesRatio: medianLikes > 0 ? video.likeCountRaw / medianLikes : 0,
+    erDelta: parseFloat((video.engagementRate - medianER).toFixed(2)),
+    viewsRank: 1 + uploads.filter(v => v.viewCountRaw > video.viewCountRaw).length,
+  };
+};
+
+// Upper-bound unit cost of fetchVideoAnalysis, assuming nothing is cached
+export const estimateVideoAnalysisCost = (compareCount: number): number =>
+  // Video + channel stats + uploads playlist lookup, then the listing and its details
+  QUOTA_COSTS.videos + QUOTA_COSTS.channels * 2 +
+  estimatePagedCost('playlistItems', compareCount + 1) + estimatePagedCost('videos', compareCount);
+
+/**
+ * Analyze one video against the last `compareCount` uploads of the channel that owns it.
+ * The channel is looked up from the video itself, so only the video ID is needed.
+ */
+export const fetchVideoAnalysis = async (
+  apiKey: string,
+  videoId: string,
+  compareCount: number = 20,
+  options: FetchOptions = {}
+): Promise<VideoAnalysis> => {
+  const ctx = createContext(apiKey, options);
+  const [resource] = await fetchVideoResources(ctx, [videoId]);
+  if (!resource) throw new Error("Video tidak ditemukan. Pastikan link video benar.");
+
+  const channelStats = await loadChannelInfo(ctx, resource.snippet.channelId);
+  const [video] = await refineShortsWithProbe([toVideoItem(resource, await getCategoryNames(ctx))], ctx.signal);
+  ctx.progress.videos = 1;
+
+  // One extra ID, since the analyzed video is usually among the latest uploads
+  const uploadIds: string[] = [];
+  for await (const ids of listChannelVideoPages(ctx, video.channelId, compareCount + 1)) {
+    uploadIds.push(...ids);
+  }
+  const recentIds = uploadIds.filter(id => id !== videoId).slice(0, compareCount);
+  const recentUploads = await fetchVideoDetails(ctx, recentIds);
+
+  ctx.progress.videos += recentUploads.length;
+  ctx.onProgress?.({ ...ctx.progress });
+
+  return {
+    video,
+    channelStats,
+    recentUploads,
+    comparison: compareToRecentUploads(video, recentUploads),
+    failedChunks: ctx.failedChunks,
+  };
+};
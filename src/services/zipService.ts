@@ -1,4 +1,5 @@
 import { VideoItem } from '../types';
+import { getContentType } from './youtubeService';
 
 /**
  * Helper to crop image to 9:16 aspect ratio via Canvas
@@ -62,7 +63,8 @@ export const generateZip = async (
       const globalIndex = i + indexInBatch;
       try {
         let blob: Blob;
-        if (v.isShort) {
+        // Same decision as the Shorts filter
+        if (getContentType(v) === 'short') {
           blob = await cropTo916(v.thumbnail);
         } else {
           const res = await fetch(v.thumbnail);
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  getViewsPerDay,
+  estimateFirst30DaysViews,
+  getViewMetric,
+  getLikeMetric,
+  getMetricBasis,
+  setMetricBasis,
+} from "@/services/ageMetricsService";
+import { calculateTitlePerformanceScore } from "@/services/performanceScoreService";
+import type { VideoItem } from "@/types";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2026-06-01T00:00:00Z");
+
+const video = (ageDays: number, views: number, likes = 0) => ({
+  id: `v${ageDays}`,
+  title: "Resep",
+  publishedAt: new Date(NOW - ageDays * DAY).toISOString(),
+  viewCountRaw: views,
+  likeCountRaw: likes,
+  engagementRate: 1,
+}) as VideoItem;
+
+describe("ageMetricsService", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("divides by age, never by less than a day", () => {
+    expect(getViewsPerDay(video(10, 5000), NOW)).toBe(500);
+    expect(getViewsPerDay(video(0.25, 5000), NOW)).toBe(5000);
+    expect(getLikeMetric(video(10, 5000, 300), "per_day", NOW)).toBe(30);
+  });
+
+  it("projects views to day 30 from both sides", () => {
+    expect(estimateFirst30DaysViews(video(30, 9000), NOW)).toBe(9000);
+    expect(estimateFirst30DaysViews(video(120, 9000), NOW)).toBe(4500);
+    expect(estimateFirst30DaysViews(video(7.5, 9000), NOW)).toBe(18000);
+    expect(getViewMetric(video(120, 9000), "raw", NOW)).toBe(9000);
+  });
+
+  it("stops old videos from topping the view percentiles on a per-day basis", () => {
+    const old = video(1000, 100000);
+    const fresh = video(2, 20000);
+    expect(calculateTitlePerformanceScore(old, [old, fresh]).viewsPercentile).toBeGreaterThan(
+      calculateTitlePerformanceScore(fresh, [old, fresh]).viewsPercentile
+    );
+    expect(calculateTitlePerformanceScore(fresh, [old, fresh], "per_day").viewsPercentile).toBeGreaterThan(
+      calculateTitlePerformanceScore(old, [old, fresh], "per_day").viewsPercentile
+    );
+  });
+
+  it("remembers the app-wide basis", () => {
+    expect(getMetricBasis()).toBe("raw");
+    setMetricBasis("first_30d");
+    expect(getMetricBasis()).toBe("first_30d");
+  });
+});
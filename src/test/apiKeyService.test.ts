@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { addApiKey, getActiveApiKey, getApiKeys, getServedKeyNames, resetServedKeys } from "@/services/apiKeyService";
+import { getKeyQuotaUsage } from "@/services/quotaService";
+import { getVideos } from "@/services/youtubeApiClient";
+
+const jsonResponse = (status: number, body: unknown) =>
+  ({ ok: status < 400, status, json: async () => body }) as Response;
+
+describe("apiKeyService", () => {
+  beforeEach(() => localStorage.clear());
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("migrates the legacy single key into the pool", () => {
+    localStorage.setItem("yt_api_key_v5", "legacy-key");
+    expect(getApiKeys().map(k => k.key)).toEqual(["legacy-key"]);
+    expect(localStorage.getItem("yt_api_key_v5")).toBeNull();
+  });
+
+  it("rotates to the next key when quota runs out mid-fetch", async () => {
+    const first = addApiKey("Project A", "key-a");
+    const second = addApiKey("Project B", "key-b");
+    vi.stubGlobal("fetch", vi.fn(async (url: string) =>
+      url.includes("key=key-a")
+        ? jsonResponse(403, { error: { code: 403, message: "quota", errors: [{ reason: "quotaExceeded", message: "quota" }] } })
+        : jsonResponse(200, { items: [] })
+    ));
+
+    resetServedKeys();
+    await getVideos("key-a", { part: "id", id: "abc" });
+
+    expect(getActiveApiKey()).toBe("key-b");
+    expect(getServedKeyNames()).toEqual(["Project B"]);
+    expect(getKeyQuotaUsage(first.id)).toBe(0);
+    expect(getKeyQuotaUsage(second.id)).toBe(1);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  getBenchmarkMetrics,
+  getCommonAgeWindow,
+  computeChannelMetrics,
+  toSampleOptions,
+  rankChannels,
+  getRadarData,
+  getTagOverlapMatrix,
+  getSharedTags,
+  getUniqueTags,
+  getChannelViewCount,
+  getBenchmarkSets,
+  saveBenchmarkSet,
+  deleteBenchmarkSet,
+  BenchmarkChannel,
+} from "@/services/benchmarkService";
+import type { ChannelStats, VideoItem } from "@/types";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2026-06-01T00:00:00Z");
+
+const video = (ageDays: number, views: number, contentType: VideoItem["contentType"] = "upload") => ({
+  id: `v${ageDays}`,
+  publishedAt: new Date(NOW - ageDays * DAY).toISOString(),
+  viewCountRaw: views,
+  engagementRate: views / 1000,
+  contentType,
+  tags: [],
+}) as VideoItem;
+
+const channel = (channelId: string, subCountRaw: number, topTags: string[]): BenchmarkChannel => ({
+  channelId,
+  title: channelId,
+  stats: { subCountRaw, viewCount: "1.5M" } as ChannelStats,
+  videos: [],
+  uploadFrequency: 1,
+  medianEngagementRate: 2,
+  medianViews: 100,
+  viewsPerDay: 10,
+  topTags,
+});
+
+const channels = [
+  channel("a", 500, ["resep", "masak", "pedas"]),
+  channel("b", 900, ["resep", "masak", "kue"]),
+  channel("c", 500, ["resep", "vlog"]),
+];
+
+describe("benchmarkService", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("ranks any number of channels per metric, sharing ranks on ties", () => {
+    const metrics = getBenchmarkMetrics(null);
+    const subscribers = metrics.find(m => m.key === "subscribers");
+    expect(rankChannels(channels, subscribers)).toEqual([2, 1, 2]);
+    expect(getRadarData(channels, metrics)[0]).toMatchObject({ metric: "Subscribers", b: 100, c: (500 / 900) * 100 });
+  });
+
+  it("uses medians and per-day views so one viral or old upload doesn't dominate", () => {
+    const metrics = computeChannelMetrics([video(1, 100), video(10, 200), video(20, 90000)], NOW);
+    expect(metrics.medianViews).toBe(200);
+    expect(metrics.viewsPerDay).toBe(100);
+  });
+
+  it("measures a one-video sample, leaving only the cadence unknown", () => {
+    expect(computeChannelMetrics([video(4, 800)], NOW)).toMatchObject({ uploadFrequency: 0, medianViews: 800, viewsPerDay: 200, medianEngagementRate: 0.8 });
+  });
+
+  it("compares views only inside the age window every sample covers", () => {
+    const young = { ...channel("young", 1, []), videos: [video(2, 500), video(5, 800), video(9, 1000)] };
+    const old = { ...channel("old", 1, []), videos: [video(4, 300), video(8, 700), video(40, 5000)] };
+    const window = getCommonAgeWindow([young, old], NOW);
+    expect(window).toEqual({ minDays: 4, maxDays: 9 });
+
+    const sameAge = getBenchmarkMetrics(window, NOW).find(m => m.key === "sameAgeViews");
+    expect(sameAge.label).toBe("Views @ 4–9d");
+    expect([young, old].map(sameAge.value)).toEqual([900, 500]);
+
+    const late = { ...channel("late", 1, []), videos: [video(60, 100), video(90, 100)] };
+    expect(getCommonAgeWindow([young, late], NOW)).toBeNull();
+    expect(getBenchmarkMetrics(null).some(m => m.key === "sameAgeViews")).toBe(false);
+  });
+
+  it("turns a sample config into listing options", () => {
+    const shorts = toSampleOptions({ mode: "days", count: 10, days: 30, content: "shorts" }, NOW);
+    expect(shorts.publishedAfter).toBe(NOW - 30 * DAY);
+    expect(shorts.match(video(1, 1, "short"))).toBe(true);
+    expect(shorts.match(video(1, 1))).toBe(false);
+
+    const all = toSampleOptions({ mode: "count", count: 25, days: 30, content: "all" }, NOW);
+    expect(all.limit).toBe(25);
+    expect(all.publishedAfter).toBeUndefined();
+    expect(all.match(video(1, 1, "upcoming"))).toBe(false);
+  });
+
+  it("reads formatted view counts from stats cached without raw values", () => {
+    expect(getChannelViewCount(channels[0].stats)).toBe(1500000);
+    expect(getChannelViewCount({ ...channels[0].stats, viewCountRaw: 42 })).toBe(42);
+  });
+
+  it("builds the pairwise tag overlap matrix", () => {
+    const matrix = getTagOverlapMatrix(channels);
+    expect(matrix.map(row => row.map(cell => cell.shared))).toEqual([[3, 2, 1], [2, 3, 1], [1, 1, 2]]);
+    expect(matrix[0][1].similarity).toBe(0.5);
+    expect(getSharedTags(channels)).toEqual([
+      { tag: "resep", channelIds: ["a", "b", "c"] },
+      { tag: "masak", channelIds: ["a", "b"] },
+    ]);
+    expect(getUniqueTags(channels, channels[2])).toEqual(["vlog"]);
+  });
+
+  it("saves named sets, replacing one with the same name", () => {
+    saveBenchmarkSet("Kuliner", ["@a", " @b ", ""], { mode: "days", count: 10, days: 90, content: "long" });
+    const [set] = getBenchmarkSets();
+    expect(set.channels).toEqual(["@a", "@b"]);
+    expect(set.sample).toMatchObject({ mode: "days", days: 90 });
+
+    saveBenchmarkSet("kuliner", ["@a", "@c"]);
+    expect(getBenchmarkSets()).toHaveLength(1);
+
+    deleteBenchmarkSet(getBenchmarkSets()[0].id);
+    expect(getBenchmarkSets()).toEqual([]);
+  });
+
+  it("keeps sets saved in the same millisecond apart", () => {
+    vi.spyOn(Date, "now").mockReturnValue(Date.parse("2026-06-01T00:00:00Z"));
+    const first = saveBenchmarkSet("Kuliner", ["@a"]);
+    saveBenchmarkSet("Travel", ["@b"]);
+    vi.restoreAllMocks();
+
+    deleteBenchmarkSet(first.id);
+    expect(getBenchmarkSets().map(s => s.name)).toEqual(["Travel"]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { CACHE_SIZE_BUDGET, CACHE_TTL, cacheGet, cacheSet, clearCache, getCacheStats } from "@/services/cacheService";
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.parse("2026-06-01T00:00:00Z");
+
+// Roughly 40% of the budget each, so a third entry forces an eviction
+const bigValue = () => "x".repeat(Math.floor(CACHE_SIZE_BUDGET * 0.4));
+
+describe("cacheService", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+    await clearCache();
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it("expires entries after their kind's TTL", async () => {
+    await cacheSet("videoStats", "a", { views: 10 });
+    await cacheSet("channelRef", "@dapur", "UC123");
+
+    vi.setSystemTime(START + CACHE_TTL.videoStats - 1);
+    expect(await cacheGet("videoStats", "a")).toEqual({ views: 10 });
+
+    vi.setSystemTime(START + CACHE_TTL.videoStats + 1);
+    expect(await cacheGet("videoStats", "a")).toBeNull();
+    expect(await cacheGet("channelRef", "@dapur")).toBe("UC123");
+  });
+
+  it("evicts the least recently read entry once over budget", async () => {
+    await cacheSet("videoMeta", "a", bigValue());
+    vi.setSystemTime(START + HOUR);
+    await cacheSet("videoMeta", "b", bigValue());
+
+    // Reading `a` makes `b` the least recently used
+    vi.setSystemTime(START + 2 * HOUR);
+    expect(await cacheGet("videoMeta", "a")).not.toBeNull();
+
+    vi.setSystemTime(START + 3 * HOUR);
+    await cacheSet("videoMeta", "c", bigValue());
+
+    expect(await cacheGet("videoMeta", "b")).toBeNull();
+    expect(await cacheGet("videoMeta", "a")).not.toBeNull();
+    expect(await cacheGet("videoMeta", "c")).not.toBeNull();
+    expect((await getCacheStats()).bytes).toBeLessThanOrEqual(CACHE_SIZE_BUDGET);
+  });
+
+  it("counts an overwritten entry once", async () => {
+    await cacheSet("videoMeta", "a", bigValue());
+    await cacheSet("videoMeta", "a", bigValue());
+    await cacheSet("videoMeta", "b", bigValue());
+
+    expect(await cacheGet("videoMeta", "a")).not.toBeNull();
+    expect(await cacheGet("videoMeta", "b")).not.toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  fetchComments,
+  estimateCommentCost,
+  getTopComments,
+  getCommentTermFrequency,
+  extractViewerQuestions,
+  getCommentVolume,
+} from "@/services/commentService";
+import type { CommentItem } from "@/types";
+
+const jsonResponse = (status: number, body: unknown) =>
+  ({ ok: status < 400, status, json: async () => body }) as Response;
+
+const thread = (videoId: string, id: string) => ({
+  id,
+  snippet: {
+    videoId,
+    totalReplyCount: 0,
+    topLevelComment: {
+      snippet: { authorDisplayName: "A", textOriginal: id, textDisplay: id, likeCount: 1, publishedAt: "2024-05-01T00:00:00Z" },
+    },
+  },
+});
+
+// Endless pages for every video except "off", which has comments disabled
+const mockComments = () =>
+  vi.fn(async (url: string) => {
+    const params = new URL(url).searchParams;
+    const videoId = params.get("videoId");
+    if (videoId === "off") {
+      return jsonResponse(403, { error: { code: 403, message: "off", errors: [{ reason: "commentsDisabled", message: "off" }] } });
+    }
+    const page = Number(params.get("pageToken") || 0);
+    return jsonResponse(200, { items: [thread(videoId, `${videoId}_${page}`)], nextPageToken: String(page + 1) });
+  });
+
+const comment = (text: string, likeCount = 0, publishedAt = "2024-05-01T08:00:00Z"): CommentItem => ({
+  id: text,
+  videoId: "v1",
+  author: "A",
+  text,
+  likeCount,
+  replyCount: 0,
+  publishedAt,
+});
+
+describe("fetchComments", () => {
+  beforeEach(() => localStorage.clear());
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("stops at the page cap and skips videos with comments disabled", async () => {
+    const fetchMock = mockComments();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await fetchComments("key", ["v1", "off", "v2"], { maxPagesPerVideo: 2 });
+
+    expect(result.comments.map(c => c.id)).toEqual(["v1_0", "v1_1", "v2_0", "v2_1"]);
+    expect(result.skippedVideos).toBe(1);
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+    expect(estimateCommentCost(3, 2)).toBe(6);
+  });
+});
+
+describe("comment insights", () => {
+  const comments = [
+    comment("Resep rendang enak banget", 5, "2024-05-01T08:00:00Z"),
+    comment("Rendang enak, bumbu lengkap\nApakah bisa pakai ayam", 40, "2024-05-02T23:00:00Z"),
+    comment("Berapa lama masaknya?", 12, "2024-05-02T01:00:00Z"),
+    comment("Berapa lama masaknya?", 3, "2024-05-03T01:00:00Z"),
+    comment("ok?", 100, "2024-05-03T02:00:00Z"),
+  ];
+
+  it("ranks top comments by likes", () => {
+    expect(getTopComments(comments, 2).map(c => c.likeCount)).toEqual([100, 40]);
+  });
+
+  it("counts repeated words and phrases, ignoring stop words", () => {
+    const terms = getCommentTermFrequency(comments);
+
+    expect(terms[0]).toEqual({ term: "rendang", count: 2 });
+    expect(terms).toContainEqual({ term: "rendang enak", count: 2 });
+    expect(terms.some(t => t.term === "banget")).toBe(false);
+    expect(terms.some(t => t.term === "resep rendang")).toBe(false);
+  });
+
+  it("extracts distinct viewer questions, most-liked first", () => {
+    expect(extractViewerQuestions(comments).map(q => q.text)).toEqual([
+      "Apakah bisa pakai ayam",
+      "Berapa lama masaknya?",
+    ]);
+  });
+
+  it("buckets comment volume by day", () => {
+    expect(getCommentVolume(comments)).toEqual([
+      { day: "2024-05-01", count: 1 },
+      { day: "2024-05-02", count: 2 },
+      { day: "2024-05-03", count: 2 },
+    ]);
+  });
+});
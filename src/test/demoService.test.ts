@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+  startDemo,
+  isDemoActive,
+  getDemoSavedVideos,
+  persistSavedVideos,
+  DEMO_QUERY,
+  DEMO_BENCHMARK_CHANNELS,
+  SAVED_VIDEOS_KEY,
+} from "@/services/demoService";
+import { activateLiveDataSource } from "@/services/fixtureDataSource";
+import { fetchYouTubeData, fetchTrendingVideos, resolveChannel } from "@/services/youtubeService";
+
+describe("demo mode", () => {
+  beforeAll(() => startDemo());
+  afterAll(() => activateLiveDataSource());
+
+  it("serves the sample channel at any fetch limit without a key", async () => {
+    expect(isDemoActive()).toBe(true);
+    const small = await fetchYouTubeData("", DEMO_QUERY, 10);
+    const full = await fetchYouTubeData("", DEMO_QUERY, 50);
+
+    expect(small.videos).toHaveLength(10);
+    expect(full.videos.length).toBeGreaterThan(small.videos.length);
+    expect(full.channelStats?.subCountRaw).toBeGreaterThan(0);
+  });
+
+  it("covers the trending regions Content Gap offers", async () => {
+    for (const region of ["ID", "US", "GB", "IN"]) {
+      const trending = await fetchTrendingVideos("", 50, region);
+      expect(trending.videos.length).toBeGreaterThan(0);
+      expect(trending.videos.every(v => v.categoryName)).toBe(true);
+    }
+  });
+
+  it("resolves both benchmark channels and the saved list", async () => {
+    for (const handle of DEMO_BENCHMARK_CHANNELS) {
+      expect(await resolveChannel("", handle)).not.toBeNull();
+    }
+    expect((await getDemoSavedVideos("")).length).toBeGreaterThan(0);
+  });
+
+  it("batch-saves demo videos without touching the user's saved list", async () => {
+    const own = JSON.stringify([{ id: "mine" }]);
+    localStorage.setItem(SAVED_VIDEOS_KEY, own);
+
+    persistSavedVideos(await getDemoSavedVideos(""));
+
+    expect(localStorage.getItem(SAVED_VIDEOS_KEY)).toBe(own);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import fixture from "./fixtures/dapur-nusantara-session.json";
+import { activateFixtureDataSource, activateLiveDataSource, YouTubeFixture } from "@/services/fixtureDataSource";
+import { fetchYouTubeData, fetchTrendingVideos } from "@/services/youtubeService";
+import { calculateAllVideoScores, getAverageScores, getTopTitles } from "@/services/performanceScoreService";
+import { analyzeContentGap } from "@/services/contentGapService";
+import type { AnalyzedData } from "@/types";
+
+describe("recorded session regression", () => {
+  let channel: AnalyzedData;
+  let trending: AnalyzedData;
+
+  beforeAll(async () => {
+    // Recency scores depend on "now"; pin it to the moment the session was recorded
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(fixture.recordedAt));
+    activateFixtureDataSource(fixture as YouTubeFixture);
+    channel = await fetchYouTubeData("", "@dapurnusantara", 50);
+    trending = await fetchTrendingVideos("", 50, "ID");
+  });
+
+  afterAll(() => {
+    activateLiveDataSource();
+    vi.useRealTimers();
+  });
+
+  it("replays the session offline", () => {
+    expect(channel.channelTitle).toBe("Dapur Nusantara");
+    expect(channel.channelStats?.subCountRaw).toBe(184000);
+    expect(channel.videos).toHaveLength(12);
+    expect(trending.videos).toHaveLength(10);
+  });
+
+  it("keeps performance scores stable", () => {
+    const scores = Object.fromEntries(
+      calculateAllVideoScores(channel.videos).map(v => [v.id, [v.titleScore.totalScore, v.thumbnailScore.totalScore]])
+    );
+
+    expect(scores).toEqual({
+      dn00000001a: [60, 79],
+      dn00000002b: [40, 49],
+      dn00000003c: [72, 88],
+      dn00000004d: [28, 39],
+      dn00000005e: [20, 25],
+      dn00000006f: [77, 86],
+      dn00000007g: [27, 38],
+      dn00000008h: [12, 24],
+      dn00000009i: [38, 47],
+      dn00000010j: [50, 59],
+      dn00000011k: [17, 32],
+      dn00000012l: [67, 71],
+    });
+    expect(getAverageScores(channel.videos)).toEqual({ avgTitleScore: 42, avgThumbnailScore: 53 });
+    expect(getTopTitles(channel.videos, 3).map(v => v.id)).toEqual(["dn00000006f", "dn00000003c", "dn00000012l"]);
+  });
+
+  it("keeps content gap results stable", () => {
+    const gap = analyzeContentGap(channel.videos, trending.videos);
+
+    expect(gap.overlapPercentage).toBe(4);
+    expect(gap.missingTopics.slice(0, 3)).toEqual([
+      { topic: "es kopi", frequency: 1, trendScore: 320 },
+      { topic: "minuman segar", frequency: 1, trendScore: 320 },
+      { topic: "kopi susu", frequency: 1, trendScore: 320 },
+    ]);
+    expect(gap.missingTopics.find(t => t.topic === "seblak")).toEqual({ topic: "seblak", frequency: 3, trendScore: 177 });
+    expect(gap.recommendations[0]).toEqual({
+      topic: "es kopi",
+      reason: "Trending in 1 videos but missing from your channel",
+      potentialViews: "3.1M+ potential views",
+    });
+  });
+});
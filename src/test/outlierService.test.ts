@@ -0,0 +1,62 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { buildChannelBaseline, getOutlierMultiplier, loadChannelBaseline, scoreVideos } from "@/services/outlierService";
+import { NotFoundError } from "@/services/youtubeApiClient";
+import type { VideoItem } from "@/types";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2026-06-01T00:00:00Z");
+
+let seq = 0;
+const video = (ageDays: number, views: number, contentType: VideoItem["contentType"] = "upload", channelId = "UCa") => ({
+  id: `v${seq++}`,
+  channelId,
+  publishedAt: new Date(NOW - ageDays * DAY).toISOString(),
+  viewCountRaw: views,
+  contentType,
+}) as VideoItem;
+
+describe("outlierService", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("compares a video with the channel's median for the same format and age band", () => {
+    const uploads = [
+      video(2, 1000), video(3, 2000), video(5, 3000),
+      video(40, 50000), video(50, 60000), video(60, 70000),
+      video(1, 100000, "short"), video(4, 200000, "short"), video(6, 300000, "short"),
+    ];
+    const baseline = buildChannelBaseline("UCa", uploads, NOW);
+
+    // A 4-day-old upload at 6k views is 3x its young long-form peers, not a flop next to older uploads
+    expect(getOutlierMultiplier(video(4, 6000), baseline, NOW)).toBe(3);
+    expect(getOutlierMultiplier(video(4, 100000, "short"), baseline, NOW)).toBe(0.5);
+  });
+
+  it("falls back to broader groups when a band is too thin, and skips streams", () => {
+    const baseline = buildChannelBaseline("UCa", [video(2, 100), video(40, 200), video(400, 300), video(1, 5, "live")], NOW);
+    expect(baseline.groups["long:0"].count).toBe(1);
+    expect(getOutlierMultiplier(video(3, 400), baseline, NOW)).toBe(2);
+    expect(getOutlierMultiplier(video(3, 400, "live"), baseline, NOW)).toBeUndefined();
+    expect(getOutlierMultiplier(video(3, 400), buildChannelBaseline("UCa", [video(2, 100)], NOW), NOW)).toBeUndefined();
+  });
+
+  it("scores only videos whose channel has a baseline", () => {
+    const baseline = buildChannelBaseline("UCa", [video(2, 100), video(3, 100), video(5, 100)], NOW);
+    const [hit, miss, other] = scoreVideos([video(1, 320), video(1, 150), video(1, 9999, "upload", "UCb")], { UCa: baseline }, NOW);
+
+    expect(hit).toMatchObject({ outlierMultiplier: 3.2, isOutlier: true });
+    expect(miss).toMatchObject({ outlierMultiplier: 1.5, isOutlier: false });
+    expect(other.outlierMultiplier).toBeUndefined();
+  });
+
+  it("gives up on a channel without uploads instead of paying for a search", async () => {
+    const fetchMock = vi.fn(async (url: string) =>
+      url.includes("/channels?")
+        ? ({ ok: true, status: 200, json: async () => ({ items: [] }) }) as Response
+        : ({ ok: false, status: 404, text: async () => "" }) as Response
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(loadChannelBaseline("key", "UCdeleted")).rejects.toBeInstanceOf(NotFoundError);
+    expect(fetchMock.mock.calls.some(([url]) => url.includes("/search?"))).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { getQuotaDayKey, getNextQuotaReset, getQuotaUsage, runWithQuotaFeature, trackQuota, getQuotaHistory } from "@/services/quotaService";
+
+describe("quotaService", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("keys quota days by Pacific calendar date", () => {
+    // 05:00 UTC is still the previous evening in Los Angeles
+    expect(getQuotaDayKey(new Date("2024-03-10T05:00:00Z"))).toBe("2024-03-09");
+    expect(getQuotaDayKey(new Date("2024-07-01T08:00:00Z"))).toBe("2024-07-01");
+  });
+
+  it("computes the next reset at Pacific midnight", () => {
+    // 20:00 PDT on June 1st resets at 00:00 PDT (07:00 UTC) June 2nd
+    const reset = getNextQuotaReset(new Date("2024-06-02T03:00:00Z"));
+    expect(reset.toISOString()).toBe("2024-06-02T07:00:00.000Z");
+  });
+
+  it("resets at Pacific midnight across daylight saving changes", () => {
+    // 01:00 PST on March 10th, before clocks spring forward: the next midnight is already PDT
+    expect(getNextQuotaReset(new Date("2024-03-10T09:00:00Z")).toISOString()).toBe("2024-03-11T07:00:00.000Z");
+    // 00:30 PDT on November 3rd, before clocks fall back: the next midnight is PST
+    expect(getNextQuotaReset(new Date("2024-11-03T07:30:00Z")).toISOString()).toBe("2024-11-04T08:00:00.000Z");
+  });
+
+  it("attributes usage to the running feature", async () => {
+    await runWithQuotaFeature("benchmark", async () => {
+      trackQuota("search");
+      trackQuota("channels");
+    });
+    trackQuota("videos");
+
+    const today = getQuotaHistory()[getQuotaDayKey()];
+    expect(today.benchmark).toBe(101);
+    expect(today.other).toBe(1);
+    expect(getQuotaUsage()).toBe(102);
+  });
+
+  it("never leaves an overlapping run's feature behind", async () => {
+    let finishPoll: () => void;
+    const poll = runWithQuotaFeature("watchlist", () => new Promise<void>(resolve => { finishPoll = resolve; }));
+    await runWithQuotaFeature("analyze", async () => trackQuota("videos"));
+    trackQuota("videos");
+    finishPoll();
+    await poll;
+    trackQuota("videos");
+
+    const today = getQuotaHistory()[getQuotaDayKey()];
+    expect(today).toMatchObject({ analyze: 1, watchlist: 1, other: 1 });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import feedXml from "./fixtures/dapur-nusantara-feed.xml?raw";
+import { parseChannelFeed, FEED_WINDOW } from "@/services/rssFeedService";
+import { fetchRecentUploadIds } from "@/services/youtubeService";
+
+const CHANNEL_ID = "UCdapurNusantara0000000a";
+
+const response = (status: number, body: unknown) =>
+  ({ ok: status < 400, status, json: async () => body, text: async () => String(body) }) as Response;
+
+const uploadIds = (count: number) => Array.from({ length: count }, (_, i) => `dn${String(i).padStart(9, "0")}`);
+
+// Feed proxy plus the uploads playlist behind it, newest first
+const mockChannel = (feedStatus = 200, feedBody: string = feedXml) =>
+  vi.fn(async (url: string) => {
+    if (url.includes("videos.xml")) return response(feedStatus, feedStatus === 200 ? feedBody : "");
+    if (url.includes("/channels?")) {
+      return response(200, { items: [{ id: CHANNEL_ID, contentDetails: { relatedPlaylists: { uploads: "UUdapur" } } }] });
+    }
+    const maxResults = Number(new URL(url).searchParams.get("maxResults"));
+    return response(200, { items: uploadIds(maxResults).map(videoId => ({ contentDetails: { videoId } })) });
+  });
+
+describe("rssFeedService", () => {
+  beforeEach(() => localStorage.clear());
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("parses Atom entries into video IDs and publish dates", () => {
+    const feed = parseChannelFeed(feedXml);
+
+    expect(feed.channelId).toBe(CHANNEL_ID);
+    expect(feed.channelTitle).toBe("Dapur Nusantara");
+    expect(feed.entries).toHaveLength(FEED_WINDOW);
+    expect(feed.entries[0]).toEqual({ videoId: "dn000000000", title: "Resep #1 Dapur Nusantara", publishedAt: "2024-05-31T10:00:00+00:00" });
+  });
+
+  it("discovers recent uploads without spending quota", async () => {
+    const fetchMock = mockChannel();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const ids = await fetchRecentUploadIds("key", CHANNEL_ID, 10);
+
+    expect(ids).toEqual(uploadIds(10));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("pages the API only for uploads older than the feed window", async () => {
+    const fetchMock = mockChannel();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const ids = await fetchRecentUploadIds("key", CHANNEL_ID, 20);
+
+    expect(ids).toEqual(uploadIds(20));
+    expect(fetchMock.mock.calls.filter(([url]) => url.includes("/playlistItems?"))).toHaveLength(1);
+  });
+
+  it("falls back to the API when the feed is unavailable", async () => {
+    vi.stubGlobal("fetch", mockChannel(404));
+
+    expect(await fetchRecentUploadIds("key", CHANNEL_ID, 10)).toEqual(uploadIds(10));
+  });
+
+  // Runs last: once feeds are switched off they stay off for the module's lifetime
+  it("turns feeds off for the session when the proxy serves the app instead", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchMock = mockChannel(200, "<!doctype html><html><body><div id=\"root\"></div></body></html>");
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect(await fetchRecentUploadIds("key", CHANNEL_ID, 10)).toEqual(uploadIds(10));
+    expect(await fetchRecentUploadIds("key", "UCother", 10)).toHaveLength(10);
+
+    expect(fetchMock.mock.calls.filter(([url]) => url.includes("videos.xml"))).toHaveLength(1);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { buildSlotCalendar, getSlotRecommendations } from "@/services/scheduleService";
+import type { VideoItem } from "@/types";
+
+const NOW = Date.parse("2026-06-03T00:00:00Z"); // Wednesday
+
+let seq = 0;
+// `utc` is the upload moment; Asia/Jakarta is UTC+7
+const video = (utc: string, views: number, isShort = false) => ({
+  id: `v${seq++}`,
+  title: "Resep",
+  publishedAt: utc,
+  viewCountRaw: views,
+  contentType: isShort ? "short" : "upload",
+  isShort,
+}) as VideoItem;
+
+describe("scheduleService", () => {
+  it("ranks slots by shrunk means, so one lucky upload does not win", () => {
+    const videos = [
+      // Mon 19:00 WIB: consistently good
+      video("2026-05-04T12:00:00Z", 20000),
+      video("2026-05-11T12:00:00Z", 22000),
+      video("2026-05-18T12:00:00Z", 21000),
+      video("2026-05-25T12:00:00Z", 19000),
+      // Fri 09:00 WIB: one hit, one flop
+      video("2026-05-08T02:00:00Z", 30000),
+      video("2026-05-15T02:00:00Z", 1000),
+      // Wed 10:00 WIB: consistently weak
+      video("2026-05-06T03:00:00Z", 2000),
+      video("2026-05-13T03:00:00Z", 2000),
+      video("2026-05-20T03:00:00Z", 2000),
+      // Sat 20:00 WIB: a single upload with the best raw average
+      video("2026-05-16T13:00:00Z", 26000),
+    ];
+    const { long } = getSlotRecommendations(videos, { timeZone: "Asia/Jakarta", now: NOW });
+    expect(long.best.map(s => [s.day, s.hour])).toEqual([[1, 19], [5, 9], [3, 10]]);
+
+    const all = getSlotRecommendations(videos, { timeZone: "Asia/Jakarta", minCount: 1, now: NOW }).long;
+    const saturday = all.best.find(s => s.day === 6)!;
+    expect(saturday.meanViews).toBeGreaterThan(all.best[0].meanViews);
+    expect(all.best[0]).toMatchObject({ day: 1, hour: 19, count: 4 });
+    expect(all.worst.map(s => [s.day, s.hour])).toEqual([[3, 10]]);
+  });
+
+  it("recommends Shorts and long-form separately", () => {
+    const videos = [
+      video("2026-05-04T12:00:00Z", 10000),
+      video("2026-05-11T12:00:00Z", 12000),
+      video("2026-05-05T05:00:00Z", 80000, true),
+      video("2026-05-12T05:00:00Z", 70000, true),
+    ];
+    const recs = getSlotRecommendations(videos, { timeZone: "Asia/Jakarta", now: NOW });
+
+    expect(recs.long.sampleSize).toBe(2);
+    expect(recs.long.best.map(s => [s.day, s.hour])).toEqual([[1, 19]]);
+    expect(recs.shorts.best.map(s => [s.day, s.hour])).toEqual([[2, 12]]);
+  });
+
+  it("exports best slots as weekly events starting in UTC", () => {
+    const videos = [video("2026-05-04T12:00:00Z", 10000), video("2026-05-11T12:00:00Z", 12000)];
+    const recs = getSlotRecommendations(videos, { timeZone: "Asia/Jakarta", now: NOW });
+    const ics = buildSlotCalendar([recs.long, recs.shorts], "Asia/Jakarta", { id: "UCdapur", title: "Dapur, Kita" }, NOW);
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    // Mon 19:00 WIB is Mon 12:00 UTC
+    expect(ics).toContain("DTSTART:20260608T120000Z\r\n");
+    expect(ics).toContain("RRULE:FREQ=WEEKLY;BYDAY=MO\r\n");
+    expect(ics).not.toContain("TZID");
+    expect(ics).toContain("SUMMARY:Upload Video #1 - Dapur\\, Kita\r\n");
+
+    // Re-exporting later keeps the UIDs, so calendars update the events instead of adding copies
+    const later = buildSlotCalendar([recs.long], "Asia/Jakarta", { id: "UCdapur", title: "Dapur, Kita" }, NOW + 7 * 24 * 60 * 60 * 1000);
+    const uids = (text: string) => text.match(/^UID:.*$/gm);
+    expect(uids(later)).toEqual(uids(ics));
+    expect(uids(ics)).toEqual(["UID:slot-UCdapur-long-1-19@yt-analyzer"]);
+    expect(uids(buildSlotCalendar([recs.long], "Asia/Jakarta", { title: "Resep Hemat" }, NOW))).toEqual(["UID:slot-resep-hemat-long-1-19@yt-analyzer"]);
+  });
+
+  it("moves the recurrence to the UTC weekday and folds long lines at 75 octets", () => {
+    // Mon 05:00 WIB is Sun 22:00 UTC
+    const videos = [video("2026-05-03T22:00:00Z", 10000), video("2026-05-10T22:00:00Z", 12000)];
+    const recs = getSlotRecommendations(videos, { timeZone: "Asia/Jakarta", now: NOW });
+    const title = "Dapur Nusantara – Resep Rumahan Sederhana untuk Keluarga Indonesia 🍲";
+    const ics = buildSlotCalendar([recs.long], "Asia/Jakarta", { id: "UCdapur", title }, NOW);
+
+    expect(ics).toContain("DTSTART:20260607T220000Z\r\n");
+    expect(ics).toContain("RRULE:FREQ=WEEKLY;BYDAY=SU\r\n");
+
+    const lines = ics.split("\r\n");
+    lines.forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(lines.some(line => line.startsWith(" "))).toBe(true);
+    // Unfolding restores the original lines, multi-byte characters included
+    expect(ics.replace(/\r\n /g, "")).toContain(`SUMMARY:Upload Video #1 - ${title}\r\n`);
+  });
+});
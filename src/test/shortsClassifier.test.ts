@@ -0,0 +1,48 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { getShortsConfidence, refineShortsWithProbe, setShortsProbe, SHORTS_THRESHOLD } from "@/services/shortsClassifier";
+import type { YouTubeVideoResource } from "@/services/youtubeApiClient";
+import type { VideoItem } from "@/types";
+
+const resource = (title: string): YouTubeVideoResource => ({
+  id: "s1",
+  snippet: { title, publishedAt: "2024-01-01T00:00:00Z", channelId: "UC1", channelTitle: "Ch", thumbnails: { high: { url: "", width: 480, height: 360 } } },
+});
+
+const item = (id: string, durationSec: number, shortsConfidence: number) =>
+  ({ id, durationSec, shortsConfidence, isShort: shortsConfidence >= SHORTS_THRESHOLD, contentType: shortsConfidence >= SHORTS_THRESHOLD ? "short" : "upload" }) as VideoItem;
+
+describe("shortsClassifier", () => {
+  afterEach(() => setShortsProbe(null));
+
+  it("accepts Shorts up to three minutes when a hashtag backs the duration", () => {
+    expect(getShortsConfidence(resource("Resep sambal #shorts"), 150)).toBeGreaterThanOrEqual(SHORTS_THRESHOLD);
+    expect(getShortsConfidence(resource("Resep sambal"), 150)).toBeLessThan(SHORTS_THRESHOLD);
+    expect(getShortsConfidence(resource("Resep sambal #shorts"), 181)).toBe(0);
+  });
+
+  it("counts a 45-second video without #shorts as a Short when no probe is configured", async () => {
+    expect(getShortsConfidence(resource("Resep kilat"), 45)).toBe(SHORTS_THRESHOLD);
+    expect(getShortsConfidence(resource("Resep kilat #Shorts"), 45)).toBeGreaterThan(0.8);
+
+    const [clip] = await refineShortsWithProbe([item("clip", 45, SHORTS_THRESHOLD)]);
+    expect(clip).toMatchObject({ contentType: "short", isShort: true });
+  });
+
+  it("lets the probe settle only borderline videos", async () => {
+    const probe = vi.fn(async (id: string) => (id === "maybe_no" ? false : id === "maybe_yes" ? true : null));
+    setShortsProbe(probe);
+
+    const [no, yes, unknown, sure] = await refineShortsWithProbe([
+      item("maybe_no", 45, 0.5),
+      item("maybe_yes", 120, 0.2),
+      item("unknown", 45, 0.5),
+      item("sure", 30, 0.85),
+    ]);
+
+    expect(no).toMatchObject({ contentType: "upload", isShort: false, shortsConfidence: 0 });
+    expect(yes).toMatchObject({ contentType: "short", isShort: true, shortsConfidence: 1 });
+    expect(unknown.contentType).toBe("short");
+    expect(sure.shortsConfidence).toBe(0.85);
+    expect(probe).toHaveBeenCalledTimes(3);
+  });
+});
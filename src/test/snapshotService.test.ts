@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  recordVideoSnapshots,
+  recordChannelSnapshot,
+  getVideoSnapshots,
+  getChannelSnapshots,
+  getVideoHistories,
+  getViewVelocity,
+  clearSnapshots,
+  MAX_SNAPSHOTS,
+} from "@/services/snapshotService";
+import type { ChannelStats, VideoSnapshot } from "@/types";
+
+const HOUR = 60 * 60 * 1000;
+
+const snapshot = (videoId: string, at: number, views: number): VideoSnapshot => ({ videoId, at, views, likes: 0, comments: 0 });
+
+describe("snapshotService", () => {
+  beforeEach(() => clearSnapshots());
+
+  it("keeps each video's history apart and drops the oldest beyond the cap", async () => {
+    await recordVideoSnapshots([snapshot("a", 0, 10), snapshot("b", 0, 99)]);
+    for (let i = 1; i <= MAX_SNAPSHOTS; i++) {
+      await recordVideoSnapshots([snapshot("a", i * HOUR, 10 + i)]);
+    }
+
+    const history = await getVideoSnapshots("a");
+    expect(history).toHaveLength(MAX_SNAPSHOTS);
+    expect(history[0].at).toBe(HOUR);
+    expect(await getVideoSnapshots("b")).toEqual([snapshot("b", 0, 99)]);
+  });
+
+  it("reads the histories of a whole grid at once, leaving out videos without one", async () => {
+    await recordVideoSnapshots([snapshot("a", 0, 10), snapshot("b", 0, 99)]);
+    await recordVideoSnapshots([snapshot("a", HOUR, 20)]);
+
+    const histories = await getVideoHistories(["a", "b", "c", "a"]);
+    expect([...histories.keys()]).toEqual(["a", "b"]);
+    expect(histories.get("a")).toEqual([snapshot("a", 0, 10), snapshot("a", HOUR, 20)]);
+  });
+
+  it("records channel stats", async () => {
+    const stats = { subscriberCount: "1.0K", subCountRaw: 1000 } as ChannelStats;
+    await recordChannelSnapshot({ channelId: "UC1", at: 5, stats });
+
+    expect(await getChannelSnapshots("UC1")).toEqual([{ channelId: "UC1", at: 5, stats }]);
+  });
+
+  it("computes views per hour between snapshots, skipping ones taken moments apart", () => {
+    expect(getViewVelocity([
+      snapshot("a", 0, 100),
+      snapshot("a", 10 * 1000, 150),
+      snapshot("a", 2 * HOUR, 300),
+      snapshot("a", 3 * HOUR, 250),
+    ])).toEqual([
+      { at: 2 * HOUR, viewsPerHour: 100 },
+      { at: 3 * HOUR, viewsPerHour: 0 },
+    ]);
+  });
+});
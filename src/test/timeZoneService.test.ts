@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { convertSlot, formatSlot, getDefaultTimeZone, getTimeZoneOffset, getZonedSlot } from "@/services/timeZoneService";
+
+describe("timeZoneService", () => {
+  it("reads weekday and hour in the audience's zone", () => {
+    // Sunday 23:30 UTC is already Monday morning across Indonesia
+    const at = new Date("2026-06-07T23:30:00Z");
+    expect(getZonedSlot(at, "Asia/Jakarta")).toEqual({ day: 1, hour: 6, minute: 30 });
+    expect(getZonedSlot(at, "Asia/Jayapura")).toEqual({ day: 1, hour: 8, minute: 30 });
+    expect(getZonedSlot(at, "America/Los_Angeles")).toEqual({ day: 0, hour: 16, minute: 30 });
+  });
+
+  it("converts weekly slots across zones, daylight saving and day wraps included", () => {
+    const summer = new Date("2026-07-01T00:00:00Z");
+    const winter = new Date("2026-01-15T00:00:00Z");
+    expect(getTimeZoneOffset("Asia/Makassar", summer)).toBe(480);
+    expect(getTimeZoneOffset("Asia/Kolkata", summer)).toBe(330);
+
+    const slot = { day: 1, hour: 19, minute: 0 };
+    expect(formatSlot(convertSlot(slot, "Asia/Jakarta", "Europe/Berlin", summer))).toBe("Mon 14:00");
+    expect(formatSlot(convertSlot(slot, "Asia/Jakarta", "Europe/Berlin", winter))).toBe("Mon 13:00");
+    expect(formatSlot(convertSlot({ day: 0, hour: 2, minute: 0 }, "Asia/Jakarta", "America/New_York", summer))).toBe("Sat 15:00");
+  });
+
+  it("defaults to the channel country's zone", () => {
+    expect(getDefaultTimeZone("id")).toBe("Asia/Jakarta");
+    expect(getDefaultTimeZone("ZZ")).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  });
+});
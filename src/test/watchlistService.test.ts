@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import feedXml from "./fixtures/dapur-nusantara-feed.xml?raw";
+import {
+  addWatchedChannel,
+  collectWatchlistAlerts,
+  getWatchlist,
+  markWatchlistVisited,
+  updateWatchlistSettings,
+} from "@/services/watchlistService";
+import { fetchWatchlistUploads } from "@/services/youtubeService";
+import { clearCache } from "@/services/cacheService";
+import type { VideoItem } from "@/types";
+
+const CHANNEL_ID = "UCdapurNusantara0000000a";
+const NOW = Date.parse("2024-06-01T12:00:00Z");
+const HOUR = 60 * 60 * 1000;
+
+const upload = (id: string, hoursAgo: number, views = 0) =>
+  ({ id, channelId: "UC1", channelTitle: "Dapur", title: id, views: String(views), viewCountRaw: views, publishedAt: new Date(NOW - hoursAgo * HOUR).toISOString() }) as VideoItem;
+
+const response = (body: unknown) =>
+  ({ ok: true, status: 200, json: async () => body, text: async () => String(body) }) as Response;
+
+describe("watchlist alerts", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    addWatchedChannel("UC1", "UC1");
+    updateWatchlistSettings({ viewsThreshold: 1000 });
+  });
+
+  it("learns a channel's uploads on the first poll and reports later young ones", () => {
+    const first = collectWatchlistAlerts([upload("old", 100), upload("recent", 2)], NOW);
+    expect(first.newUploads).toEqual([]);
+    expect(getWatchlist().channels[0].title).toBe("Dapur");
+
+    const second = collectWatchlistAlerts([upload("fresh", 1), upload("backfill", 72), upload("recent", 3)], NOW);
+    expect(second.newUploads.map(v => v.id)).toEqual(["fresh"]);
+  });
+
+  it("alerts once when a video passes the views threshold within its first day", () => {
+    expect(collectWatchlistAlerts([upload("a", 5, 999), upload("b", 30, 5000)], NOW).thresholdHits).toEqual([]);
+    expect(collectWatchlistAlerts([upload("a", 6, 1500)], NOW).thresholdHits.map(v => v.id)).toEqual(["a"]);
+    expect(collectWatchlistAlerts([upload("a", 7, 3000)], NOW).thresholdHits).toEqual([]);
+  });
+
+  it("returns the previous visit when the view is opened", () => {
+    expect(markWatchlistVisited(NOW)).toBe(0);
+    expect(markWatchlistVisited(NOW + HOUR)).toBe(NOW);
+  });
+});
+
+describe("fetchWatchlistUploads", () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await clearCache();
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("discovers uploads through the feed and only pays for video details", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.includes("videos.xml")) return response(feedXml);
+      if (url.includes("/videoCategories?")) return response({ items: [] });
+      if (url.includes("/videos?")) {
+        return response({
+          items: new URL(url).searchParams.get("id").split(",").map(id => ({
+            id,
+            snippet: { title: id, publishedAt: "2024-05-31T10:00:00Z", channelId: CHANNEL_ID, channelTitle: "Dapur Nusantara", thumbnails: {} },
+            contentDetails: { duration: "PT5M" },
+            statistics: { viewCount: "100" },
+          })),
+        });
+      }
+      throw new Error(`Unexpected request ${url}`);
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await fetchWatchlistUploads("key", [CHANNEL_ID]);
+
+    expect(result.videos).toHaveLength(15);
+    expect(result.failedChannels).toEqual([]);
+    expect(fetchMock.mock.calls.filter(([url]) => url.includes("/videos?"))).toHaveLength(1);
+    expect(fetchMock.mock.calls.some(([url]) => url.includes("/channels?") || url.includes("/playlistItems?"))).toBe(false);
+  });
+
+  it("marks a deleted channel as failed instead of searching, and caches uploads playlists", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchMock = vi.fn(async (url: string) => {
+      // No feeds: both channels go through the uploads playlist
+      if (url.includes("videos.xml")) return { ok: false, status: 404, text: async () => "" } as Response;
+      if (url.includes("/channels?")) {
+        const id = new URL(url).searchParams.get("id");
+        return response({ items: id === CHANNEL_ID ? [{ id, contentDetails: { relatedPlaylists: { uploads: "UUdapur" } } }] : [] });
+      }
+      if (url.includes("/playlistItems?")) return response({ items: [{ contentDetails: { videoId: "dn000000000" } }] });
+      if (url.includes("/videos?")) return response({ items: [] });
+      throw new Error(`Unexpected request ${url}`);
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const first = await fetchWatchlistUploads("key", [CHANNEL_ID, "UCdeleted"]);
+    await fetchWatchlistUploads("key", [CHANNEL_ID]);
+
+    expect(first.failedChannels).toEqual(["UCdeleted"]);
+    expect(fetchMock.mock.calls.some(([url]) => url.includes("/search?"))).toBe(false);
+    expect(fetchMock.mock.calls.filter(([url]) => url.includes(`/channels?`) && url.includes(CHANNEL_ID))).toHaveLength(1);
+    warn.mockRestore();
+  });
+});
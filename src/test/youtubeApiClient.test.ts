@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { getVideos, QuotaExceededError } from "@/services/youtubeApiClient";
+import { getQuotaUsage } from "@/services/quotaService";
+
+const jsonResponse = (status: number, body: unknown) =>
+  ({ ok: status < 400, status, json: async () => body }) as Response;
+
+const errorResponse = (status: number, reason: string) =>
+  jsonResponse(status, { error: { code: status, message: reason, errors: [{ reason, message: reason }] } });
+
+describe("youtubeApiRequest retries", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    // Zero jitter keeps the backoff instant
+    vi.spyOn(Math, "random").mockReturnValue(0);
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("retries transient failures until one succeeds", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(errorResponse(503, "backendError"))
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(errorResponse(403, "rateLimitExceeded"))
+      .mockResolvedValueOnce(jsonResponse(200, { items: [{ id: "abc" }] }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const data = await getVideos("key", { part: "id", id: "abc" });
+
+    expect(data.items).toHaveLength(1);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("retries only failures of the fetch call itself, never bugs that throw a TypeError", async () => {
+    // A response without json() makes the client itself throw a TypeError after fetch succeeded
+    const fetchMock = vi.fn().mockResolvedValue(undefined);
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(getVideos("key", { part: "id", id: "abc" })).rejects.toBeInstanceOf(TypeError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("never retries quota errors", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(errorResponse(403, "quotaExceeded"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(getVideos("key", { part: "id", id: "abc" })).rejects.toBeInstanceOf(QuotaExceededError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("charges quota for failed calls and retries, but not for quota rejections", async () => {
+    vi.stubGlobal("fetch", vi.fn()
+      .mockResolvedValueOnce(errorResponse(503, "backendError"))
+      .mockResolvedValueOnce(jsonResponse(200, { items: [] })));
+    await getVideos("key", { part: "id", id: "abc" });
+    expect(getQuotaUsage()).toBe(2);
+
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(errorResponse(404, "notFound")));
+    await expect(getVideos("key", { part: "id", id: "abc" })).rejects.toThrow();
+    expect(getQuotaUsage()).toBe(3);
+
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(errorResponse(403, "quotaExceeded")));
+    await expect(getVideos("key", { part: "id", id: "abc" })).rejects.toBeInstanceOf(QuotaExceededError);
+    expect(getQuotaUsage()).toBe(3);
+  });
+});
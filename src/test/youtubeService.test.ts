@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { fetchYouTubeData, fetchVideoAnalysis, extractVideoId, parseChannelInput, resolveChannel, classifyContentType } from "@/services/youtubeService";
+import { isAbortError } from "@/services/youtubeApiClient";
+import { clearCache } from "@/services/cacheService";
+import type { AnalyzedData } from "@/types";
+
+const jsonResponse = (body: unknown) => ({ ok: true, status: 200, json: async () => body }) as Response;
+
+const videoResource = (id: string, views = 100) => ({
+  id,
+  snippet: { title: id, publishedAt: "2024-01-01T00:00:00Z", channelId: "UC1", channelTitle: "Ch", thumbnails: {}, categoryId: "22" },
+  contentDetails: { duration: "PT5M" },
+  statistics: { viewCount: String(views), likeCount: "10", commentCount: "1" },
+});
+
+const categoriesResponse = () => jsonResponse({ items: [{ id: "22", snippet: { title: "People & Blogs", assignable: true } }] });
+
+// Search pages of 50 IDs each, named by page, plus the matching videos.list responses
+const mockApi = () =>
+  vi.fn(async (url: string) => {
+    const params = new URL(url).searchParams;
+    if (url.includes("/videoCategories?")) return categoriesResponse();
+    if (url.includes("/search?")) {
+      const page = Number(params.get("pageToken") || 0);
+      return jsonResponse({
+        items: Array.from({ length: 50 }, (_, i) => ({ id: { kind: "youtube#video", videoId: `v${page}_${i}` } })),
+        nextPageToken: String(page + 1),
+      });
+    }
+    return jsonResponse({ items: params.get("id").split(",").map(videoResource) });
+  });
+
+describe("fetchYouTubeData", () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await clearCache();
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("streams a partial result per listing page", async () => {
+    vi.stubGlobal("fetch", mockApi());
+    const partials: number[] = [];
+
+    const result = await fetchYouTubeData("key", "cooking", 100, {
+      onPartial: (data) => partials.push(data.videos.length),
+    });
+
+    expect(partials).toEqual([50, 100]);
+    expect(result.videos).toHaveLength(100);
+  });
+
+  it("labels videos with their category, loading the list once per region", async () => {
+    const fetchMock = mockApi();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const first = await fetchYouTubeData("key", "cooking", 100);
+    await fetchYouTubeData("key", "baking", 50);
+
+    expect(first.videos[0]).toMatchObject({ categoryId: "22", categoryName: "People & Blogs" });
+    expect(fetchMock.mock.calls.filter(([url]) => url.includes("/videoCategories?"))).toHaveLength(1);
+  });
+
+  it("stops on abort and keeps what was already loaded", async () => {
+    vi.stubGlobal("fetch", mockApi());
+    const controller = new AbortController();
+    let last: AnalyzedData | null = null;
+
+    const run = fetchYouTubeData("key", "gaming", 500, {
+      signal: controller.signal,
+      onPartial: (data) => {
+        last = data;
+        controller.abort();
+      },
+    });
+
+    await expect(run).rejects.toSatisfy(isAbortError);
+    expect(last.videos).toHaveLength(50);
+  });
+
+  it("sends search options and keeps filtered listings apart in the cache", async () => {
+    const fetchMock = mockApi();
+    vi.stubGlobal("fetch", fetchMock);
+    const searches = () => fetchMock.mock.calls.filter(([url]) => url.includes("/search?")).map(([url]) => new URL(url).searchParams);
+    const options = { publishedAfter: "2024-01-01", order: "viewCount", videoDuration: "any" } as const;
+
+    await fetchYouTubeData("key", "cooking", 50, { search: options });
+    await fetchYouTubeData("key", "cooking", 50, { search: { ...options } });
+    await fetchYouTubeData("key", "cooking", 50);
+
+    expect(searches()).toHaveLength(2);
+    expect(searches()[0].get("publishedAfter")).toBe("2024-01-01T00:00:00Z");
+    expect(searches()[0].get("order")).toBe("viewCount");
+    expect(searches()[0].has("videoDuration")).toBe(false);
+    expect(searches()[1].has("order")).toBe(false);
+  });
+
+  it("counts detail chunks that keep failing instead of dropping them silently", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const api = mockApi();
+    vi.stubGlobal("fetch", vi.fn(async (url: string) =>
+      url.includes("/videos?") && url.includes("v1_")
+        ? ({ ok: false, status: 503, json: async () => ({ error: { code: 503, message: "backendError" } }) }) as Response
+        : api(url)
+    ));
+
+    const result = await fetchYouTubeData("key", "music", 100);
+
+    expect(result.videos).toHaveLength(50);
+    expect(result.failedChunks).toBe(1);
+  });
+});
+
+describe("single video analysis", () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await clearCache();
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("recognises watch, youtu.be and Shorts links", () => {
+    expect(extractVideoId("https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42")).toBe("dQw4w9WgXcQ");
+    expect(extractVideoId("https://m.youtube.com/watch?feature=share&v=dQw4w9WgXcQ")).toBe("dQw4w9WgXcQ");
+    expect(extractVideoId("youtu.be/dQw4w9WgXcQ?si=abc")).toBe("dQw4w9WgXcQ");
+    expect(extractVideoId("https://youtube.com/shorts/dQw4w9WgXcQ")).toBe("dQw4w9WgXcQ");
+    expect(extractVideoId("https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PL123")).toBeNull();
+    expect(extractVideoId("resep nasi goreng")).toBeNull();
+  });
+
+  it("never spends a search call on a pasted video link", async () => {
+    const fetchMock = mockApi();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await fetchYouTubeData("key", "https://youtu.be/abcdefghijk", 50);
+
+    expect(result.videos.map(v => v.id)).toEqual(["abcdefghijk"]);
+    expect(fetchMock.mock.calls.some(([url]) => url.includes("/search?"))).toBe(false);
+  });
+
+  it("compares the video with the last uploads of its channel", async () => {
+    const views: Record<string, number> = { target00000: 900, up1: 100, up2: 300, up3: 200 };
+    vi.stubGlobal("fetch", vi.fn(async (url: string) => {
+      // No feed for the channel, so the uploads come from the playlist
+      if (url.includes("videos.xml")) return { ok: false, status: 404 } as Response;
+      const params = new URL(url).searchParams;
+      if (url.includes("/channels?") && params.get("part") === "contentDetails") {
+        return jsonResponse({ items: [{ id: "UC1", contentDetails: { relatedPlaylists: { uploads: "UU1" } } }] });
+      }
+      if (url.includes("/channels?")) {
+        return jsonResponse({ items: [{ id: "UC1", snippet: { title: "Ch", thumbnails: {} }, statistics: { subscriberCount: "1000" } }] });
+      }
+      if (url.includes("/playlistItems?")) {
+        return jsonResponse({ items: ["up1", "target00000", "up2", "up3"].map(videoId => ({ contentDetails: { videoId } })) });
+      }
+      if (url.includes("/videoCategories?")) return categoriesResponse();
+      return jsonResponse({ items: params.get("id").split(",").map(id => videoResource(id, views[id])) });
+    }));
+
+    const result = await fetchVideoAnalysis("key", "target00000", 3);
+
+    expect(result.recentUploads.map(v => v.id)).toEqual(["up1", "up2", "up3"]);
+    expect(result.comparison).toMatchObject({ sampleSize: 3, medianViews: 200, viewsRatio: 4.5, viewsRank: 1 });
+  });
+});
+
+describe("channel resolution", () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await clearCache();
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("classifies every channel URL form", () => {
+    expect(parseChannelInput("@dapurnusantara")).toEqual({ kind: "handle", value: "dapurnusantara" });
+    expect(parseChannelInput("https://www.youtube.com/@dapurnusantara/videos")).toEqual({ kind: "handle", value: "dapurnusantara" });
+    expect(parseChannelInput("youtube.com/channel/UCdapurNusantara0000000a?sub=1")).toEqual({ kind: "id", value: "UCdapurNusantara0000000a" });
+    expect(parseChannelInput("https://youtube.com/user/DapurNusantara")).toEqual({ kind: "username", value: "DapurNusantara" });
+    expect(parseChannelInput("https://youtube.com/c/DapurNusantara/featured")).toEqual({ kind: "custom", value: "DapurNusantara" });
+    expect(parseChannelInput("https://youtube.com/shorts/abcdefghijk")).toEqual({ kind: "video", value: "abcdefghijk" });
+    expect(parseChannelInput("resep nasi goreng")).toBeNull();
+  });
+
+  it("resolves legacy usernames through forUsername and caches the mapping", async () => {
+    const fetchMock = vi.fn(async (url: string) => jsonResponse(
+      url.toLowerCase().includes("forusername=dapurnusantara") ? { items: [{ id: "UCdapurNusantara0000000a", snippet: { title: "Dapur Nusantara" } }] } : { items: [] }
+    ));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const first = await resolveChannel("key", "https://youtube.com/user/DapurNusantara");
+    const second = await resolveChannel("key", "youtube.com/user/dapurnusantara");
+
+    expect(first).toEqual({ channelId: "UCdapurNusantara0000000a", channelTitle: "Dapur Nusantara" });
+    expect(second).toEqual(first);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).not.toContain("/search?");
+  });
+
+  it("resolves a video link to the channel that uploaded it", async () => {
+    vi.stubGlobal("fetch", vi.fn(async (url: string) =>
+      jsonResponse({ items: new URL(url).searchParams.get("id").split(",").map(id => videoResource(id)) })
+    ));
+
+    expect(await resolveChannel("key", "https://youtu.be/abcdefghijk")).toEqual({ channelId: "UC1", channelTitle: "Ch" });
+  });
+});
+
+describe("content type detection", () => {
+  const broadcast = (liveBroadcastContent: string, live?: object) =>
+    ({ ...videoResource("b1"), snippet: { ...videoResource("b1").snippet, liveBroadcastContent }, liveStreamingDetails: live }) as Parameters<typeof classifyContentType>[0];
+
+  it("tells uploads and Shorts apart from broadcasts", () => {
+    expect(classifyContentType(broadcast("none"), 300)).toBe("upload");
+    expect(classifyContentType(broadcast("none"), 45)).toBe("short");
+    expect(classifyContentType(broadcast("upcoming", { scheduledStartTime: "2024-06-02T10:00:00Z" }), 0)).toBe("upcoming");
+    expect(classifyContentType(broadcast("live", { actualStartTime: "2024-06-01T10:00:00Z" }), 0)).toBe("live");
+  });
+
+  it("separates past premieres from stream recordings by the countdown", () => {
+    const window = { actualStartTime: "2024-06-01T10:00:00Z", actualEndTime: "2024-06-01T10:12:00Z" };
+
+    // 10-minute video after a 2-minute countdown
+    expect(classifyContentType(broadcast("none", window), 600)).toBe("premiere");
+    // 12-minute broadcast kept as is, and a short stream that must not count as a Short
+    expect(classifyContentType(broadcast("none", window), 720)).toBe("live");
+    expect(classifyContentType(broadcast("none", { ...window, actualEndTime: "2024-06-01T10:00:50Z" }), 50)).toBe("live");
+  });
+});
@@ -18,8 +18,40 @@ export interface VideoItem {
   durationFormatted: string;
   channelTitle: string;
   channelId: string;
+  categoryId?: string;
+  // YouTube category name, when the category list could be loaded
+  categoryName?: string;
   isShort: boolean;
+  // 0-1 confidence behind isShort; absent on videos saved before it was recorded
+  shortsConfidence?: number;
+  contentType: VideoContentType;
+  liveDetails?: LiveDetails;
   isOutlier?: boolean;
+  // Views as a multiple of the channel's median for the same format and age band; absent until a baseline is known
+  outlierMultiplier?: number;
+}
+
+// How a video reached the channel: a regular upload, a Short, a stream (on air or its VOD),
+// a premiere, or a stream/premiere that has not started yet
+export type VideoContentType = 'upload' | 'short' | 'live' | 'premiere' | 'upcoming';
+
+export interface LiveDetails {
+  scheduledStartTime?: string;
+  actualStartTime?: string;
+  actualEndTime?: string;
+  // The API reports viewers only while a broadcast is on air; peak counts are not exposed
+  concurrentViewers?: number;
+}
+
+// Top-level comment of a comment thread
+export interface CommentItem {
+  id: string;
+  videoId: string;
+  author: string;
+  text: string;
+  likeCount: number;
+  replyCount: number;
+  publishedAt: string;
 }
 
 export interface ChannelStats {
@@ -31,6 +63,27 @@ export interface ChannelStats {
   description: string;
   avatar: string;
   banner?: string;
+  // Absent on entries cached by older versions
+  title?: string;
+  viewCountRaw?: number;
+  videoCountRaw?: number;
+  // Country code set by the channel owner (e.g. "ID")
+  country?: string;
+}
+
+// Counters of one video at one moment, recorded on every fresh fetch
+export interface VideoSnapshot {
+  videoId: string;
+  at: number;
+  views: number;
+  likes: number;
+  comments: number;
+}
+
+export interface ChannelSnapshot {
+  channelId: string;
+  at: number;
+  stats: ChannelStats;
 }
 
 export interface AIAnalysisResult {
@@ -61,17 +114,58 @@ export interface AnalyzedData {
   channelId?: string;
   channelStats?: ChannelStats;
   totalFound: number;
+  servedBy?: string[]; // Names of the pool keys that answered the fetch
+  failedChunks?: number; // Detail chunks of 50 videos that could not be loaded
+}
+
+// Extra search.list filters for keyword queries; dates are YYYY-MM-DD, empty fields are not sent
+export interface SearchOptions {
+  publishedAfter?: string;
+  publishedBefore?: string;
+  relevanceLanguage?: string;
+  regionCode?: string;
+  videoDuration?: 'any' | 'short' | 'medium' | 'long';
+  order?: 'relevance' | 'date' | 'viewCount' | 'rating';
+  videoCategoryId?: string;
+}
+
+// Progress of a running fetch: API pages requested, units charged, videos loaded so far
+export interface FetchProgress {
+  pages: number;
+  units: number;
+  videos: number;
+}
+
+// How one video performs against the recent uploads of its own channel
+export interface VideoComparison {
+  sampleSize: number;
+  medianViews: number;
+  medianLikes: number;
+  medianER: number;
+  viewsRatio: number; // Video views divided by the median, 1 = typical
+  likesRatio: number;
+  erDelta: number; // Percentage points above (+) or below (-) the median ER
+  viewsRank: number; // 1-based rank by views among the sample plus the video itself
+}
+
+// Result of analyzing a single pasted video URL
+export interface VideoAnalysis {
+  video: VideoItem;
+  channelStats?: ChannelStats;
+  recentUploads: VideoItem[];
+  comparison: VideoComparison;
+  failedChunks?: number;
 }
 
 // Navigation Modes - Updated with new modes
-export type AnalysisMode = 'dashboard' | 'trending' | 'insights' | 'benchmark' | 'saved' | 'content_gap' | 'history' | 'schedule' | 'title_score' | 'downloader';
+export type AnalysisMode = 'dashboard' | 'trending' | 'insights' | 'benchmark' | 'saved' | 'content_gap' | 'history' | 'schedule' | 'title_score' | 'downloader' | 'quota' | 'video' | 'watchlist';
 
 // Content Type Filter
-export type ContentTypeFilter = 'all' | 'long' | 'shorts';
+export type ContentTypeFilter = 'all' | 'long' | 'shorts' | 'live' | 'premiere' | 'upcoming';
 
 export type FetchLimit = 10 | 50 | 100 | 500 | 1000 | 5000;
 
-export type SortOption = 'newest' | 'oldest' | 'popular' | 'most_liked' | 'highest_er';
+export type SortOption = 'newest' | 'oldest' | 'popular' | 'most_liked' | 'highest_er' | 'outlier';
 
 export type DurationRange = 'all' | 'under_1' | '1_5' | '5_20' | 'over_20';
 
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Same-origin proxy for channel RSS feeds (defaults to the dev server's /yt-feeds)
+  readonly VITE_FEED_BASE_URL?: string;
+  // Proxy for youtube.com/shorts/ that passes redirects through; enables the Shorts URL probe
+  readonly VITE_SHORTS_PROBE_URL?: string;
+}
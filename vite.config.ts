@@ -11,6 +11,20 @@ export default defineConfig(({ mode }) => ({
     hmr: {
       overlay: false,
     },
+    proxy: {
+      // Channel RSS feeds have no CORS headers; see src/services/rssFeedService.ts
+      "/yt-feeds": {
+        target: "https://www.youtube.com",
+        changeOrigin: true,
+        rewrite: (url) => url.replace(/^\/yt-feeds/, "/feeds"),
+      },
+      // Shorts URL probe (set VITE_SHORTS_PROBE_URL=/yt-shorts); see src/services/shortsClassifier.ts
+      "/yt-shorts": {
+        target: "https://www.youtube.com",
+        changeOrigin: true,
+        rewrite: (url) => url.replace(/^\/yt-shorts/, "/shorts"),
+      },
+    },
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {